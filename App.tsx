@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import Library from './components/Library';
 import Reader from './components/Reader';
 import TopNav from './components/TopNav';
@@ -9,10 +9,25 @@ import ProfileModal from './src/pages/ProfileModal';
 import WebcamWindow from './components/WebcamWindow';
 import WelcomeExperience from './components/WelcomeExperience';
 import LoginPage from './src/pages/LoginPage';
+import TranslationJobsPage from './src/pages/TranslationJobsPage';
+import TranslationReportsPage from './src/pages/TranslationReportsPage';
+import ReviewPage from './src/pages/ReviewPage';
 import { useSession } from './src/components/SessionContextProvider';
-import { Settings, Book, AIState, BookProgress } from './types';
+import { Settings, Book, AIState, BookProgress, AIProviderId, GlossaryEntry, ChatContextMode, LibrarySource, ChatThread, ContextReport, TargetLanguage, TranslationStyle, ChapterReview, ReviewGrade, PromptOverrides, UsageLimits } from './types';
 import { LIBRARY, SAMPLE_TEXT, SAMPLE_TEXT_TITLE } from './constants';
-import { chatWithAI } from './services/geminiService';
+import { chatWithAI, chatResponseToHtml, generateQuiz } from './services/geminiService';
+import { configFromSettings, isConfigured } from './services/aiProvider';
+import { verifyCitations } from './services/citationService';
+import { mergeGlossary } from './services/glossaryService';
+import { promptVersion } from './services/promptRegistry';
+import { isQuotaExhausted } from './services/providers/proxyProvider';
+import { searchLibrary, buildLibraryContext } from './src/services/libraryIndex';
+import { getChapterContent } from './src/services/libraryService';
+import { titleFromMessages } from './src/services/threadService';
+import { useChatThreads } from './src/hooks/useChatThreads';
+import { useChapterReviews } from './src/hooks/useChapterReviews';
+import { createReview, recordAnswer } from './src/services/reviewService';
+import { dueQuestions, dueReviews } from './services/spacedRepetition';
 import { supabase } from './src/integrations/supabase/client';
 
 // Cookie Helpers (Keep for API Key, as it's client-side for security)
@@ -37,8 +52,6 @@ const getCookie = (name: string) => {
   return null;
 };
 
-const FREE_LIMIT = 3;
-
 const App: React.FC = () => {
   const { session, user, profile, isLoading: isSessionLoading, fetchProfile } = useSession();
 
@@ -48,30 +61,49 @@ const App: React.FC = () => {
   
   const [settings, setSettings] = useState<Settings>(() => {
     const savedApiKey = getCookie('chassidus_ai_key') || '';
+    const savedProvider = JSON.parse(decodeURIComponent(getCookie('chassidus_ai_provider') || '{}'));
+    // Glossaries outgrow a cookie, so guests keep theirs in local storage
+    const savedGlossary = JSON.parse(localStorage.getItem('chassidus_ai_glossary') || '[]') as GlossaryEntry[];
+    const savedPromptOverrides = JSON.parse(localStorage.getItem('chassidus_ai_prompt_overrides') || '{}') as PromptOverrides;
+    const savedUsageLimits = JSON.parse(localStorage.getItem('chassidus_ai_usage_limits') || 'null') as UsageLimits | null;
+    const savedLanguage = localStorage.getItem('chassidus_ai_target_language') as TargetLanguage | null;
+    const savedStyle = localStorage.getItem('chassidus_ai_translation_style') as TranslationStyle | null;
+    const savedHideUnreviewed = localStorage.getItem('chassidus_ai_hide_unreviewed') === 'true';
     const savedLocalProgress = JSON.parse(getCookie('chassidus_ai_local_progress') || '[]') as BookProgress[];
     return {
       theme: 'light', 
       fontSize: 2.2, 
       lineHeight: 1.8,
       translationMode: 'bilingual',
+      targetLanguage: savedLanguage || 'en',
+      translationStyle: savedStyle || 'flowing',
       textAlign: 'center',
+      abbreviationMode: 'hover',
       apiKey: savedApiKey,
-      dailyUsageCount: 0,
-      lastUsageDate: new Date().toISOString().split('T')[0],
+      aiProvider: (savedProvider.provider as AIProviderId) || 'gemini',
+      aiModel: savedProvider.model || '',
+      aiBaseUrl: savedProvider.baseUrl || '',
       progress: [], // Will be overwritten by profile or localProgress
       localProgress: savedLocalProgress,
-      isAdmin: true, // Set isAdmin to true for now to access admin tools
+      isAdmin: false, // Granted by the server (public.admins) after login
+      glossary: savedGlossary,
+      promptOverrides: savedPromptOverrides,
+      usageLimits: savedUsageLimits || { dailyTokens: null, weeklyCost: null },
+      hideUnreviewedTranslations: savedHideUnreviewed,
     };
   });
 
   const [currentBook, setCurrentBook] = useState<Book | null>(null);
   const [isLibraryOpen, setIsLibraryOpen] = useState(false); 
   const [isProfileOpen, setIsProfileOpen] = useState(false);
+  const [isJobsOpen, setIsJobsOpen] = useState(false);
+  const [isReportsOpen, setIsReportsOpen] = useState(false);
   const [isMenuOpen, setIsMenuOpen] = useState(false); 
   const [isWebcamActive, setIsWebcamActive] = useState(false);
   
   // Navigation State
   const [scrollToChunkId, setScrollToChunkId] = useState<number | null>(null);
+  const [scrollToText, setScrollToText] = useState<string | null>(null);
 
   // AI State
   const [aiState, setAiState] = useState<AIState>({
@@ -82,6 +114,14 @@ const App: React.FC = () => {
     followUps: []
   });
   
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const { threads, saveThread, deleteThread, renameThread } = useChatThreads(user?.id || null);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+
+  const { reviews, saveReview } = useChapterReviews(user?.id || null);
+  const [activeReview, setActiveReview] = useState<{ id: string; practice: boolean } | null>(null);
+  const [isPreparingReview, setIsPreparingReview] = useState(false);
+  
   const [selectedTextForAI, setSelectedTextForAI] = useState<string>("");
   const [markedContext, setMarkedContext] = useState<string>(SAMPLE_TEXT); // Default to SAMPLE_TEXT
 
@@ -95,8 +135,15 @@ const App: React.FC = () => {
         fontSize: profile.font_size || prev.fontSize,
         lineHeight: profile.line_height || prev.lineHeight,
         translationMode: profile.translation_mode || prev.translationMode,
+        targetLanguage: profile.target_language || prev.targetLanguage,
+        translationStyle: profile.translation_style || prev.translationStyle,
         textAlign: profile.text_align || prev.textAlign,
+        abbreviationMode: profile.abbreviation_mode || prev.abbreviationMode,
         progress: profile.progress || prev.progress,
+        glossary: profile.glossary || prev.glossary,
+        promptOverrides: profile.prompt_overrides || prev.promptOverrides,
+        usageLimits: profile.usage_limits || prev.usageLimits,
+        hideUnreviewedTranslations: profile.hide_unreviewed_translations ?? prev.hideUnreviewedTranslations,
         localProgress: [], // Clear local progress if logged in
         // API Key remains client-side (cookie) for security
       }));
@@ -109,17 +156,19 @@ const App: React.FC = () => {
     }
   }, [profile]);
 
-  // Check and Reset Daily Usage (Still tracked, but unlimited for key users)
+  // Admin tools follow the server-side role; the policies enforce it either way
   useEffect(() => {
-    const today = new Date().toISOString().split('T')[0];
-    if (settings.lastUsageDate !== today) {
-      setSettings(prev => ({
-        ...prev,
-        dailyUsageCount: 0,
-        lastUsageDate: today
-      }));
+    if (!user) {
+      setSettings(prev => ({ ...prev, isAdmin: false }));
+      return;
     }
-  }, []);
+    let cancelled = false;
+    supabase.rpc('is_admin').then(({ data, error }) => {
+      if (error) console.error('Error checking admin role:', error);
+      if (!cancelled) setSettings(prev => ({ ...prev, isAdmin: data === true }));
+    });
+    return () => { cancelled = true; };
+  }, [user]);
 
   // Save local progress to cookie whenever it changes (for guest users)
   useEffect(() => {
@@ -128,11 +177,15 @@ const App: React.FC = () => {
     }
   }, [settings.progress, user]);
 
+  // Name recorded on reviews and accepted corrections
+  const reviewerName = [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || user?.email || null;
+
   // --- Handlers ---
 
   const handleBookSelect = async (book: Book, content?: string) => { // Added content parameter
     setCurrentBook(book);
     setIsLibraryOpen(false); 
+    if (book.id !== currentBook?.id) handleNewThread(); // Earlier conversations stay in the thread list
 
     if (content) {
       setMarkedContext(content); // Use provided content for online books
@@ -167,6 +220,7 @@ const App: React.FC = () => {
     setCurrentBook(null);
     setIsLibraryOpen(false);
     setScrollToChunkId(null);
+    handleNewThread();
     setMarkedContext(SAMPLE_TEXT); // Reset to sample text when going home
   };
 
@@ -189,6 +243,31 @@ const App: React.FC = () => {
       }
     }
 
+    // Provider choice lives next to the key (client-side)
+    if (newSettings.aiProvider !== undefined || newSettings.aiModel !== undefined || newSettings.aiBaseUrl !== undefined) {
+      const providerCookie = { provider: updated.aiProvider, model: updated.aiModel, baseUrl: updated.aiBaseUrl };
+      setCookie('chassidus_ai_provider', encodeURIComponent(JSON.stringify(providerCookie)), 365);
+    }
+
+    if (newSettings.glossary !== undefined && !user) {
+      localStorage.setItem('chassidus_ai_glossary', JSON.stringify(newSettings.glossary));
+    }
+    if (newSettings.promptOverrides !== undefined && !user) {
+      localStorage.setItem('chassidus_ai_prompt_overrides', JSON.stringify(newSettings.promptOverrides));
+    }
+    if (newSettings.usageLimits !== undefined && !user) {
+      localStorage.setItem('chassidus_ai_usage_limits', JSON.stringify(newSettings.usageLimits));
+    }
+    if (newSettings.targetLanguage !== undefined && !user) {
+      localStorage.setItem('chassidus_ai_target_language', newSettings.targetLanguage);
+    }
+    if (newSettings.translationStyle !== undefined && !user) {
+      localStorage.setItem('chassidus_ai_translation_style', newSettings.translationStyle);
+    }
+    if (newSettings.hideUnreviewedTranslations !== undefined && !user) {
+      localStorage.setItem('chassidus_ai_hide_unreviewed', String(newSettings.hideUnreviewedTranslations));
+    }
+
     // Update profile in Supabase if user is logged in
     if (user) {
       const { error } = await supabase
@@ -198,8 +277,15 @@ const App: React.FC = () => {
           font_size: updated.fontSize,
           line_height: updated.lineHeight,
           translation_mode: updated.translationMode,
+          target_language: updated.targetLanguage,
+          translation_style: updated.translationStyle,
           text_align: updated.textAlign,
+          abbreviation_mode: updated.abbreviationMode,
           progress: updated.progress, // Assuming progress is also part of settings
+          glossary: updated.glossary,
+          prompt_overrides: updated.promptOverrides,
+          usage_limits: updated.usageLimits,
+          hide_unreviewed_translations: updated.hideUnreviewedTranslations,
           updated_at: new Date().toISOString(),
         })
         .eq('id', user.id);
@@ -219,10 +305,6 @@ const App: React.FC = () => {
   const handleError = (msg: string) => {
     setAiState(prev => ({ ...prev, isLoading: false, error: msg }));
   };
-
-  const incrementUsage = () => {
-    setSettings(prev => ({ ...prev, dailyUsageCount: prev.dailyUsageCount + 1 }));
-  };
   
   const handleNavigateToChunk = (chunkId: number) => {
     setScrollToChunkId(chunkId);
@@ -231,16 +313,10 @@ const App: React.FC = () => {
   };
 
   // Allow passing an explicit key for retry logic
-  const handleAskAI = async (query: string, contextMode: 'selection' | 'full', manualContext?: string, explicitKey?: string) => {
-     const effectiveKey = explicitKey || settings.apiKey;
-
-     // Check usage limits if no key
-     if (!effectiveKey) {
-        if (settings.dailyUsageCount >= FREE_LIMIT) {
-             setIsProfileOpen(true); // Open profile to prompt for API key
-             return;
-        }
-     }
+  const handleAskAI = async (query: string, contextMode: ChatContextMode, manualContext?: string, explicitKey?: string, queryPromptVersion?: string) => {
+     // Library-wide answers draw on many books, so their usage is not booked to the open one
+     const book = currentBook && contextMode !== 'library' ? { id: currentBook.id, title: currentBook.title } : undefined;
+     const aiConfig = { ...configFromSettings(settings, explicitKey), book };
 
      // Determine Context
      let context = "";
@@ -248,6 +324,8 @@ const App: React.FC = () => {
         context = manualContext;
      } else if (contextMode === 'selection') {
         context = selectedTextForAI || "No selection active.";
+     } else if (contextMode === 'library') {
+        context = ""; // Retrieved below, once the question is on screen
      } else {
         // Use the marked context if available, otherwise fallback
         context = markedContext || (currentBook ? SAMPLE_TEXT : "No book selected.");
@@ -265,31 +343,184 @@ const App: React.FC = () => {
        setAiState(prev => ({ 
          ...prev, 
          isLoading: true, 
-         messages: [...prev.messages, { role: 'user', content: query }],
+         messages: [...prev.messages, { role: 'user', content: query, ...(queryPromptVersion ? { promptVersion: queryPromptVersion } : {}) }],
          error: null 
        }));
      } else {
        setAiState(prev => ({ ...prev, isLoading: true, error: null }));
      }
      
+     const controller = new AbortController();
+     chatAbortRef.current = controller;
+     // Starting or resuming another thread abandons this request; its answer is dropped
+     const isAbandoned = () => chatAbortRef.current !== controller;
+
+     // Library-wide questions: the best matching segments become the numbered sections
+     let sources: LibrarySource[] | undefined;
+     if (contextMode === 'library' && !manualContext) {
+       try {
+         const hits = await searchLibrary(query, mergeGlossary(settings.glossary));
+         ({ context, sources } = buildLibraryContext(hits));
+         if (sources.length === 0) context = "No matching passages were found in the library.";
+       } catch (e) {
+         console.error('Library search failed:', e);
+         if (isAbandoned()) return;
+         handleError("Could not search the library. Check your connection and try again.");
+         return;
+       }
+     }
+
+     if (isAbandoned()) return;
+
      try {
-       // If no key, pass empty string to trigger mock mode in service
-       const result = await chatWithAI(query, context, effectiveKey || "", aiState.messages);
+       // If no key, the service falls back to mock mode
+       let contextReport: ContextReport | undefined;
+       const result = await chatWithAI(query, context, aiConfig, aiState.messages, {
+         signal: controller.signal,
+         focusText: contextMode === 'full' ? selectedTextForAI : undefined,
+         onToken: (partial) => { if (!isAbandoned()) setAiState(prev => ({ ...prev, streamingText: partial })); },
+         onContextReport: (report) => { if (report.condensed) contextReport = report; }
+       });
+       if (isAbandoned()) return;
+       // Free tier answers may be recorded offline ones, not produced by a template
+       const answerVersion = isConfigured(aiConfig) ? promptVersion('chat', aiConfig.promptOverrides) : undefined;
+       // Section numbers refer to the retrieved passages in library mode, otherwise to the open chapter
+       const verification = verifyCitations(result, sources ? context : markedContext);
        
        setAiState(prev => ({ 
          isLoading: false, 
-         messages: [...prev.messages, { role: 'model', content: result.text }],
+         messages: result.answer.length > 0
+           ? [...prev.messages, { role: 'model', content: chatResponseToHtml(result), response: result, verification, sources, contextReport, promptVersion: answerVersion }]
+           : prev.messages,
          type: 'chat', 
          error: null,
-         followUps: result.followUps 
+         followUps: result.followUps,
+         streamingText: undefined
        }));
-       incrementUsage();
 
      } catch(e) {
+       if (isAbandoned()) return;
+       setAiState(prev => ({ ...prev, streamingText: undefined }));
+       if (isQuotaExhausted(e)) {
+         handleError("Today's free requests are used up. Add your own API key to keep going.");
+         setIsProfileOpen(true); // Open profile to prompt for API key
+         return;
+       }
        handleError("Error contacting scholar. Please check API Key.");
+     } finally {
+       if (chatAbortRef.current === controller) chatAbortRef.current = null;
      }
   };
 
+  // Opens a library-wide citation: loads its chapter into the Reader and scrolls to the segment
+  const handleOpenSource = async (source: LibrarySource) => {
+    try {
+      const content = await getChapterContent(source.chapterId);
+      setCurrentBook({ id: source.bookId, title: `${source.bookTitle} — ${source.chapterTitle}`, category: 'Chassidus' });
+      setMarkedContext(content.map(segment => segment.hebrew).join('\n'));
+      setScrollToText(source.hebrew);
+      setTimeout(() => setScrollToText(null), 1500);
+    } catch (e) {
+      console.error('Error opening source:', e);
+      handleError("Could not open that passage.");
+    }
+  };
+
+  // --- Chapter reviews ---
+
+  const openReview = (review: ChapterReview) => {
+    setActiveReview({ id: review.id, practice: dueQuestions(review).length === 0 });
+  };
+
+  // Reviews the open chapter, writing its questions the first time
+  const handleReviewChapter = async () => {
+    if (!currentBook) return;
+    const existing = reviews.find(r => r.bookId === currentBook.id);
+    if (existing) {
+      openReview(existing);
+      return;
+    }
+
+    setIsPreparingReview(true);
+    try {
+      const drafts = await generateQuiz(markedContext, { ...configFromSettings(settings), book: { id: currentBook.id, title: currentBook.title } }, settings.targetLanguage);
+      if (drafts.length === 0) {
+        handleError("This chapter is too short to review.");
+        return;
+      }
+      const review = createReview(currentBook.id, currentBook.title, drafts);
+      saveReview(review);
+      openReview(review);
+    } catch (e) {
+      handleError("Error writing review questions. Please check API Key.");
+    } finally {
+      setIsPreparingReview(false);
+    }
+  };
+
+  const handleReviewAnswer = (questionId: string, grade: ReviewGrade, response: string) => {
+    const review = reviews.find(r => r.id === activeReview?.id);
+    if (review) saveReview(recordAnswer(review, questionId, grade, response, activeReview!.practice));
+  };
+
+  const currentReview = reviews.find(r => r.id === activeReview?.id);
+
+  const handleStopAI = () => {
+    chatAbortRef.current?.abort();
+  };
+
+  // Unlike Stop, which keeps the partial answer, the pending request is forgotten
+  const abandonChat = () => {
+    chatAbortRef.current?.abort();
+    chatAbortRef.current = null;
+  };
+
+  // Save the conversation after every answer
+  useEffect(() => {
+    const last = aiState.messages[aiState.messages.length - 1];
+    if (aiState.isLoading || !last || last.role !== 'model') return;
+
+    const existing = threads.find(t => t.id === activeThreadId);
+    if (existing && existing.messages.length === aiState.messages.length) return; // Just resumed
+
+    const now = new Date().toISOString();
+    const id = existing?.id || crypto.randomUUID();
+    saveThread({
+      id,
+      title: existing?.title || titleFromMessages(aiState.messages),
+      bookId: existing ? existing.bookId : currentBook?.id || null,
+      bookTitle: existing ? existing.bookTitle : currentBook?.title || null,
+      messages: aiState.messages,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    });
+    setActiveThreadId(id);
+  }, [aiState.messages, aiState.isLoading, threads, activeThreadId, currentBook]);
+
+  const handleNewThread = () => {
+    abandonChat();
+    setActiveThreadId(null);
+    setAiState(prev => ({ ...prev, isLoading: false, messages: [], followUps: [], error: null, type: null, streamingText: undefined }));
+  };
+
+  const handleResumeThread = (thread: ChatThread) => {
+    abandonChat();
+    const lastAnswer = [...thread.messages].reverse().find(m => m.response);
+    setActiveThreadId(thread.id);
+    setAiState({
+      isLoading: false,
+      messages: thread.messages,
+      type: 'chat',
+      error: null,
+      followUps: lastAnswer?.response?.followUps || [],
+    });
+  };
+
+  const handleDeleteThread = (threadId: string) => {
+    deleteThread(threadId);
+    if (threadId === activeThreadId) handleNewThread();
+  };
+
   if (isSessionLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen bg-white dark:bg-[#050505]">
@@ -313,6 +544,8 @@ const App: React.FC = () => {
           theme={settings.theme}
           progress={settings.progress}
           isAdmin={settings.isAdmin} // Pass isAdmin prop
+          onOpenTranslationJobs={() => { setIsLibraryOpen(false); setIsJobsOpen(true); }}
+          onOpenTranslationReports={() => { setIsLibraryOpen(false); setIsReportsOpen(true); }}
         />
 
         {/* Profile / API Key Modal */}
@@ -328,6 +561,37 @@ const App: React.FC = () => {
           />
         )}
 
+        {/* Batch Translation Jobs (admin) */}
+        {isJobsOpen && settings.isAdmin && (
+          <TranslationJobsPage
+            settings={settings}
+            userId={user?.id || null}
+            onClose={() => setIsJobsOpen(false)}
+            theme={settings.theme}
+          />
+        )}
+
+        {/* Translation issue reports (admin) */}
+        {isReportsOpen && settings.isAdmin && (
+          <TranslationReportsPage
+            userId={user?.id || null}
+            reviewerName={reviewerName}
+            onClose={() => setIsReportsOpen(false)}
+            theme={settings.theme}
+          />
+        )}
+
+        {/* Chapter Review */}
+        {activeReview && currentReview && (
+          <ReviewPage
+            review={currentReview}
+            practice={activeReview.practice}
+            onAnswer={handleReviewAnswer}
+            onClose={() => setActiveReview(null)}
+            theme={settings.theme}
+          />
+        )}
+
         {/* Login Page (as a modal-like overlay) */}
         {showLoginPage && (
           <LoginPage 
@@ -352,18 +616,23 @@ const App: React.FC = () => {
               <Reader 
                 text={markedContext} // Use markedContext which can be fetched from Supabase
                 title={currentBook.title} // Use currentBook title
+                bookId={currentBook.id}
                 settings={settings}
                 onTextSelect={handleOpenAIWithSelection}
-                onAskAI={(query) => handleAskAI(query, 'selection')}
+                onAskAI={(query, version) => handleAskAI(query, 'selection', undefined, undefined, version)}
                 onError={handleError}
                 onOpenProfile={() => setIsProfileOpen(true)}
                 onOpenLibrary={() => setIsLibraryOpen(true)}
                 isMenuOpen={isMenuOpen}
                 onCloseMenu={() => setIsMenuOpen(false)}
                 scrollToChunkId={scrollToChunkId}
+                scrollToText={scrollToText}
                 onContextUpdate={setMarkedContext}
+                onReviewChapter={handleReviewChapter}
+                isPreparingReview={isPreparingReview}
                 currentBookId={currentBook.id} // Pass current book ID to Reader
                 userId={user?.id || null} // Pass user ID to Reader
+                reviewerName={reviewerName}
               />
             ) : (
               <WelcomeExperience 
@@ -374,6 +643,8 @@ const App: React.FC = () => {
                 onStartLearning={handleStartLearning}
                 onOpenLogin={() => setShowLoginPage(true)} // Open login page from welcome
                 user={user} // Pass user to WelcomeExperience
+                dueReviews={dueReviews(reviews)}
+                onStartReview={openReview}
               />
             )}
           </div>
@@ -393,12 +664,21 @@ const App: React.FC = () => {
           {/* AI Orb & Panel */}
           <Orb 
             onAskAI={handleAskAI} 
+            onStop={handleStopAI}
             aiState={aiState}
             onCloseResult={() => {}}
             theme={settings.theme}
             initialQuery={undefined} 
             selectedText={selectedTextForAI}
             onNavigateToChunk={handleNavigateToChunk}
+            onOpenSource={handleOpenSource}
+            threads={threads}
+            activeThreadId={activeThreadId}
+            currentBookId={currentBook?.id || null}
+            onNewThread={handleNewThread}
+            onResumeThread={handleResumeThread}
+            onRenameThread={renameThread}
+            onDeleteThread={handleDeleteThread}
           />
 
         </div>
@@ -1,6 +1,7 @@
 
 import React from 'react';
-import { Settings, Theme, TranslationMode } from '../types';
+import { Settings, Theme, TranslationMode, AbbreviationMode } from '../types';
+import { TARGET_LANGUAGES } from '../constants';
 
 interface BottomNavProps {
   settings: Settings;
@@ -22,13 +23,20 @@ const BottomNav: React.FC<BottomNavProps> = ({
     ? 'text-gray-500 hover:text-gray-200' 
     : 'text-gray-400 hover:text-gray-900';
     
-  // Cycle Translation Modes: Hebrew -> Bilingual -> English -> Hebrew
+  // Cycle Translation Modes: Hebrew -> Bilingual -> Interlinear -> Translation only -> Hebrew
   const handleTranslateToggle = () => {
-      const modes: TranslationMode[] = ['hebrew', 'bilingual', 'english'];
+      const modes: TranslationMode[] = ['hebrew', 'bilingual', 'interlinear', 'english'];
       const nextIdx = (modes.indexOf(settings.translationMode) + 1) % modes.length;
       onUpdateSettings({ translationMode: modes[nextIdx] });
   };
   
+  // Cycle Abbreviation Expansions: Off -> Hover -> Inline -> Off
+  const handleAbbreviationToggle = () => {
+      const modes: AbbreviationMode[] = ['off', 'hover', 'inline'];
+      const nextIdx = (modes.indexOf(settings.abbreviationMode) + 1) % modes.length;
+      onUpdateSettings({ abbreviationMode: modes[nextIdx] });
+  };
+
   // Cycle Font Size, AND toggle alignment on mobile if needed (handled by toggling both here for simplicity)
   const handleTextSizeClick = () => {
      // Text Size Cycle
@@ -98,13 +106,15 @@ const BottomNav: React.FC<BottomNavProps> = ({
       <button 
         onClick={handleTranslateToggle}
         className={`group relative p-2 transition-all duration-300 flex items-center justify-center ${iconClass} ${settings.translationMode !== 'hebrew' ? 'opacity-100' : 'opacity-50'}`}
-        title={`Translation: ${settings.translationMode}`}
+        title={`Translation: ${settings.translationMode === 'english' ? 'translation only' : settings.translationMode} (${TARGET_LANGUAGES[settings.targetLanguage].label})`}
       >
          {/* Icon changes based on state slightly to indicate mode */}
          {settings.translationMode === 'english' ? (
-             <span className="font-serif font-bold text-sm">EN</span>
+             <span className="font-serif font-bold text-sm">{settings.targetLanguage.toUpperCase()}</span>
          ) : settings.translationMode === 'hebrew' ? (
              <span className="font-hebrew-serif font-bold text-sm">אב</span>
+         ) : settings.translationMode === 'interlinear' ? (
+             <span className="font-serif font-bold text-sm"><span className="font-hebrew-serif">א</span>↔{settings.targetLanguage.toUpperCase()}</span>
          ) : (
              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
                 <path strokeLinecap="round" strokeLinejoin="round" d="M10.5 21l5.25-11.25L21 21m-9-3h7.5M3 5.621a48.474 48.474 0 016-.371m0 0c1.12 0 2.233.038 3.334.114M9 5.25V3m3.334 2.364C11.176 10.658 7.69 15.08 3 17.502m9.334-12.138c.896.061 1.785.147 2.666.257m-4.589 8.495a18.023 18.023 0 01-3.827-5.802" />
@@ -112,6 +122,17 @@ const BottomNav: React.FC<BottomNavProps> = ({
          )}
       </button>
 
+      {/* Rashei Teivos Expansion Toggle (3-State) */}
+      <button 
+        onClick={handleAbbreviationToggle}
+        className={`group relative p-2 transition-all duration-300 flex items-center justify-center ${iconClass} ${settings.abbreviationMode !== 'off' ? 'opacity-100' : 'opacity-50'}`}
+        title={`Abbreviations: ${settings.abbreviationMode}`}
+      >
+         <span className={`font-hebrew-serif font-bold text-sm ${settings.abbreviationMode === 'hover' ? 'underline decoration-dotted underline-offset-4' : ''}`}>
+           {settings.abbreviationMode === 'inline' ? 'ר״ת…' : 'ר״ת'}
+         </span>
+      </button>
+
     </div>
   );
 };
@@ -12,9 +12,11 @@ interface LibraryProps {
   theme: string;
   progress: BookProgress[];
   isAdmin: boolean; // New prop
+  onOpenTranslationJobs: () => void;
+  onOpenTranslationReports: () => void;
 }
 
-const Library: React.FC<LibraryProps> = ({ onSelectBook, selectedBookId, isOpen, onClose, theme, progress, isAdmin }) => {
+const Library: React.FC<LibraryProps> = ({ onSelectBook, selectedBookId, isOpen, onClose, theme, progress, isAdmin, onOpenTranslationJobs, onOpenTranslationReports }) => {
   const [expandedCategory, setExpandedCategory] = useState<string | null>('Chabad Chassidus');
   const [dbBooks, setDbBooks] = useState<Book[]>([]);
   const [isLoadingDbBooks, setIsLoadingDbBooks] = useState(true);
@@ -211,6 +213,26 @@ const Library: React.FC<LibraryProps> = ({ onSelectBook, selectedBookId, isOpen,
               <div className="mt-8 pt-8 border-t border-dashed border-gray-200 dark:border-gray-800">
                 <h3 className={`text-xs font-bold uppercase tracking-widest opacity-40 mb-6 ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>Admin Tools</h3>
                 
+                {/* Batch Translation */}
+                <div className="mb-6">
+                  <button 
+                    onClick={onOpenTranslationJobs}
+                    className={`w-full py-3 rounded-md text-xs font-bold uppercase tracking-widest transition-all ${isDark ? 'bg-white/10 text-white hover:bg-white/20' : 'bg-black/5 text-black hover:bg-black/10'}`}
+                  >
+                    Translation Jobs
+                  </button>
+                </div>
+
+                {/* Moderation */}
+                <div className="mb-6">
+                  <button 
+                    onClick={onOpenTranslationReports}
+                    className={`w-full py-3 rounded-md text-xs font-bold uppercase tracking-widest transition-all ${isDark ? 'bg-white/10 text-white hover:bg-white/20' : 'bg-black/5 text-black hover:bg-black/10'}`}
+                  >
+                    Translation Reports
+                  </button>
+                </div>
+
                 {/* Scrape All Books Button */}
                 <div className="mb-6">
                   <button
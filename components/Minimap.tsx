@@ -1,5 +1,5 @@
-
-import React from 'react';
+import React, { useState, useEffect } from 'react';
+import { OutlineNode } from '../types';
 
 interface MinimapItem {
   title: string;
@@ -9,40 +9,107 @@ interface MinimapItem {
 interface MinimapProps {
   currentChunkIndex: number;
   items: MinimapItem[];
+  outline?: OutlineNode[] | null; // Structural outline; the numbered items are the fallback
   onItemClick: (index: number) => void;
   theme: string;
   isVisible: boolean;
 }
 
-const Minimap: React.FC<MinimapProps> = ({ currentChunkIndex, items, onItemClick, theme, isVisible }) => {
+const Minimap: React.FC<MinimapProps> = ({ currentChunkIndex, items, outline, onItemClick, theme, isVisible }) => {
+  // Branches the reader opened or closed by hand; the rest follow the reading position
+  const [toggled, setToggled] = useState<Map<string, boolean>>(new Map());
+  useEffect(() => setToggled(new Map()), [outline]);
+
   // Find which item is currently active (the last item whose index is <= currentChunkIndex)
   const activeItemIndex = items.reduce((acc, item, idx) => {
      if (item.index <= currentChunkIndex) return idx;
      return acc;
   }, 0);
 
+  // Outline sections are numbered like DOM indices (the Title Page is 0)
+  const contains = (node: OutlineNode) => currentChunkIndex >= node.start && currentChunkIndex <= node.end;
+
+  const toggle = (path: string, isOpen: boolean) => {
+    setToggled(prev => new Map(prev).set(path, !isOpen));
+  };
+
+  const textClass = theme === 'dark' ? 'text-gray-200' : 'text-gray-800';
+
+  const renderDot = (isActive: boolean) => (
+    <div
+      className={`
+        transition-all duration-300 rounded-full border border-current flex-shrink-0
+        ${isActive
+          ? 'w-2 h-2 bg-current opacity-100'
+          : 'w-1.5 h-1.5 bg-transparent opacity-40 group-hover:opacity-80'}
+      `}
+    />
+  );
+
+  const renderNode = (node: OutlineNode, path: string, depth: number): React.ReactNode => {
+    const isOnPath = contains(node);
+    const hasChildren = !!node.children && node.children.length > 0;
+    // The deepest node containing the reading position gets the filled dot
+    const isCurrent = isOnPath && !(node.children || []).some(contains);
+    const isOpen = hasChildren && (toggled.get(path) ?? isOnPath);
+
+    return (
+      <div key={path} className="flex flex-col gap-3">
+        <div className="flex items-center gap-3 group cursor-pointer" style={{ paddingLeft: `${depth * 14}px` }}>
+          <div className="flex items-center gap-3" onClick={() => onItemClick(node.start)}>
+            {renderDot(isCurrent)}
+            <span
+              className={`
+                text-[10px] uppercase tracking-widest transition-opacity duration-300 font-hebrew-serif whitespace-nowrap
+                ${isOnPath ? 'opacity-100 font-bold' : 'opacity-40 group-hover:opacity-100'}
+                ${textClass}
+              `}
+              title={`Sections ${node.start}–${node.end}`}
+            >
+              {node.title}
+            </span>
+          </div>
+          {hasChildren && (
+            <button
+              onClick={() => toggle(path, isOpen)}
+              className={`text-[10px] opacity-30 hover:opacity-100 transition-opacity ${textClass}`}
+              title={isOpen ? 'Collapse' : 'Expand'}
+            >
+              {isOpen ? '▾' : '▸'}
+            </button>
+          )}
+        </div>
+        {isOpen && node.children!.map((child, i) => renderNode(child, `${path}.${i}`, depth + 1))}
+      </div>
+    );
+  };
+
   return (
-    <div 
+    <div
       className={`
         fixed left-8 top-1/2 transform -translate-y-1/2 z-30 flex flex-col gap-3 transition-all duration-500
+        max-h-[80vh] overflow-y-auto no-scrollbar
         ${isVisible ? 'translate-x-0 opacity-100' : '-translate-x-20 opacity-0 pointer-events-none'}
       `}
     >
-      {items.map((item, idx) => (
+      {outline && outline.length > 0 ? (
+        <>
+          <div className="flex items-center gap-3 group cursor-pointer" onClick={() => onItemClick(0)}>
+            {renderDot(currentChunkIndex === 0)}
+            <span className={`text-[10px] uppercase tracking-widest whitespace-nowrap ${currentChunkIndex === 0 ? 'opacity-100 font-bold' : 'opacity-40 group-hover:opacity-100'} ${textClass}`}>
+              Title Page
+            </span>
+          </div>
+          {outline.map((node, i) => renderNode(node, `${i}`, 0))}
+        </>
+      ) : items.map((item, idx) => (
         <div key={idx} className="flex items-center gap-3 group cursor-pointer" onClick={() => onItemClick(item.index)}>
-          <div
-            className={`
-              transition-all duration-300 rounded-full border border-current flex-shrink-0
-              ${idx === activeItemIndex 
-                ? 'w-2 h-2 bg-current opacity-100' 
-                : 'w-1.5 h-1.5 bg-transparent opacity-40 group-hover:opacity-80'}
-            `}
-          />
-          <span 
+          {renderDot(idx === activeItemIndex)}
+          <span
             className={`
               text-[10px] uppercase tracking-widest transition-opacity duration-300 font-hebrew-serif whitespace-nowrap
               ${idx === activeItemIndex ? 'opacity-100 font-bold' : 'opacity-40 group-hover:opacity-100'}
-              ${theme === 'dark' ? 'text-gray-200' : 'text-gray-800'}
+              ${textClass}
             `}
           >
             {item.title}
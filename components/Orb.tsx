@@ -1,17 +1,46 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { AIState, Theme } from '../types';
+import { AIState, Theme, ChatResponse, AnswerConfidence, CitationReport, CitationStatus, ChatContextMode, LibrarySource, ChatThread, ContextReport } from '../types';
+import ThreadList from './ThreadList';
+import { sanitizeHtml } from '../src/utils/html';
 
 interface OrbProps {
-  onAskAI: (query: string, contextMode: 'selection' | 'full') => void;
+  onAskAI: (query: string, contextMode: ChatContextMode) => void;
+  onStop: () => void;
   aiState: AIState;
   onCloseResult: () => void;
   theme: Theme;
   initialQuery?: string;
   selectedText?: string;
   onNavigateToChunk?: (chunkId: number) => void;
+  onOpenSource?: (source: LibrarySource) => void; // Opens a library-wide citation in the Reader
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  currentBookId: string | null;
+  onNewThread: () => void;
+  onResumeThread: (thread: ChatThread) => void;
+  onRenameThread: (threadId: string, title: string) => void;
+  onDeleteThread: (threadId: string) => void;
 }
 
+const CONFIDENCE_STYLES: Record<AnswerConfidence, string> = {
+  high: 'text-green-600 border-green-500/30',
+  medium: 'text-amber-600 border-amber-500/30',
+  low: 'text-red-500 border-red-500/30',
+};
+
+const CITATION_STYLES: Record<CitationStatus, { marker: string; label: string; icon: string }> = {
+  verified: { marker: 'text-gray-400 hover:text-blue-500 hover:underline decoration-blue-500/30', label: 'text-green-600', icon: '✓' },
+  weak: { marker: 'text-amber-500 underline decoration-dotted decoration-amber-500/60', label: 'text-amber-600', icon: '~' },
+  invalid: { marker: 'text-red-500 line-through decoration-red-500/60', label: 'text-red-500', icon: '✕' },
+};
+
+const CONTEXT_LABELS: Record<ChatContextMode, { short: string; long: string }> = {
+  selection: { short: 'Selection', long: 'Selected Text' },
+  full: { short: 'Page', long: 'Full Page' },
+  library: { short: 'Library', long: 'Whole Library' },
+};
+
 const SUGGESTIONS = [
   "Summarize the main idea",
   "Explain the Kabbalistic concepts",
@@ -19,11 +48,13 @@ const SUGGESTIONS = [
   "Translate difficult words"
 ];
 
-const Orb: React.FC<OrbProps> = ({ onAskAI, aiState, onCloseResult, theme, initialQuery, selectedText, onNavigateToChunk }) => {
+const Orb: React.FC<OrbProps> = ({ onAskAI, onStop, aiState, onCloseResult, theme, initialQuery, selectedText, onNavigateToChunk, onOpenSource,
+  threads, activeThreadId, currentBookId, onNewThread, onResumeThread, onRenameThread, onDeleteThread }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [query, setQuery] = useState("");
-  const [contextMode, setContextMode] = useState<'selection' | 'full'>('selection');
+  const [contextMode, setContextMode] = useState<ChatContextMode>('selection');
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+  const [showThreads, setShowThreads] = useState(false);
   
   const scrollRef = useRef<HTMLDivElement>(null);
   const panelRef = useRef<HTMLDivElement>(null);
@@ -44,12 +75,15 @@ const Orb: React.FC<OrbProps> = ({ onAskAI, aiState, onCloseResult, theme, initi
     }
   }, [aiState.messages.length, aiState.isLoading, selectedText]);
 
-  // Gentle scroll to bottom on new message
+  // Gentle scroll to bottom on new message, and as an answer streams in
+  // (at most once per 100ms, however fast the tokens arrive)
+  const scrollTimerRef = useRef<number | null>(null);
   useEffect(() => {
-    if (scrollRef.current && aiState.messages.length > 0) {
+    if (scrollRef.current && aiState.messages.length > 0 && scrollTimerRef.current === null) {
        // Using scrollTo with top: scrollHeight ensures we see the end of the conversation
        // but doesn't forcefully snap the start of the last message to the top of the viewport
-       setTimeout(() => {
+       scrollTimerRef.current = window.setTimeout(() => {
+         scrollTimerRef.current = null;
          if (scrollRef.current) {
             scrollRef.current.scrollTo({
               top: scrollRef.current.scrollHeight,
@@ -58,7 +92,11 @@ const Orb: React.FC<OrbProps> = ({ onAskAI, aiState, onCloseResult, theme, initi
          }
        }, 100);
     }
-  }, [aiState.messages, aiState.isLoading]);
+  }, [aiState.messages, aiState.isLoading, aiState.streamingText]);
+
+  useEffect(() => () => {
+    if (scrollTimerRef.current !== null) window.clearTimeout(scrollTimerRef.current);
+  }, []);
 
   // Close dropdown on click outside
   useEffect(() => {
@@ -86,18 +124,31 @@ const Orb: React.FC<OrbProps> = ({ onAskAI, aiState, onCloseResult, theme, initi
     setQuery("");
   };
 
-  // Helper to render text with citation buttons
-  const renderMessageContent = (content: string) => {
-    const parts = content.split(/(\[Section \d+\])/g);
+  // Helper to render text with citation buttons (plain markers while still streaming).
+  // With a verification report, markers are styled by status and missing sections are not links.
+  // Library-wide answers (with sources) open the cited book and chapter instead of scrolling.
+  const renderMessageContent = (content: string, isStreaming = false, report?: CitationReport, sources?: LibrarySource[]) => {
+    const parts = sanitizeHtml(content).split(/(\[Section \d+\])/g);
     return parts.map((part, i) => {
       const match = part.match(/\[Section (\d+)\]/);
-      if (match && onNavigateToChunk) {
+      if (match && isStreaming) {
+        return <span key={i} className="mx-1 text-gray-400 text-[10px] font-bold">[{match[1]}]</span>;
+      }
+      if (match && (onNavigateToChunk || sources)) {
+        const section = parseInt(match[1]);
+        const source = sources?.find(src => src.section === section);
+        const status = report?.sections[section] || 'verified';
+        const note = report?.checks.find(c => c.section === section && c.note)?.note;
+        if (report?.missing.includes(section)) {
+          return <span key={i} className={`mx-1 text-[10px] font-bold cursor-help ${CITATION_STYLES.invalid.marker}`} title={note}>[{match[1]}]</span>;
+        }
+        const target = source ? `${source.bookTitle}, ${source.chapterTitle} (${source.sequence})` : `Section ${section}`;
         return (
           <button 
             key={i}
-            onClick={() => onNavigateToChunk(parseInt(match[1]))}
-            className="inline-flex items-center mx-1 text-gray-400 hover:text-blue-500 hover:underline decoration-blue-500/30 text-[10px] font-bold transition-all"
-            title={`Jump to Section ${match[1]}`}
+            onClick={() => source ? onOpenSource?.(source) : onNavigateToChunk?.(section)}
+            className={`inline-flex items-center mx-1 text-[10px] font-bold transition-all ${CITATION_STYLES[status].marker}`}
+            title={note ? `${note} — Open ${target}` : `Open ${target}`}
           >
             [{match[1]}]
           </button>
@@ -107,6 +158,74 @@ const Orb: React.FC<OrbProps> = ({ onAskAI, aiState, onCloseResult, theme, initi
     });
   };
 
+  // What budgeting left out of the prompt, for the condensed-context badge
+  const describeContextReport = (report: ContextReport) => {
+    const parts: string[] = [];
+    if (report.summarizedTurns > 0) parts.push(`${report.summarizedTurns} earlier messages summarized`);
+    if (report.droppedSections.length > 0) {
+      parts.push(`${report.droppedSections.length} of ${report.keptSections + report.droppedSections.length} sections left out`);
+    }
+    if (report.contextTruncated) parts.push('long selection shortened');
+    return `${parts.join(' · ')} (about ${report.estimatedTokens.toLocaleString()} tokens sent)`;
+  };
+
+  // One-line count of verified / weak / invalid citations
+  const renderVerificationSummary = (report: CitationReport) => {
+    const counts = (['verified', 'weak', 'invalid'] as CitationStatus[])
+      .map(status => ({ status, count: report.checks.filter(c => c.status === status).length }))
+      .filter(c => c.count > 0);
+    return (
+      <div className="flex items-center gap-3 text-[10px] uppercase tracking-widest" title="Citations checked against the sections of this text">
+        <span className="opacity-40">Citations</span>
+        {counts.map(({ status, count }) => (
+          <span key={status} className={CITATION_STYLES[status].label}>
+            {CITATION_STYLES[status].icon} {count} {status}
+          </span>
+        ))}
+      </div>
+    );
+  };
+
+  // Renders a structured answer: paragraphs, then the quoted sources and their verification
+  const renderStructuredAnswer = (response: ChatResponse, report?: CitationReport, sources?: LibrarySource[]) => (
+    <div className="flex flex-col gap-3">
+      {response.answer.map((paragraph, i) => (
+        <p key={i} className="leading-loose">{renderMessageContent(paragraph, false, report, sources)}</p>
+      ))}
+      {response.citations.length > 0 && (
+        <div className={`flex flex-col gap-2 pt-3 border-t ${borderColor}`}>
+          <div className="text-[10px] uppercase tracking-widest opacity-40">Sources</div>
+          {response.citations.map((c, i) => {
+            const check = report?.checks[i];
+            const source = sources?.find(src => src.section === c.section);
+            return (
+              <button
+                key={i}
+                onClick={() => source ? onOpenSource?.(source) : onNavigateToChunk?.(c.section)}
+                className="flex items-baseline gap-2 text-left text-xs opacity-60 hover:opacity-100 transition-opacity"
+                title={check?.note || (source ? `Open ${source.bookTitle}, ${source.chapterTitle}` : `Jump to Section ${c.section}`)}
+              >
+                {check && <span className={`text-[10px] font-bold shrink-0 ${CITATION_STYLES[check.status].label}`}>{CITATION_STYLES[check.status].icon}</span>}
+                <span className="text-[10px] font-bold text-gray-400 shrink-0">[{c.section}]</span>
+                <span className="flex flex-col gap-0.5 min-w-0">
+                  {source && (
+                    <span className="text-[10px] uppercase tracking-widest opacity-70">
+                      {source.bookTitle} · <span className="font-hebrew-serif normal-case tracking-normal">{source.chapterTitle}</span> · {source.sequence}
+                    </span>
+                  )}
+                  {c.quote && (
+                    <span dir="rtl" className={`font-hebrew-serif line-clamp-2 ${check?.status === 'invalid' ? 'line-through decoration-red-500/50' : ''}`}>{c.quote}</span>
+                  )}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+      {report && report.checks.length > 0 && renderVerificationSummary(report)}
+    </div>
+  );
+
   // Helper to strip HTML from suggestions for display in buttons
   const stripHtml = (html: string) => {
     const tmp = document.createElement("DIV");
@@ -142,15 +261,53 @@ const Orb: React.FC<OrbProps> = ({ onAskAI, aiState, onCloseResult, theme, initi
               <div className={`w-2 h-2 rounded-full ${aiState.isLoading ? 'bg-blue-500 animate-pulse' : 'bg-green-500'}`}></div>
               <span className="uppercase tracking-[0.2em] text-xs font-bold opacity-50">Scholar AI</span>
            </div>
-           <button onClick={handleClose} className="opacity-30 hover:opacity-100 transition-opacity p-2">
-             <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
-               <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-             </svg>
-           </button>
+           <div className="flex items-center gap-1">
+             {/* New Conversation */}
+             <button
+               onClick={() => { onNewThread(); setShowThreads(false); }}
+               disabled={aiState.isLoading}
+               className="opacity-30 hover:opacity-100 disabled:opacity-10 transition-opacity p-2"
+               title="New Conversation"
+             >
+               <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                 <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
+               </svg>
+             </button>
+             {/* Saved Conversations */}
+             <button
+               onClick={() => setShowThreads(!showThreads)}
+               className={`transition-opacity p-2 ${showThreads ? 'opacity-100' : 'opacity-30 hover:opacity-100'}`}
+               title="Saved Conversations"
+             >
+               <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                 <path strokeLinecap="round" strokeLinejoin="round" d="M8.625 12a.375.375 0 11-.75 0 .375.375 0 01.75 0zm0 0H8.25m4.125 0a.375.375 0 11-.75 0 .375.375 0 01.75 0zm0 0H12m4.125 0a.375.375 0 11-.75 0 .375.375 0 01.75 0zm0 0h-.375M21 12c0 4.556-4.03 8.25-9 8.25a9.764 9.764 0 01-2.555-.337A5.972 5.972 0 015.41 20.97a5.969 5.969 0 01-.474-.065 4.48 4.48 0 00.978-2.025c.09-.457-.133-.901-.467-1.226C3.93 16.178 3 14.189 3 12c0-4.556 4.03-8.25 9-8.25s9 3.694 9 8.25z" />
+               </svg>
+             </button>
+             <button onClick={handleClose} className="opacity-30 hover:opacity-100 transition-opacity p-2">
+               <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                 <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+               </svg>
+             </button>
+           </div>
         </div>
 
+        {/* Saved Conversations */}
+        {showThreads && (
+          <div className="flex-1 overflow-y-auto px-6 py-6 custom-scrollbar">
+            <ThreadList
+              threads={threads}
+              activeThreadId={activeThreadId}
+              currentBookId={currentBookId}
+              onResume={(thread) => { onResumeThread(thread); setShowThreads(false); }}
+              onRename={onRenameThread}
+              onDelete={onDeleteThread}
+              isDark={isDark}
+            />
+          </div>
+        )}
+
         {/* Content Area - Chat History */}
-        <div ref={scrollRef} className="flex-1 overflow-y-auto px-6 py-6 custom-scrollbar flex flex-col gap-6 snap-y snap-mandatory">
+        <div ref={scrollRef} className={`flex-1 overflow-y-auto px-6 py-6 custom-scrollbar flex flex-col gap-6 snap-y snap-mandatory ${showThreads ? 'hidden' : ''}`}>
            {aiState.messages.length === 0 && !aiState.isLoading ? (
                <div className="flex flex-col gap-8 mt-4">
                   
@@ -188,8 +345,26 @@ const Orb: React.FC<OrbProps> = ({ onAskAI, aiState, onCloseResult, theme, initi
                {aiState.messages.map((msg, idx) => (
                  <div key={idx} className={`snap-start relative group flex flex-col ${msg.role === 'user' ? 'items-center' : 'items-start'} animate-in fade-in slide-in-from-bottom-2 duration-300 w-full`}>
                     {msg.role !== 'user' && (
-                       <div className={`text-[10px] uppercase tracking-widest opacity-40 mb-2`}>
-                         Scholar
+                       <div className="flex items-center gap-2 mb-2">
+                         <div className={`text-[10px] uppercase tracking-widest opacity-40`}>
+                           Scholar
+                         </div>
+                         {msg.response && (
+                           <span
+                             className={`text-[9px] uppercase tracking-widest px-1.5 py-0.5 rounded border opacity-70 ${CONFIDENCE_STYLES[msg.response.confidence]}`}
+                             title="How well the text supports this answer"
+                           >
+                             {msg.response.confidence}
+                           </span>
+                         )}
+                         {msg.contextReport && (
+                           <span
+                             className="text-[9px] uppercase tracking-widest opacity-40 cursor-help"
+                             title={describeContextReport(msg.contextReport)}
+                           >
+                             Context condensed
+                           </span>
+                         )}
                        </div>
                     )}
                     <div className={`
@@ -199,7 +374,9 @@ const Orb: React.FC<OrbProps> = ({ onAskAI, aiState, onCloseResult, theme, initi
                         ? (isDark ? 'bg-white/5' : 'bg-gray-50') + ' p-4 rounded-xl text-center italic w-full border ' + (isDark ? 'border-white/10' : 'border-black/5')
                         : ''}
                     `}>
-                        <div>{renderMessageContent(msg.content)}</div>
+                        {msg.response
+                          ? renderStructuredAnswer(msg.response, msg.verification, msg.sources)
+                          : <div>{renderMessageContent(msg.content)}</div>}
                     </div>
                     
                     {/* Feedback Icon */}
@@ -215,8 +392,18 @@ const Orb: React.FC<OrbProps> = ({ onAskAI, aiState, onCloseResult, theme, initi
              </>
            )}
            
+           {/* Streaming Answer */}
+           {aiState.isLoading && aiState.streamingText && (
+              <div className="snap-start flex flex-col items-start w-full">
+                 <div className="text-[10px] uppercase tracking-widest opacity-40 mb-2">Scholar</div>
+                 <div className="prose prose-sm dark:prose-invert font-sans max-w-full prose-p:mb-2 prose-p:leading-loose">
+                    <div>{renderMessageContent(aiState.streamingText, true)}<span className="inline-block w-1.5 h-3 ml-1 bg-current opacity-40 animate-pulse"></span></div>
+                 </div>
+              </div>
+           )}
+
            {/* Loading Indicator */}
-           {aiState.isLoading && (
+           {aiState.isLoading && !aiState.streamingText && (
               <div className="snap-start flex flex-col gap-4 opacity-50">
                  <div className="text-[10px] uppercase tracking-widest opacity-40 mb-2">Scholar</div>
                  <div className="h-3 bg-current w-3/4 rounded-full animate-pulse"></div>
@@ -228,7 +415,7 @@ const Orb: React.FC<OrbProps> = ({ onAskAI, aiState, onCloseResult, theme, initi
         </div>
 
         {/* Suggested Questions - Stacked */}
-        {aiState.followUps && aiState.followUps.length > 0 && !aiState.isLoading && (
+        {aiState.followUps && aiState.followUps.length > 0 && !aiState.isLoading && !showThreads && (
             <div className={`px-6 pt-4 border-t ${borderColor}`}>
               <div className="flex flex-col gap-2">
                 {aiState.followUps.map((q, i) => (
@@ -267,7 +454,7 @@ const Orb: React.FC<OrbProps> = ({ onAskAI, aiState, onCloseResult, theme, initi
                      `}
                      title="Change Context"
                   >
-                     {contextMode === 'selection' ? 'Selection' : 'Page'}
+                     {CONTEXT_LABELS[contextMode].short}
                      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3">
                        <path fillRule="evenodd" d="M10 3a1 1 0 01.707.293l3 3a1 1 0 01-1.414 1.414L10 5.414 7.707 7.707a1 1 0 01-1.414-1.414l3-3A1 1 0 0110 3zm-3.707 9.293a1 1 0 011.414 0L10 14.586l2.293-2.293a1 1 0 011.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
                      </svg>
@@ -278,20 +465,16 @@ const Orb: React.FC<OrbProps> = ({ onAskAI, aiState, onCloseResult, theme, initi
                         absolute bottom-full left-0 mb-2 w-48 rounded-xl shadow-xl border z-50 overflow-hidden
                         ${isDark ? 'bg-[#222] border-gray-700' : 'bg-white border-gray-100'}
                      `}>
-                        <button 
-                          type="button"
-                          onClick={() => { setContextMode('selection'); setIsDropdownOpen(false); }}
-                          className={`w-full text-left px-4 py-3 text-[10px] uppercase tracking-widest hover:bg-black/5 dark:hover:bg-white/5 ${contextMode === 'selection' ? 'font-bold opacity-100 bg-black/5 dark:bg-white/5' : 'opacity-60'}`}
-                        >
-                          Selected Text
-                        </button>
-                        <button 
-                          type="button"
-                          onClick={() => { setContextMode('full'); setIsDropdownOpen(false); }}
-                          className={`w-full text-left px-4 py-3 text-[10px] uppercase tracking-widest hover:bg-black/5 dark:hover:bg-white/5 ${contextMode === 'full' ? 'font-bold opacity-100 bg-black/5 dark:bg-white/5' : 'opacity-60'}`}
-                        >
-                          Full Page
-                        </button>
+                        {(Object.keys(CONTEXT_LABELS) as ChatContextMode[]).map(mode => (
+                          <button 
+                            key={mode}
+                            type="button"
+                            onClick={() => { setContextMode(mode); setIsDropdownOpen(false); }}
+                            className={`w-full text-left px-4 py-3 text-[10px] uppercase tracking-widest hover:bg-black/5 dark:hover:bg-white/5 ${contextMode === mode ? 'font-bold opacity-100 bg-black/5 dark:bg-white/5' : 'opacity-60'}`}
+                          >
+                            {CONTEXT_LABELS[mode].long}
+                          </button>
+                        ))}
                      </div>
                   )}
                 </div>
@@ -306,15 +489,28 @@ const Orb: React.FC<OrbProps> = ({ onAskAI, aiState, onCloseResult, theme, initi
                  className={`flex-1 bg-transparent outline-none text-sm transition-all placeholder:opacity-30`}
                />
                
-               <button 
-                 type="submit"
-                 disabled={!query.trim() || aiState.isLoading}
-                 className="p-1 opacity-40 hover:opacity-100 disabled:opacity-10 transition-all"
-               >
-                 <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
-                   <path d="M3.105 2.289a.75.75 0 00-.826.95l1.414 4.925A1.5 1.5 0 004.82 9.25h8.179a.5.5 0 010 1H4.82a1.5 1.5 0 00-1.127 1.086l-1.414 4.926a.75.75 0 00.826.95 28.896 28.896 0 0015.293-7.154.75.75 0 000-1.115A28.897 28.897 0 003.105 2.289z" />
-                 </svg>
-               </button>
+               {aiState.isLoading ? (
+                 <button 
+                   type="button"
+                   onClick={onStop}
+                   className="p-1 opacity-40 hover:opacity-100 transition-all"
+                   title="Stop"
+                 >
+                   <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                     <rect x="5" y="5" width="10" height="10" rx="1.5" />
+                   </svg>
+                 </button>
+               ) : (
+                 <button 
+                   type="submit"
+                   disabled={!query.trim()}
+                   className="p-1 opacity-40 hover:opacity-100 disabled:opacity-10 transition-all"
+                 >
+                   <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-4 h-4">
+                     <path d="M3.105 2.289a.75.75 0 00-.826.95l1.414 4.925A1.5 1.5 0 004.82 9.25h8.179a.5.5 0 010 1H4.82a1.5 1.5 0 00-1.127 1.086l-1.414 4.926a.75.75 0 00.826.95 28.896 28.896 0 0015.293-7.154.75.75 0 000-1.115A28.897 28.897 0 003.105 2.289z" />
+                   </svg>
+                 </button>
+               )}
              </div>
            </form>
         </div>
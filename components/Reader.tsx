@@ -1,23 +1,45 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Settings, TextSelection, TextChunk } from '../types';
-import { THEME_CLASSES } from '../constants';
+import { Settings, TextSelection, TextChunk, TranslationStyle, TargetLanguage, GlossaryEntry, WordAlignment, OutlineNode, QuoteMatch, PromptId, SegmentRevision, TranslationProvenance } from '../types';
+import { THEME_CLASSES, TARGET_LANGUAGES, TRANSLATION_STYLES, SELECTION_HIGHLIGHT_COLOR } from '../constants';
 import Minimap from './Minimap';
-import { translateParagraph } from '../services/geminiService';
+import { translateParagraph, alignTranslations, generateOutline, detectQuotes } from '../services/geminiService';
+import { promptVersion, renderPrompt } from '../services/promptRegistry';
+import { configFromSettings, isConfigured } from '../services/aiProvider';
+import { isQuotaExhausted } from '../services/providers/proxyProvider';
+import { buildCacheEntry, getCachedTranslations, putCachedTranslations, getCachedAlignments, putCachedAlignments, sharesCache } from '../src/services/translationCache';
+import { ReportDraft, submitReport } from '../src/services/reportService';
+import ReportIssueForm from '../src/components/ReportIssueForm';
+import { getPublishedRevisions, revisionProvenance, saveRevisions, segmentKey } from '../src/services/revisionService';
+import RevisionHistory from '../src/components/RevisionHistory';
+import { mergeGlossary, findGlossaryViolations } from '../services/glossaryService';
+import { findAbbreviations } from '../services/abbreviationService';
+import { DictionaryTerm, lookupTerm } from '../services/dictionaryService';
+import TermDefinition from '../src/components/TermDefinition';
+import { translationText } from '../services/alignmentService';
+import { sanitizeHtml } from '../src/utils/html';
+import { buildOutlineKey, getCachedOutline, putCachedOutline } from '../src/services/outlineCache';
+import { findQuotes, formatReference, sourceLink } from '../services/quoteService';
 
 interface ReaderProps {
   text: string;
   title: string;
+  bookId?: string | null; // Usage is booked to this book
   settings: Settings;
   onTextSelect: (text: string) => void;
-  onAskAI: (text: string) => void; 
+  onAskAI: (text: string, promptVersion?: string) => void; 
   onError: (msg: string) => void;
   onOpenProfile: () => void;
   onOpenLibrary: () => void;
   isMenuOpen: boolean;
   onCloseMenu: () => void;
   scrollToChunkId?: number | null;
+  scrollToText?: string | null; // Scroll to the paragraph that starts with this text (library citations)
   onContextUpdate: (markedContext: string) => void;
+  onReviewChapter?: () => void;
+  isPreparingReview?: boolean;
+  userId?: string | null;
+  reviewerName?: string | null; // Recorded when reviewing revisions
 }
 
 interface MinimapItem {
@@ -28,6 +50,7 @@ interface MinimapItem {
 const Reader: React.FC<ReaderProps> = ({ 
   text, 
   title, 
+  bookId = null,
   settings, 
   onTextSelect, 
   onAskAI, 
@@ -37,13 +60,23 @@ const Reader: React.FC<ReaderProps> = ({
   isMenuOpen,
   onCloseMenu,
   scrollToChunkId,
-  onContextUpdate
+  scrollToText,
+  onContextUpdate,
+  onReviewChapter,
+  isPreparingReview = false,
+  userId = null,
+  reviewerName = null
 }) => {
   const [selection, setSelection] = useState<TextSelection | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [currentSection, setCurrentSection] = useState(0);
   const [chunks, setChunks] = useState<TextChunk[]>([]);
   const [minimapItems, setMinimapItems] = useState<MinimapItem[]>([]);
+  const [sections, setSections] = useState<string[]>([]); // Chunk texts, changing only with the text
+  const [outline, setOutline] = useState<OutlineNode[] | null>(null);
+  const [reportingIndex, setReportingIndex] = useState<number | null>(null); // Section whose translation is being reported
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null); // Section whose revision history is open
+  const [definedTerm, setDefinedTerm] = useState<DictionaryTerm | null>(null); // Dictionary entry for the selection
 
   // Initialize Chunks
   useEffect(() => {
@@ -78,7 +111,8 @@ const Reader: React.FC<ReaderProps> = ({
              hebrew: currentText,
              translation: null,
              isLoading: false,
-             context: p 
+             context: p,
+             quotes: findQuotes(currentText)
            });
            
            currentText = sentence;
@@ -99,13 +133,17 @@ const Reader: React.FC<ReaderProps> = ({
           hebrew: currentText,
           translation: null,
           isLoading: false,
-          context: p
+          context: p,
+          quotes: findQuotes(currentText)
         });
       }
     });
 
     setChunks(newChunks);
+    setReportingIndex(null);
+    setHistoryIndex(null);
     setMinimapItems(items);
+    setSections(newChunks.map(c => c.hebrew));
     
     // Construct context with markers for AI
     const markedContext = newChunks.map(c => `[Section ${c.id + 1}]: ${c.hebrew}`).join('\n\n');
@@ -113,6 +151,40 @@ const Reader: React.FC<ReaderProps> = ({
 
   }, [text, onContextUpdate]);
 
+  // Config for this chapter's requests, booked to its book in the usage ledger
+  const readerConfig = () => ({ ...configFromSettings(settings), book: bookId ? { id: bookId, title } : undefined });
+
+  // Structural outline for the Minimap: cached per chapter text, generated once when missing
+  const outlineConfig = readerConfig();
+  const outlineVersion = promptVersion('outline', outlineConfig.promptOverrides);
+  useEffect(() => {
+    setOutline(null);
+    if (sections.length === 0 || !isConfigured(outlineConfig)) return;
+
+    let cancelled = false;
+    const language = settings.targetLanguage;
+    const loadOutline = async () => {
+      const key = await buildOutlineKey(sections, { language, model: outlineConfig.model, promptVersion: outlineVersion });
+      // Shared like the translation cache: hosted vendors only, written by admins
+      const shared = sharesCache(outlineConfig);
+      let result = await getCachedOutline(key.hash, shared ? userId : null);
+      if (!result) {
+        result = await generateOutline(sections, outlineConfig, language);
+        if (result.length > 0) putCachedOutline({ ...key, outline: result }, shared && settings.isAdmin ? userId : null);
+      }
+      if (!cancelled && result.length > 0) setOutline(result);
+    };
+    loadOutline().catch(e => console.error('Error loading outline:', e));
+    return () => { cancelled = true; };
+  }, [sections, settings.targetLanguage, outlineConfig.provider, outlineConfig.model, outlineConfig.apiKey, outlineVersion, userId]);
+
+  // Translations belong to one language: switching drops them so sections are translated afresh
+  const languageRef = useRef(settings.targetLanguage);
+  languageRef.current = settings.targetLanguage;
+  useEffect(() => {
+    setChunks(prev => prev.map(c => ({ ...c, translation: null, translations: undefined, provenances: undefined, loadingStyles: [], pendingStyle: undefined, isLoading: false, fromCache: false, glossaryIssues: undefined, alignment: undefined })));
+  }, [settings.targetLanguage]);
+
   // Handle external scroll requests (e.g. from Citations)
   useEffect(() => {
     if (scrollToChunkId !== undefined && scrollToChunkId !== null && containerRef.current) {
@@ -129,7 +201,47 @@ const Reader: React.FC<ReaderProps> = ({
     }
   }, [scrollToChunkId]);
 
-  const handleGenerateTranslation = async (chunkIndex: number) => {
+  // Scroll to a paragraph by its text once the chunks containing it are built
+  const handledScrollText = useRef<string | null>(null);
+  useEffect(() => {
+    if (!scrollToText) {
+      handledScrollText.current = null;
+      return;
+    }
+    if (handledScrollText.current === scrollToText || !containerRef.current) return;
+    const start = scrollToText.trim().slice(0, 40);
+    const chunkIndex = chunks.findIndex(c => c.context?.includes(start));
+    if (chunkIndex === -1) return;
+
+    handledScrollText.current = scrollToText;
+    const element = containerRef.current.children[chunkIndex + 1]; // Title Page is index 0
+    if (element) {
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      element.classList.add('bg-yellow-500/10');
+      setTimeout(() => element.classList.remove('bg-yellow-500/10'), 2000);
+    }
+  }, [scrollToText, chunks]);
+
+  const activeStyle = (chunk: TextChunk): TranslationStyle => chunk.style || settings.translationStyle;
+
+  // Makes `style` the section's active style; picking the compared style swaps the two columns
+  const switchedStyle = (chunk: TextChunk, style: TranslationStyle) => ({
+    style,
+    pendingStyle: undefined,
+    compareStyle: chunk.compareStyle === style ? activeStyle(chunk) : chunk.compareStyle
+  });
+
+  // Glossary renderings are English, so only English output can be checked against them.
+  // Free tier renderings (model unknown: possibly recorded fixtures) are not checked either.
+  const glossaryIssuesFor = (hebrew: string, translation: string, provenance: TranslationProvenance | undefined, language: TargetLanguage, glossary: GlossaryEntry[]) =>
+    language === 'en' && provenance && (provenance.source !== 'model' || provenance.model)
+      ? findGlossaryViolations(hebrew, translation, glossary)
+      : undefined;
+
+  // force: skip the cache and ask the model again (Retranslate).
+  // The whole paragraph is translated in one call for flow; each section keeps
+  // every style it has received, and shows the one it has selected.
+  const handleGenerateTranslation = async (chunkIndex: number, force = false, style: TranslationStyle = activeStyle(chunks[chunkIndex])) => {
     const targetChunk = chunks[chunkIndex];
     if (!targetChunk.context) return;
 
@@ -139,25 +251,278 @@ const Reader: React.FC<ReaderProps> = ({
     
     if (paragraphIndices.length === 0) return;
 
-    setChunks(prev => prev.map((c, i) => paragraphIndices.includes(i) ? { ...c, isLoading: true } : c));
+    setChunks(prev => prev.map((c, i) => paragraphIndices.includes(i)
+      ? { ...c, isLoading: c.isLoading || activeStyle(c) === style, loadingStyles: [...(c.loadingStyles || []), style] }
+      : c));
+
+    const glossary = mergeGlossary(settings.glossary);
+    const aiConfig = readerConfig();
+    const language = settings.targetLanguage;
+    // Free tier mock translations are never cached
+    const useCache = isConfigured(aiConfig);
+
+    // Machine output as produced here (cache hits have no date); the free tier's model is not known
+    const modelProvenance = (createdAt: string | null): TranslationProvenance => ({
+      source: 'model',
+      model: useCache ? aiConfig.model : null,
+      promptVersion: useCache ? promptVersion('translate', aiConfig.promptOverrides) : null,
+      reviewStatus: 'unreviewed',
+      reviewer: null,
+      reviewedAt: null,
+      createdAt
+    });
+
+    const applyTranslation = (i: number, translation: string, fromCache: boolean, provenance: TranslationProvenance) => {
+      if (languageRef.current !== language) return; // Arrived after a language switch
+      setChunks(prev => prev.map((c, idx) => {
+        if (idx !== i) return c;
+        const updated = {
+          ...c,
+          translations: { ...c.translations, [style]: translation },
+          provenances: { ...c.provenances, [style]: provenance },
+          loadingStyles: (c.loadingStyles || []).filter(s => s !== style)
+        };
+        // A style picked while it was being translated becomes active now
+        const switching = c.pendingStyle === style;
+        return activeStyle(c) !== style && !switching ? updated : {
+          ...updated, ...(switching ? switchedStyle(c, style) : {}), translation, isLoading: false, fromCache, alignment: undefined,
+          glossaryIssues: glossaryIssuesFor(c.hebrew, translation, provenance, language, glossary)
+        };
+      }));
+    };
 
     try {
-      const segments = paragraphIndices.map(i => chunks[i].hebrew);
+      let pending = paragraphIndices;
+
+      // Published revisions first: they were chosen, not merely written last
+      if (!force) {
+        const keys = await Promise.all(pending.map(i => segmentKey(chunks[i].hebrew, language, style)));
+        const published = await getPublishedRevisions(keys).catch(error => {
+          console.error('Error reading published translations:', error);
+          return new Map<string, SegmentRevision>();
+        });
+        pending = pending.filter((i, n) => {
+          const revision = published.get(keys[n]);
+          if (revision) applyTranslation(i, revision.text, false, revisionProvenance(revision));
+          return !revision;
+        });
+        if (pending.length === 0) return;
+      }
+
+      const cacheEntries = useCache
+        ? await Promise.all(paragraphIndices.map(i => buildCacheEntry(chunks[i].hebrew, {
+            language,
+            style,
+            config: aiConfig,
+            promptVersion: promptVersion('translate', aiConfig.promptOverrides),
+            glossary
+          })))
+        : [];
+
+      // Fill cache hits instantly, only send the misses to the model
+      if (useCache && !force) {
+        const cached = await getCachedTranslations(pending.map(i => cacheEntries[paragraphIndices.indexOf(i)].hash), sharesCache(aiConfig) ? userId : null);
+        pending = pending.filter(i => {
+          const hit = cached.get(cacheEntries[paragraphIndices.indexOf(i)].hash);
+          if (hit) applyTranslation(i, hit, true, modelProvenance(null));
+          return !hit;
+        });
+      }
+      if (pending.length === 0) return;
+
+      const segments = pending.map(i => chunks[i].hebrew);
       const translations = await translateParagraph(
         segments, 
-        settings.apiKey || ""
+        aiConfig,
+        glossary,
+        language,
+        style
       );
       
-      setChunks(prev => prev.map((c, i) => {
-        const segIdx = paragraphIndices.indexOf(i);
-        if (segIdx !== -1 && translations[segIdx]) {
-            return { ...c, translation: translations[segIdx], isLoading: false };
-        }
-        return c;
-      }));
+      const translatedAt = new Date().toISOString();
+      pending.forEach((i, segIdx) => {
+        if (translations[segIdx]) applyTranslation(i, translations[segIdx], false, modelProvenance(translatedAt));
+      });
+
+      if (useCache) {
+        putCachedTranslations(pending
+          .map((i, segIdx) => ({ ...cacheEntries[paragraphIndices.indexOf(i)], translation: translations[segIdx] }))
+          .filter(e => !!e.translation), sharesCache(aiConfig) && settings.isAdmin ? userId : null, force);
+      }
+
+      // Kept as revisions for review. Only an admin's output from the default
+      // template is published, and only where nothing was published before
+      if (sharesCache(aiConfig) && userId) {
+        const version = promptVersion('translate', aiConfig.promptOverrides);
+        const publish = settings.isAdmin && version === promptVersion('translate') ? 'if-unset' : 'never';
+        saveRevisions(pending
+          .map((i, segIdx) => ({
+            hebrew: chunks[i].hebrew,
+            language,
+            style,
+            text: translations[segIdx],
+            source: 'model' as const,
+            model: aiConfig.model,
+            promptVersion: version
+          }))
+          .filter(d => !!d.text), userId, publish)
+          .catch(error => console.error('Error saving translation revisions:', error));
+      }
+    } catch (e) {
+      onError(isQuotaExhausted(e) ? "Today's free requests are used up. Add your own API key to keep translating." : "Translation Error.");
+    } finally {
+      setChunks(prev => prev.map((c, i) => paragraphIndices.includes(i)
+        ? {
+            ...c,
+            isLoading: c.isLoading && activeStyle(c) !== style,
+            loadingStyles: (c.loadingStyles || []).filter(s => s !== style),
+            // Nothing arrived: the section stays in its current style
+            pendingStyle: c.pendingStyle === style ? undefined : c.pendingStyle
+          }
+        : c));
+    }
+  };
+
+  // Shows the published revision (restored or just reviewed) in its style
+  const applyRevision = (chunkIndex: number, revision: SegmentRevision) => {
+    const glossary = mergeGlossary(settings.glossary);
+    setChunks(prev => prev.map((c, i) => {
+      if (i !== chunkIndex) return c;
+      const updated = {
+        ...c,
+        translations: { ...c.translations, [revision.style]: revision.text },
+        provenances: { ...c.provenances, [revision.style]: revisionProvenance(revision) }
+      };
+      return activeStyle(c) !== revision.style ? updated : {
+        ...updated, translation: revision.text, fromCache: false, alignment: undefined,
+        glossaryIssues: glossaryIssuesFor(c.hebrew, revision.text, updated.provenances[revision.style], revision.language, glossary)
+      };
+    }));
+  };
+
+  // Files a report against the section's rendering, referenced by the cache entry it was (or would be) stored under
+  const handleSubmitReport = async (chunkIndex: number, draft: ReportDraft) => {
+    const chunk = chunks[chunkIndex];
+    const aiConfig = readerConfig();
+    const { hash, language, style, model, prompt_version, glossary_version } = await buildCacheEntry(chunk.hebrew, {
+      language: settings.targetLanguage,
+      style: activeStyle(chunk),
+      config: aiConfig,
+      promptVersion: promptVersion('translate', aiConfig.promptOverrides),
+      glossary: mergeGlossary(settings.glossary)
+    });
+    await submitReport({
+      bookId,
+      bookTitle: title,
+      section: chunkIndex + 1,
+      hebrew: chunk.hebrew,
+      translation: chunk.translation || '',
+      entry: { hash, language, style, model, prompt_version, glossary_version }
+    }, draft, userId);
+  };
+
+  // Switches one section's style, fetching that rendering if it has not been translated yet
+  const handleSelectStyle = (chunkIndex: number, style: TranslationStyle) => {
+    const chunk = chunks[chunkIndex];
+    const translation = chunk.translations?.[style];
+    if (style === activeStyle(chunk) || !translation) {
+      // The current rendering stays on screen until the new style arrives
+      setChunks(prev => prev.map((c, i) => i === chunkIndex ? { ...c, pendingStyle: style === activeStyle(c) ? undefined : style } : c));
+      if (style !== activeStyle(chunk) && !chunk.loadingStyles?.includes(style)) handleGenerateTranslation(chunkIndex, false, style);
+      return;
+    }
+
+    const glossary = mergeGlossary(settings.glossary);
+    setChunks(prev => prev.map((c, i) => i === chunkIndex ? {
+      ...c,
+      ...switchedStyle(c, style),
+      translation,
+      fromCache: false,
+      alignment: undefined,
+      glossaryIssues: glossaryIssuesFor(c.hebrew, translation, c.provenances?.[style], settings.targetLanguage, glossary)
+    } : c));
+  };
+
+  // Word alignments for the interlinear mode, cached on the translation they belong to
+  const aligningRef = useRef<Set<number>>(new Set());
+  const handleAlign = async (indices: number[]) => {
+    const targets = indices.map(i => chunks[i]);
+    targets.forEach(c => aligningRef.current.add(c.id));
+
+    const glossary = mergeGlossary(settings.glossary);
+    const aiConfig = readerConfig();
+    const useCache = isConfigured(aiConfig);
+
+    // Dropped if the section was retranslated or switched style meanwhile
+    const applyAlignment = (chunk: TextChunk, alignment: WordAlignment[] | null) => {
+      setChunks(prev => prev.map(c => c.id === chunk.id && c.translation === chunk.translation ? { ...c, alignment } : c));
+    };
+
+    try {
+      let pending = targets;
+      const cacheEntries = useCache
+        ? await Promise.all(targets.map(c => buildCacheEntry(c.hebrew, {
+            language: settings.targetLanguage,
+            style: activeStyle(c),
+            config: aiConfig,
+            promptVersion: promptVersion('translate', aiConfig.promptOverrides),
+            glossary
+          })))
+        : [];
+
+      if (useCache) {
+        const cached = await getCachedAlignments(targets.map((c, n) => ({ hash: cacheEntries[n].hash, translation: c.translation! })), promptVersion('align', aiConfig.promptOverrides), sharesCache(aiConfig) ? userId : null);
+        pending = targets.filter((c, n) => {
+          const hit = cached.get(cacheEntries[n].hash);
+          if (hit) applyAlignment(c, hit);
+          return !hit;
+        });
+      }
+      if (pending.length === 0) return;
+
+      const alignments = await alignTranslations(pending.map(c => ({ hebrew: c.hebrew, translation: c.translation! })), aiConfig);
+      pending.forEach((c, n) => applyAlignment(c, alignments[n].length > 0 ? alignments[n] : null));
+
+      if (useCache) {
+        putCachedAlignments(pending
+          .map((c, n) => ({ hash: cacheEntries[targets.indexOf(c)].hash, translation: c.translation!, alignment: alignments[n] }))
+          .filter(e => e.alignment.length > 0), promptVersion('align', aiConfig.promptOverrides), sharesCache(aiConfig) && settings.isAdmin ? userId : null);
+      }
     } catch (e) {
-      onError("Translation Error.");
-      setChunks(prev => prev.map((c, i) => paragraphIndices.includes(i) ? { ...c, isLoading: false } : c));
+      targets.forEach(c => applyAlignment(c, null));
+      onError("Alignment Error.");
+    } finally {
+      targets.forEach(c => aligningRef.current.delete(c.id));
+    }
+  };
+
+  // Interlinear mode aligns every translated section that has no alignment yet
+  useEffect(() => {
+    if (settings.translationMode !== 'interlinear') return;
+    const pending = chunks
+      .map((c, i) => c.translation && c.alignment === undefined && !c.isLoading && !aligningRef.current.has(c.id) ? i : -1)
+      .filter(i => i !== -1);
+    if (pending.length > 0) handleAlign(pending);
+  }, [chunks, settings.translationMode]);
+
+  const handleCompareStyle = (chunkIndex: number, style: TranslationStyle | null) => {
+    const chunk = chunks[chunkIndex];
+    setChunks(prev => prev.map((c, i) => i === chunkIndex ? { ...c, compareStyle: style } : c));
+    if (style && !chunk.translations?.[style] && !chunk.loadingStyles?.includes(style)) {
+      handleGenerateTranslation(chunkIndex, false, style);
+    }
+  };
+
+  // Sources the offline index missed, asked of the AI once per section
+  const handleFindQuotes = async (chunkIndex: number) => {
+    const chunk = chunks[chunkIndex];
+    setChunks(prev => prev.map(c => c.id === chunk.id ? { ...c, isFindingQuotes: true } : c));
+    try {
+      const [quotes] = await detectQuotes([chunk.hebrew], readerConfig());
+      setChunks(prev => prev.map(c => c.id === chunk.id ? { ...c, quotes, quotesChecked: true, isFindingQuotes: false } : c));
+    } catch (e) {
+      setChunks(prev => prev.map(c => c.id === chunk.id ? { ...c, isFindingQuotes: false } : c));
+      onError("Source Detection Error.");
     }
   };
 
@@ -196,6 +561,23 @@ const Reader: React.FC<ReaderProps> = ({
     }
   }, []);
 
+  // Selection actions ask the Orb through the user's (or the default) templates
+  const askAboutSelection = (id: Extract<PromptId, `selection.${string}`>, text: string) => {
+    const { prompt, version } = renderPrompt(id, { text }, settings.promptOverrides);
+    onAskAI(prompt, version);
+  };
+
+  // Known terms are answered from the dictionary; only unknown ones cost a model call
+  const defineSelection = (text: string) => {
+    const term = lookupTerm(text);
+    if (term) {
+      setDefinedTerm(term);
+      return;
+    }
+    onTextSelect(text);
+    askAboutSelection('selection.define', text);
+  };
+
   const isHebrew = (text: string) => /[\u0590-\u05FF]/.test(text);
 
   const cleanMarkdown = (html: string | null) => {
@@ -203,6 +585,141 @@ const Reader: React.FC<ReaderProps> = ({
     return html.replace(/\*\*(.*?)\*\*/g, '<b>$1</b>');
   };
 
+  // Hebrew with Rashei Teivos expanded inline or on hover, per settings
+  const renderHebrew = (hebrew: string) => {
+    if (settings.abbreviationMode === 'off') return hebrew;
+    const matches = findAbbreviations(hebrew);
+    if (matches.length === 0) return hebrew;
+
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    matches.forEach((m, i) => {
+      parts.push(hebrew.slice(cursor, m.start));
+      const title = m.alternatives.length > 0 ? `${m.expansion} (or: ${m.alternatives.join(', ')})` : m.expansion;
+      parts.push(settings.abbreviationMode === 'inline' ? (
+        <React.Fragment key={i}>
+          {m.text}
+          <span className="opacity-40 text-[0.6em] select-none" title={title}> ({m.expansion})</span>
+        </React.Fragment>
+      ) : (
+        <span key={i} className="relative group/abbr underline decoration-dotted decoration-1 underline-offset-8 cursor-help">
+          {m.text}
+          <span className={`
+            absolute bottom-full left-1/2 -translate-x-1/2 mb-2 px-3 py-1 rounded-lg shadow-lg whitespace-nowrap
+            text-[0.5em] leading-normal select-none pointer-events-none hidden group-hover/abbr:block
+            bg-white text-gray-900 border border-gray-200 dark:bg-gray-800 dark:text-gray-100 dark:border-gray-700
+          `}>
+            {title}
+          </span>
+        </span>
+      ));
+      cursor = m.end;
+    });
+    parts.push(hebrew.slice(cursor));
+    return parts;
+  };
+
+  // --- Quotations ---
+
+  const [openQuote, setOpenQuote] = useState<{ chunkId: number; quote: number } | null>(null);
+
+  const isQuoteOpen = (chunk: TextChunk, quote: number) => openQuote?.chunkId === chunk.id && openQuote.quote === quote;
+
+  // Hebrew with its quotations marked; the pieces still get abbreviation hints
+  const renderQuotedHebrew = (chunk: TextChunk) => {
+    const quotes = chunk.quotes || [];
+    if (quotes.length === 0) return renderHebrew(chunk.hebrew);
+
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    quotes.forEach((q, i) => {
+      parts.push(<React.Fragment key={`t${i}`}>{renderHebrew(chunk.hebrew.slice(cursor, q.start))}</React.Fragment>);
+      parts.push(
+        <span
+          key={`q${i}`}
+          className={`rounded transition-colors duration-150 ${isQuoteOpen(chunk, i) ? SELECTION_HIGHLIGHT_COLOR[settings.theme] : 'opacity-80'}`}
+          title={formatReference(q.reference)}
+        >
+          {renderHebrew(chunk.hebrew.slice(q.start, q.end))}
+        </span>
+      );
+      cursor = q.end;
+    });
+    parts.push(<React.Fragment key="end">{renderHebrew(chunk.hebrew.slice(cursor))}</React.Fragment>);
+    return parts;
+  };
+
+  const renderQuotePopover = (q: QuoteMatch) => {
+    const link = sourceLink(q.reference);
+    return (
+      <div className={`
+        mt-3 max-w-md mx-auto rounded-2xl border p-4 text-left shadow-lg
+        bg-white text-gray-900 border-gray-200
+        dark:bg-gray-800 dark:text-gray-100 dark:border-gray-700
+      `}>
+        <div className="flex items-baseline justify-between gap-4">
+          <span className="text-xs font-bold">{formatReference(q.reference)}</span>
+          {q.reference.hebrewBook && (
+            <span dir="rtl" className="font-hebrew-serif text-sm opacity-60">{q.reference.hebrewBook}</span>
+          )}
+        </div>
+        {q.sourceText && (
+          <p dir="rtl" className="mt-2 font-hebrew-serif text-base leading-relaxed opacity-80">{q.sourceText}</p>
+        )}
+        <div className="mt-3 flex items-center justify-between gap-4 text-[10px] uppercase tracking-widest">
+          <span className={q.origin === 'ai' ? (settings.theme === 'dark' ? 'text-amber-400/70' : 'text-amber-700/70') : 'opacity-40'}>
+            {q.origin === 'ai' ? 'Identified by AI — verify' : 'Source index'}
+          </span>
+          {link && (
+            <a href={link} target="_blank" rel="noopener noreferrer" className="opacity-60 hover:opacity-100 transition-opacity underline">
+              Open in Sefaria
+            </a>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  // The AI fallback needs a configured model and a Hebrew section not yet checked
+  const isChunkSearchable = (chunk: TextChunk) =>
+    !chunk.quotesChecked && isHebrew(chunk.hebrew) && isConfigured(configFromSettings(settings));
+
+  // Reference chips under the Hebrew; a chip opens its source
+  const renderQuoteChips = (chunk: TextChunk, chunkIndex: number) => {
+    const quotes = chunk.quotes || [];
+    const canSearch = isChunkSearchable(chunk);
+    if (quotes.length === 0 && !canSearch) return null;
+    const open = openQuote?.chunkId === chunk.id ? quotes[openQuote.quote] : undefined;
+
+    return (
+      <div className="max-w-2xl w-full mx-auto -mt-6">
+        <div className="flex flex-wrap justify-center items-center gap-2 text-[10px] uppercase tracking-widest">
+          {quotes.map((q, i) => (
+            <button
+              key={`${q.start}-${i}`}
+              onClick={() => setOpenQuote(isQuoteOpen(chunk, i) ? null : { chunkId: chunk.id, quote: i })}
+              className={`px-3 py-1 rounded-full border border-current transition-opacity ${isQuoteOpen(chunk, i) ? 'opacity-80' : 'opacity-30 hover:opacity-70'}`}
+              title={q.text}
+            >
+              {formatReference(q.reference)}{q.origin === 'ai' ? ' *' : ''}
+            </button>
+          ))}
+          {canSearch && (
+            <button
+              onClick={() => handleFindQuotes(chunkIndex)}
+              disabled={chunk.isFindingQuotes}
+              className="opacity-20 hover:opacity-60 transition-opacity disabled:animate-pulse"
+              title="Ask the AI for quotations the source index does not know"
+            >
+              {chunk.isFindingQuotes ? 'Finding sources…' : 'Find sources'}
+            </button>
+          )}
+        </div>
+        {open && renderQuotePopover(open)}
+      </div>
+    );
+  };
+
   // Mobile check for popup positioning
   const isMobile = typeof window !== 'undefined' && window.innerWidth < 768;
 
@@ -232,6 +749,119 @@ const Reader: React.FC<ReaderProps> = ({
       return lang === 'hebrew' ? 'text-right' : 'text-left';
   };
 
+  const renderTranslationText = (html: string) => (
+    <div 
+      dir={TARGET_LANGUAGES[settings.targetLanguage].dir}
+      lang={settings.targetLanguage}
+      className={`${getAlignClass(TARGET_LANGUAGES[settings.targetLanguage].dir === 'rtl' ? 'hebrew' : 'english')} font-serif text-xl leading-relaxed ${settings.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}
+      dangerouslySetInnerHTML={{ __html: sanitizeHtml(cleanMarkdown(html) || '') }}
+    />
+  );
+
+  // --- Provenance ---
+
+  // Only what a reviewer approved counts, human text included: anyone's own edits are not vetted
+  const isReviewed = (provenance?: TranslationProvenance) =>
+    provenance?.reviewStatus === 'approved';
+
+  const isHidden = (chunk: TextChunk, style: TranslationStyle) =>
+    settings.hideUnreviewedTranslations && !isReviewed(chunk.provenances?.[style]);
+
+  const provenanceLabel = (provenance: TranslationProvenance) =>
+    !isReviewed(provenance) ? (provenance.source === 'human' ? 'Unreviewed' : 'Machine') : provenance.source === 'human' ? 'Human' : 'Reviewed';
+
+  const provenanceDetails = (provenance: TranslationProvenance) => [
+    provenance.source === 'human'
+      ? (isReviewed(provenance) ? 'Written by an editor' : 'Human edit, not reviewed')
+      : `Machine translation${provenance.model ? ` (${provenance.model})` : ''}`,
+    provenance.promptVersion && `Prompt ${provenance.promptVersion}`,
+    provenance.createdAt && `Created ${new Date(provenance.createdAt).toLocaleString()}`,
+    `Review: ${provenance.reviewStatus}${provenance.reviewer ? ` by ${provenance.reviewer}` : ''}${provenance.reviewedAt ? `, ${new Date(provenance.reviewedAt).toLocaleDateString()}` : ''}`
+  ].filter(Boolean).join('\n');
+
+  const renderHiddenNotice = () => (
+    <p className="text-center text-[10px] uppercase tracking-[0.2em] opacity-30">Unreviewed translation hidden</p>
+  );
+
+  const renderStyleText = (chunk: TextChunk, style: TranslationStyle, html: string) =>
+    isHidden(chunk, style) ? renderHiddenNotice() : renderTranslationText(html);
+
+  // --- Interlinear ---
+
+  const [hoveredPair, setHoveredPair] = useState<{ chunkId: number; pair: number } | null>(null);
+
+  const alignedClass = (chunk: TextChunk, pair: number) =>
+    `rounded transition-colors duration-150 ${hoveredPair?.chunkId === chunk.id && hoveredPair.pair === pair ? SELECTION_HIGHLIGHT_COLOR[settings.theme] : ''}`;
+
+  // Hebrew words, each linked to the pair that covers it
+  const renderInterlinearHebrew = (chunk: TextChunk) => {
+    let tokenIndex = -1;
+    return chunk.hebrew.split(/(\s+)/).map((part, k) => {
+      if (!part || /^\s+$/.test(part)) return part;
+      tokenIndex++;
+      const token = tokenIndex;
+      const pair = (chunk.alignment || []).findIndex(a => token >= a.hebrew[0] && token <= a.hebrew[1]);
+      if (pair === -1) return <span key={k} className="opacity-60">{part}</span>;
+      return (
+        <span
+          key={k}
+          className={alignedClass(chunk, pair)}
+          onMouseEnter={() => setHoveredPair({ chunkId: chunk.id, pair })}
+          onMouseLeave={() => setHoveredPair(null)}
+        >
+          {part}
+        </span>
+      );
+    });
+  };
+
+  // The translation as plain text, with its aligned spans linked back to the Hebrew
+  const renderInterlinearTranslation = (chunk: TextChunk) => {
+    const text = translationText(chunk.translation || '');
+    const parts: React.ReactNode[] = [];
+    let position = 0;
+    (chunk.alignment || []).forEach((a, pair) => {
+      if (a.translation[0] > position) parts.push(text.slice(position, a.translation[0]));
+      parts.push(
+        <span
+          key={pair}
+          className={alignedClass(chunk, pair)}
+          onMouseEnter={() => setHoveredPair({ chunkId: chunk.id, pair })}
+          onMouseLeave={() => setHoveredPair(null)}
+        >
+          {text.slice(a.translation[0], a.translation[1])}
+        </span>
+      );
+      position = a.translation[1];
+    });
+    parts.push(text.slice(position));
+
+    return (
+      <div>
+        <div
+          dir={TARGET_LANGUAGES[settings.targetLanguage].dir}
+          lang={settings.targetLanguage}
+          className={`${getAlignClass(TARGET_LANGUAGES[settings.targetLanguage].dir === 'rtl' ? 'hebrew' : 'english')} font-serif text-xl leading-relaxed ${settings.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}
+        >
+          {parts}
+        </div>
+        {!chunk.alignment && (
+          <div className="mt-3 text-center text-[10px] uppercase tracking-widest opacity-30">
+            {chunk.alignment === null ? 'Could not align this section' : 'Aligning…'}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderLoadingDots = () => (
+    <div className="flex justify-center gap-2">
+      <div className="w-1.5 h-1.5 bg-gray-300 rounded-full animate-bounce"></div>
+      <div className="w-1.5 h-1.5 bg-gray-300 rounded-full animate-bounce delay-100"></div>
+      <div className="w-1.5 h-1.5 bg-gray-300 rounded-full animate-bounce delay-200"></div>
+    </div>
+  );
+
   return (
     <main 
       className={`
@@ -243,6 +873,7 @@ const Reader: React.FC<ReaderProps> = ({
       <Minimap 
         currentChunkIndex={currentSection} 
         items={minimapItems}
+        outline={outline}
         onItemClick={scrollToSection}
         theme={settings.theme}
         isVisible={isMenuOpen}
@@ -299,30 +930,126 @@ const Reader: React.FC<ReaderProps> = ({
                         lineHeight: settings.lineHeight
                         }}
                     >
-                        {chunk.hebrew}
+                        {settings.translationMode === 'interlinear' && chunk.alignment
+                          ? renderInterlinearHebrew(chunk)
+                          : renderQuotedHebrew(chunk)}
                     </p>
                   )}
+                  {settings.translationMode !== 'english' && renderQuoteChips(chunk, idx)}
   
                   {/* Inline Translation */}
-                  {(settings.translationMode === 'bilingual' || settings.translationMode === 'english') && (
+                  {settings.translationMode !== 'hebrew' && (
                      <div className="w-full max-w-3xl animate-in fade-in slide-in-from-bottom-2 duration-500 relative group">
                        {chunk.isLoading ? (
-                         <div className="flex justify-center gap-2">
-                           <div className="w-1.5 h-1.5 bg-gray-300 rounded-full animate-bounce"></div>
-                           <div className="w-1.5 h-1.5 bg-gray-300 rounded-full animate-bounce delay-100"></div>
-                           <div className="w-1.5 h-1.5 bg-gray-300 rounded-full animate-bounce delay-200"></div>
-                         </div>
+                         renderLoadingDots()
                        ) : chunk.translation ? (
                          <>
-                            <div 
-                              className={`${getAlignClass('english')} font-serif text-xl leading-relaxed ${settings.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}
-                              dangerouslySetInnerHTML={{ __html: cleanMarkdown(chunk.translation) || '' }}
-                            />
+                            {settings.translationMode === 'interlinear' ? (
+                              isHidden(chunk, activeStyle(chunk)) ? renderHiddenNotice() : renderInterlinearTranslation(chunk)
+                            ) : chunk.compareStyle ? (
+                              /* Two styles side by side */
+                              <div className="grid md:grid-cols-2 gap-8">
+                                <div>
+                                  <div className="mb-3 text-center text-[10px] uppercase tracking-widest opacity-40">{TRANSLATION_STYLES[activeStyle(chunk)].label}</div>
+                                  {renderStyleText(chunk, activeStyle(chunk), chunk.translation)}
+                                </div>
+                                <div>
+                                  <div className="mb-3 text-center text-[10px] uppercase tracking-widest opacity-40">{TRANSLATION_STYLES[chunk.compareStyle].label}</div>
+                                  {chunk.translations?.[chunk.compareStyle]
+                                    ? renderStyleText(chunk, chunk.compareStyle, chunk.translations[chunk.compareStyle]!)
+                                    : chunk.loadingStyles?.includes(chunk.compareStyle)
+                                      ? renderLoadingDots()
+                                      : (
+                                        <button
+                                          onClick={() => handleCompareStyle(idx, chunk.compareStyle!)}
+                                          className="block mx-auto text-[10px] uppercase tracking-[0.2em] opacity-30 hover:opacity-100 transition-opacity"
+                                        >
+                                          Translate
+                                        </button>
+                                      )}
+                                </div>
+                              </div>
+                            ) : renderStyleText(chunk, activeStyle(chunk), chunk.translation)}
+                            {/* Glossary Check */}
+                            {chunk.glossaryIssues && chunk.glossaryIssues.length > 0 && (
+                              <div 
+                                className={`mt-4 flex justify-center gap-2 text-[10px] uppercase tracking-widest ${settings.theme === 'dark' ? 'text-amber-400/70' : 'text-amber-700/70'}`}
+                                title="These glossary terms were not rendered as specified"
+                              >
+                                <span className="font-bold">Terminology</span>
+                                <span className="normal-case tracking-normal">{chunk.glossaryIssues.join(', ')}</span>
+                              </div>
+                            )}
+                            {/* Style switcher and comparison */}
+                            <div className="mt-4 flex justify-center items-center gap-3 text-[10px] uppercase tracking-widest">
+                              {chunk.provenances?.[activeStyle(chunk)] && (
+                                <>
+                                  <span
+                                    className={`px-1.5 py-0.5 rounded border cursor-help ${isReviewed(chunk.provenances[activeStyle(chunk)]) ? 'opacity-60' : 'opacity-30'} ${settings.theme === 'dark' ? 'border-gray-700' : 'border-gray-300'}`}
+                                    title={provenanceDetails(chunk.provenances[activeStyle(chunk)]!)}
+                                  >
+                                    {provenanceLabel(chunk.provenances[activeStyle(chunk)]!)}
+                                  </span>
+                                  <span className="opacity-20">|</span>
+                                </>
+                              )}
+                              {(Object.keys(TRANSLATION_STYLES) as TranslationStyle[]).map(style => (
+                                <button
+                                  key={style}
+                                  onClick={() => handleSelectStyle(idx, style)}
+                                  title={TRANSLATION_STYLES[style].description}
+                                  className={`transition-opacity ${activeStyle(chunk) === style ? 'opacity-80 font-bold' : chunk.pendingStyle === style ? 'opacity-70 animate-pulse' : 'opacity-30 hover:opacity-70'}`}
+                                >
+                                  {TRANSLATION_STYLES[style].label}
+                                </button>
+                              ))}
+                              {settings.translationMode !== 'interlinear' && <span className="opacity-20">|</span>}
+                              {settings.translationMode === 'interlinear' ? null : chunk.compareStyle ? (
+                                <>
+                                  {(Object.keys(TRANSLATION_STYLES) as TranslationStyle[])
+                                    .filter(style => style !== activeStyle(chunk) && style !== chunk.compareStyle)
+                                    .map(style => (
+                                      <button key={style} onClick={() => handleCompareStyle(idx, style)} className="opacity-30 hover:opacity-70 transition-opacity">
+                                        vs {TRANSLATION_STYLES[style].label}
+                                      </button>
+                                    ))}
+                                  <button onClick={() => handleCompareStyle(idx, null)} className="opacity-30 hover:opacity-70 transition-opacity">Close</button>
+                                </>
+                              ) : (
+                                <button
+                                  onClick={() => handleCompareStyle(idx, (Object.keys(TRANSLATION_STYLES) as TranslationStyle[]).find(style => style !== activeStyle(chunk))!)}
+                                  className="opacity-30 hover:opacity-70 transition-opacity"
+                                  title="Show two styles side by side"
+                                >
+                                  Compare
+                                </button>
+                              )}
+                            </div>
+                            {/* Retranslate (bypasses the cache) */}
+                            <button 
+                                className="absolute -right-12 top-8 p-2 opacity-0 group-hover:opacity-30 hover:!opacity-100 transition-opacity"
+                                title={chunk.fromCache ? "Cached translation — Retranslate" : "Retranslate"}
+                                onClick={() => handleGenerateTranslation(idx, true)}
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                                  <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992v-.001M2.985 19.644v-4.992m0 0h4.992m-4.993 0l3.181 3.183a8.25 8.25 0 0013.803-3.7M4.031 9.865a8.25 8.25 0 0113.803-3.7l3.181 3.182m0-4.991v4.99" />
+                                </svg>
+                            </button>
+                            {/* Revision History */}
+                            <button 
+                                className="absolute -right-12 top-16 p-2 opacity-0 group-hover:opacity-30 hover:!opacity-100 transition-opacity"
+                                title="Revision History"
+                                onClick={() => setHistoryIndex(idx)}
+                            >
+                                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                                  <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                </svg>
+                            </button>
                             {/* Feedback Button */}
                             <button 
                                 className="absolute -right-12 top-0 p-2 opacity-0 group-hover:opacity-30 hover:!opacity-100 transition-opacity"
                                 title="Report Issue"
-                                onClick={() => console.log('Report translation', chunk.id)}
+                                onClick={() => setReportingIndex(idx)}
                             >
                                 <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
                                   <path strokeLinecap="round" strokeLinejoin="round" d="M3 3v1.5M3 21v-6m0 0l2.77-.693a9 9 0 016.208.682l.108.054a9 9 0 006.086.71l3.114-.732a48.524 48.524 0 01-.005-10.499l-3.11.732a9 9 0 01-6.085-.711l-.108-.054a9 9 0 00-6.208-.682L3 4.5M3 15V4.5" />
@@ -355,11 +1082,57 @@ const Reader: React.FC<ReaderProps> = ({
           );
         })}
         
-        <div className="min-h-[50vh] flex items-center justify-center opacity-30 font-serif italic">
-            End of Text
+        <div className="min-h-[50vh] flex flex-col items-center justify-center gap-6">
+            <span className="opacity-30 font-serif italic">End of Text</span>
+            {onReviewChapter && chunks.length > 0 && (
+              <button
+                onClick={onReviewChapter}
+                disabled={isPreparingReview}
+                className="px-4 py-2 rounded-full border border-current opacity-30 hover:opacity-100 transition-opacity text-[10px] uppercase tracking-[0.2em] disabled:animate-pulse"
+              >
+                {isPreparingReview ? 'Writing Questions…' : 'Review This Chapter'}
+              </button>
+            )}
         </div>
       </div>
 
+      {historyIndex !== null && chunks[historyIndex] && (
+        <RevisionHistory
+          hebrew={chunks[historyIndex].hebrew}
+          language={settings.targetLanguage}
+          style={activeStyle(chunks[historyIndex])}
+          userId={userId}
+          reviewerName={reviewerName}
+          canReview={settings.isAdmin}
+          isDark={settings.theme === 'dark'}
+          onPublishedChange={(revision) => applyRevision(historyIndex, revision)}
+          onClose={() => setHistoryIndex(null)}
+        />
+      )}
+
+      {definedTerm && (
+        <TermDefinition
+          term={definedTerm}
+          isDark={settings.theme === 'dark'}
+          onAskAI={(text) => {
+            setDefinedTerm(null);
+            onTextSelect(text);
+            askAboutSelection('selection.define', text);
+          }}
+          onClose={() => setDefinedTerm(null)}
+        />
+      )}
+
+      {reportingIndex !== null && chunks[reportingIndex] && (
+        <ReportIssueForm
+          hebrew={chunks[reportingIndex].hebrew}
+          translation={chunks[reportingIndex].translation || ''}
+          isDark={settings.theme === 'dark'}
+          onSubmit={(draft) => handleSubmitReport(reportingIndex, draft)}
+          onClose={() => setReportingIndex(null)}
+        />
+      )}
+
       {selection && (
         <div 
           className="fixed z-50 flex flex-col items-center animate-in fade-in zoom-in-95 duration-200"
@@ -376,7 +1149,7 @@ const Reader: React.FC<ReaderProps> = ({
               onClick={(e) => {
                   e.stopPropagation();
                   onTextSelect(selection.text); 
-                  onAskAI("Translate exactly: " + selection.text);
+                  askAboutSelection('selection.translate', selection.text);
                   setSelection(null); 
               }}
               className="px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-xl text-xs font-medium transition-colors"
@@ -388,7 +1161,7 @@ const Reader: React.FC<ReaderProps> = ({
               onClick={(e) => {
                   e.stopPropagation();
                   onTextSelect(selection.text);
-                  onAskAI("Summarize this concept: " + selection.text);
+                  askAboutSelection('selection.summarize', selection.text);
                   setSelection(null); 
               }}
               className="px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-xl text-xs font-medium transition-colors"
@@ -400,13 +1173,24 @@ const Reader: React.FC<ReaderProps> = ({
               onClick={(e) => {
                   e.stopPropagation();
                   onTextSelect(selection.text);
-                  onAskAI("Explain the deeper meaning of: " + selection.text);
+                  askAboutSelection('selection.explain', selection.text);
                   setSelection(null); 
               }}
               className="px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-xl text-xs font-medium transition-colors"
             >
               Explain
             </button>
+            <div className="w-px h-4 bg-gray-200 dark:bg-gray-600"></div>
+            <button
+              onClick={(e) => {
+                  e.stopPropagation();
+                  defineSelection(selection.text);
+                  setSelection(null);
+              }}
+              className="px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-xl text-xs font-medium transition-colors"
+            >
+              Define
+            </button>
           </div>
         </div>
       )}
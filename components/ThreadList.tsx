@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { ChatThread } from '../types';
+import { downloadThread } from '../src/services/threadService';
+
+interface ThreadListProps {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  currentBookId: string | null;
+  onResume: (thread: ChatThread) => void;
+  onRename: (threadId: string, title: string) => void;
+  onDelete: (threadId: string) => void;
+  isDark: boolean;
+}
+
+const ThreadList: React.FC<ThreadListProps> = ({ threads, activeThreadId, currentBookId, onResume, onRename, onDelete, isDark }) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+
+  const here = threads.filter(t => currentBookId && t.bookId === currentBookId);
+  const elsewhere = threads.filter(t => !here.includes(t));
+
+  const actionClass = 'text-[10px] uppercase tracking-widest opacity-40 hover:opacity-100 transition-opacity';
+
+  const renderThread = (thread: ChatThread) => (
+    <div
+      key={thread.id}
+      className={`p-3 rounded-xl border transition-all ${thread.id === activeThreadId
+        ? (isDark ? 'border-white/20 bg-white/5' : 'border-black/10 bg-gray-50')
+        : (isDark ? 'border-white/10 hover:bg-white/5' : 'border-black/5 hover:bg-black/5')}`}
+    >
+      {renamingId === thread.id ? (
+        <input
+          autoFocus
+          defaultValue={thread.title}
+          onBlur={(e) => { onRename(thread.id, e.target.value); setRenamingId(null); }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+            if (e.key === 'Escape') setRenamingId(null);
+          }}
+          className={`w-full bg-transparent outline-none text-sm border-b ${isDark ? 'border-white/20' : 'border-black/20'}`}
+        />
+      ) : (
+        <button onClick={() => onResume(thread)} className="w-full text-left text-sm opacity-80 hover:opacity-100 line-clamp-2">
+          {thread.title}
+        </button>
+      )}
+      <div className="mt-1 text-[10px] opacity-40">
+        {thread.bookTitle && <span>{thread.bookTitle} · </span>}
+        {new Date(thread.updatedAt).toLocaleDateString()} · {thread.messages.length} messages
+      </div>
+      <div className="flex gap-3 mt-2">
+        <button onClick={() => setRenamingId(thread.id)} className={actionClass}>Rename</button>
+        <button onClick={() => downloadThread(thread, 'md')} className={actionClass}>Markdown</button>
+        <button onClick={() => downloadThread(thread, 'html')} className={actionClass}>HTML</button>
+        <button
+          onClick={() => { if (window.confirm(`Delete "${thread.title}"?`)) onDelete(thread.id); }}
+          className={`${actionClass} hover:text-red-500`}
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+
+  if (threads.length === 0) {
+    return <p className="text-center font-serif text-sm opacity-40 mt-8">No saved conversations yet.</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      {here.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <div className="text-[10px] uppercase tracking-widest opacity-40">This Text</div>
+          {here.map(renderThread)}
+        </div>
+      )}
+      {elsewhere.length > 0 && (
+        <div className="flex flex-col gap-2">
+          <div className="text-[10px] uppercase tracking-widest opacity-40">{here.length > 0 ? 'Other Texts' : 'All Conversations'}</div>
+          {elsewhere.map(renderThread)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThreadList;
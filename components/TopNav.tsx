@@ -1,6 +1,8 @@
 
 import React, { useState, useEffect } from 'react';
 import { Settings } from '../types';
+import { configFromSettings, isConfigured } from '../services/aiProvider';
+import { useFreeTierQuota } from '../src/hooks/useFreeTierQuota';
 
 interface TopNavProps {
   settings: Settings;
@@ -16,6 +18,7 @@ const TopNav: React.FC<TopNavProps> = ({
   onGoHome
 }) => {
   const [scrolled, setScrolled] = useState(false);
+  const quota = useFreeTierQuota();
   
   useEffect(() => {
     const handleScroll = () => {
@@ -28,8 +31,6 @@ const TopNav: React.FC<TopNavProps> = ({
   const isDark = settings.theme === 'dark';
   const textColor = isDark ? 'text-gray-400 hover:text-gray-200' : 'text-gray-300 hover:text-gray-800';
 
-  const remaining = Math.max(0, 3 - settings.dailyUsageCount);
-
   return (
     <nav 
       className={`
@@ -51,16 +52,16 @@ const TopNav: React.FC<TopNavProps> = ({
 
         {/* Right: Profile & Usage */}
         <div className="flex items-center gap-4 pointer-events-auto">
-           {/* Usage Badge - Minimal */}
-           {!settings.apiKey && (
+           {/* Free tier quota (known after the first proxied request) - Minimal */}
+           {!isConfigured(configFromSettings(settings)) && quota && (
              <div 
                className={`
                  flex items-center justify-center min-w-[30px] h-[30px] px-2 rounded-full border text-[10px] font-bold transition-all
                  ${isDark ? 'border-gray-700 text-gray-500' : 'border-gray-300 text-gray-400'}
                `}
-               title={`${remaining} free messages remaining today`}
+               title={`${quota.remaining} of ${quota.limit} free requests remaining today`}
              >
-                {remaining}
+                {quota.remaining}
              </div>
            )}
 
@@ -1,6 +1,7 @@
 import React, { useRef, useState, useEffect, useCallback } from 'react';
-import { Settings, Theme } from '../types';
+import { Settings, Theme, ChapterReview } from '../types';
 import { THEME_CLASSES } from '../constants';
+import { dueQuestions } from '../services/spacedRepetition';
 import { User } from '@supabase/supabase-js'; // Import User type
 
 interface WelcomeExperienceProps {
@@ -11,6 +12,8 @@ interface WelcomeExperienceProps {
   onStartLearning: () => void;
   onOpenLogin: () => void; // New prop
   user: User | null; // New prop
+  dueReviews: ChapterReview[]; // Chapters with review questions due
+  onStartReview: (review: ChapterReview) => void;
 }
 
 // Extended mock data for the library preview
@@ -21,7 +24,7 @@ const LIBRARY_PREVIEW = [
     { t: 'Derech Mitzvosecha', author: 'Tzemach Tzedek', date: '1850s', purpose: 'Mitzvos', desc: 'Explaining the reasons behind the commandments.', p: 0 }
 ];
 
-const WelcomeExperience: React.FC<WelcomeExperienceProps> = ({ settings, onUpdateSettings, onOpenLibrary, onOpenProfile, onStartLearning, onOpenLogin, user }) => {
+const WelcomeExperience: React.FC<WelcomeExperienceProps> = ({ settings, onUpdateSettings, onOpenLibrary, onOpenProfile, onStartLearning, onOpenLogin, user, dueReviews, onStartReview }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [activeSection, setActiveSection] = useState(0);
   const [mounted, setMounted] = useState(false);
@@ -291,6 +294,25 @@ const WelcomeExperience: React.FC<WelcomeExperienceProps> = ({ settings, onUpdat
       >
         {/* SECTION 1: HERO */}
         <div className="min-h-screen flex flex-col items-center justify-center p-8 text-center relative overflow-hidden">
+
+            {/* Due Reviews */}
+            {dueReviews.length > 0 && (
+              <div className={`absolute top-24 left-1/2 -translate-x-1/2 z-20 w-full max-w-md px-8 transition-all duration-1000 ${heroPhase >= 1 ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-4'}`}>
+                <div className="text-[10px] uppercase tracking-[0.3em] opacity-40 mb-3">Due for Review</div>
+                <div className="flex flex-col gap-2">
+                  {dueReviews.slice(0, 3).map(review => (
+                    <button
+                      key={review.id}
+                      onClick={() => onStartReview(review)}
+                      className={`flex items-center justify-between gap-4 px-4 py-2 rounded-full border text-left transition-opacity opacity-70 hover:opacity-100 ${borderColor}`}
+                    >
+                      <span className="font-serif text-sm truncate">{review.bookTitle}</span>
+                      <span className="text-[10px] uppercase tracking-widest opacity-50 shrink-0">{dueQuestions(review).length} due</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
             
             <div className="relative z-10 flex flex-col items-center w-full max-w-4xl h-[500px] justify-center">
                 
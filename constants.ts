@@ -1,4 +1,4 @@
-import { BookCategory } from './types';
+import { BookCategory, ReportCategory, TargetLanguage, TranslationStyle } from './types';
 
 export const LIBRARY: BookCategory[] = [
   {
@@ -49,11 +49,24 @@ export const SELECTION_HIGHLIGHT_COLOR = {
   dark: 'bg-gray-800',
 };
 
-export const MOCK_TRANSLATION = [
-  "In the beginning He created etc. It is written: <b>Wisdoms cry out in the street</b>; the aspect of <i>Chochmah Ila'ah</i> (Supernal Wisdom) which is drawn into <i>Chochmah Tata'ah</i> (Lower Wisdom) to clarify the clarifications of the Tree of Knowledge etc., which is called <i>Mah</i> and this is called <i>Ban</i> etc., and this is sufficient for the wise.",
-  "And we must first explain what is written: <b>In the beginning He created</b>—for the sake of the Torah which is called <b>Beginning</b> etc. And ostensibly, it is understood from this that He created with the Wisdom of the Torah, for <b>Beginning</b> is the aspect of Wisdom, and concerning the Torah it is said: <b>The Lord acquired me as the beginning of His way</b>.",
-  "And what is written <b>In the beginning (B'reishit)</b>—with Wisdom; and similarly it is said: <b>B'reishit</b> is also a specific Utterance. This is the aspect of <i>Chochmah Tata'ah</i>, as in <b>The Lord founded the earth with Wisdom</b>; <b>You made them all with Wisdom</b>.",
-  "And this is <b>In the beginning</b>—with the Utterance of <b>B'reishit</b>. As it is written: <b>And is it not that it could have been created with one Utterance?</b> And this is the aspect of Wisdom within the Speech of the Ten Utterances, which is called Wisdom at the end, which is rooted in Wisdom in the beginning (in the head), which is the source of Wisdom within Speech.",
-  "And behold, from the language of the Zohar: <b>He looked into the Torah and created the world</b>. And similarly it is brought in the Midrash: <b>And I was by Him as a nursling (amon)</b>—like an artisan (uman) who looks at the blueprint where the manner of the building is depicted, so <b>God said, Let there be etc.</b>; He looked at this matter in the Torah. As it is written: <b>He looked into the Torah etc.</b> And so for every single Utterance in particular.",
-  "And what is written <b>The Lord founded the earth with Wisdom; You made them all with Wisdom</b>—which is the Utterance of <b>B'reishit</b> with Wisdom etc."
-];
\ No newline at end of file
+// Languages the Reader can translate into. Yiddish is written right to left.
+export const TARGET_LANGUAGES: Record<TargetLanguage, { label: string; nativeLabel: string; dir: 'ltr' | 'rtl' }> = {
+  en: { label: 'English', nativeLabel: 'English', dir: 'ltr' },
+  ru: { label: 'Russian', nativeLabel: 'Русский', dir: 'ltr' },
+  fr: { label: 'French', nativeLabel: 'Français', dir: 'ltr' },
+  es: { label: 'Spanish', nativeLabel: 'Español', dir: 'ltr' },
+  yi: { label: 'Yiddish', nativeLabel: 'ייִדיש', dir: 'rtl' },
+};
+
+export const TRANSLATION_STYLES: Record<TranslationStyle, { label: string; description: string }> = {
+  literal: { label: 'Literal', description: 'Close to the Hebrew word order, no added explanation' },
+  flowing: { label: 'Flowing', description: 'Readable prose with brief italic asides' },
+  commentary: { label: 'Commentary', description: 'Translation woven with explanation, in the manner of Lessons in Tanya' },
+};
+
+export const REPORT_CATEGORIES: Record<ReportCategory, { label: string; description: string }> = {
+  meaning: { label: 'Wrong meaning', description: 'The translation says something the Hebrew does not' },
+  terminology: { label: 'Terminology', description: 'A Chassidic term is rendered wrongly or inconsistently' },
+  formatting: { label: 'Formatting', description: 'Markup, brackets or commentary spans are broken' },
+  missing: { label: 'Missing text', description: 'Part of the Hebrew is not translated' },
+};
@@ -2,6 +2,9 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { SessionContextProvider } from './src/components/SessionContextProvider'; // Corrected path
+import { registerFreeTierProxy } from './src/services/freeTierProxy';
+
+registerFreeTierProxy();
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
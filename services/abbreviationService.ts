@@ -0,0 +1,195 @@
+import { normalizeHebrewQuotes } from "./glossaryService";
+
+// Rashei Teivos (abbreviations) and their expansions. When an abbreviation has
+// several readings, the one whose cue words appear nearby wins; the first
+// reading is the default.
+
+export interface AbbreviationExpansion {
+  hebrew: string;
+  cues?: string[];
+}
+
+export interface AbbreviationEntry {
+  abbr: string[]; // Written with plain quotes; gershayim/geresh variants are normalized
+  expansions: AbbreviationExpansion[];
+}
+
+export interface AbbreviationMatch {
+  start: number; // Offsets into the original text
+  end: number;
+  text: string;
+  prefix: string; // One-letter prefixes (ו, ב, ל...) kept outside the expansion
+  expansion: string;
+  alternatives: string[];
+}
+
+export const ABBREVIATIONS: AbbreviationEntry[] = [
+  // Sefiros, worlds and lights
+  { abbr: ['ח"ע'], expansions: [{ hebrew: 'חכמה עילאה' }] },
+  { abbr: ['ח"ת'], expansions: [{ hebrew: 'חכמה תתאה' }] },
+  { abbr: ['חו"ב'], expansions: [{ hebrew: 'חכמה ובינה' }] },
+  { abbr: ['חב"ד'], expansions: [{ hebrew: 'חכמה בינה ודעת' }] },
+  { abbr: ['חג"ת'], expansions: [{ hebrew: 'חסד גבורה תפארת' }] },
+  { abbr: ['נה"י'], expansions: [{ hebrew: 'נצח הוד יסוד' }] },
+  { abbr: ['ע"ס'], expansions: [{ hebrew: 'עשר ספירות' }] },
+  { abbr: ['ז"א'], expansions: [{ hebrew: 'זעיר אנפין' }] },
+  { abbr: ['ספי\''], expansions: [{ hebrew: 'ספירות' }] },
+  { abbr: ['מל\''], expansions: [{ hebrew: 'מלכות' }] },
+  { abbr: ['אצי\''], expansions: [{ hebrew: 'אצילות' }] },
+  { abbr: ['בי"ע'], expansions: [{ hebrew: 'בריאה יצירה עשיה' }] },
+  { abbr: ['אבי"ע'], expansions: [{ hebrew: 'אצילות בריאה יצירה עשיה' }] },
+  { abbr: ['א"ס'], expansions: [{ hebrew: 'אין סוף' }] },
+  { abbr: ['אוא"ס', 'אור א"ס'], expansions: [{ hebrew: 'אור אין סוף' }] },
+  { abbr: ['ממכ"ע'], expansions: [{ hebrew: 'ממלא כל עלמין' }] },
+  { abbr: ['סוכ"ע'], expansions: [{ hebrew: 'סובב כל עלמין' }] },
+  { abbr: ['בחי\''], expansions: [{ hebrew: 'בחינת' }] },
+  { abbr: ['ת"ת'], expansions: [
+    { hebrew: 'תפארת', cues: ['חסד', 'גבורה', 'נצח', 'ספירות', 'מדות', 'חג"ת'] },
+    { hebrew: 'תלמוד תורה', cues: ['לימוד', 'ללמוד', 'מצות', 'מצוה', 'עוסק', 'כנגד כולם'] },
+  ] },
+  { abbr: ['מ"ע'], expansions: [
+    { hebrew: 'מים עליונים', cues: ['מים', 'מ"ת', 'רקיע', 'תחתונים', 'בוכין', 'הבדלה'] },
+    { hebrew: 'מצות עשה', cues: ['מצות', 'מצוה', 'ל"ת', 'תעשה', 'תרי"ג', 'רמ"ח'] },
+  ] },
+  { abbr: ['מ"ת'], expansions: [
+    { hebrew: 'מים תחתונים', cues: ['מים', 'מ"ע', 'רקיע', 'עליונים', 'בוכין', 'הבדלה'] },
+    { hebrew: 'מתן תורה', cues: ['סיני', 'תורה', 'קודם', 'לאחר', 'אבות', 'גזירה'] },
+  ] },
+  { abbr: ['נה"ב'], expansions: [{ hebrew: 'נפש הבהמית' }] },
+  { abbr: ['נה"א'], expansions: [{ hebrew: 'נפש האלקית' }] },
+  { abbr: ['יצה"ר'], expansions: [{ hebrew: 'יצר הרע' }] },
+  { abbr: ['יצ"ט', 'יצה"ט'], expansions: [{ hebrew: 'יצר טוב' }] },
+  { abbr: ['עוה"ז'], expansions: [{ hebrew: 'עולם הזה' }] },
+  { abbr: ['עוה"ב'], expansions: [{ hebrew: 'עולם הבא' }] },
+  { abbr: ['אדה"ר'], expansions: [{ hebrew: 'אדם הראשון' }] },
+
+  // Names and honorifics
+  { abbr: ['הקב"ה'], expansions: [{ hebrew: 'הקדוש ברוך הוא' }] },
+  { abbr: ['ב"ה'], expansions: [{ hebrew: 'ברוך הוא' }] },
+  { abbr: ['ית\''], expansions: [{ hebrew: 'יתברך' }] },
+  { abbr: ['ית"ש'], expansions: [{ hebrew: 'יתברך שמו' }] },
+  { abbr: ['ע"ה'], expansions: [{ hebrew: 'עליו השלום' }] },
+  { abbr: ['ז"ל'], expansions: [
+    { hebrew: 'זכרונו לברכה' },
+    { hebrew: 'זכרונם לברכה', cues: ['רבותינו', 'חכמינו', 'אמרו', 'רבנן'] },
+  ] },
+  { abbr: ['רז"ל', 'רבז"ל'], expansions: [{ hebrew: 'רבותינו זכרונם לברכה' }] },
+  { abbr: ['חז"ל'], expansions: [{ hebrew: 'חכמינו זכרונם לברכה' }] },
+  { abbr: ['דא"ח'], expansions: [{ hebrew: 'דברי אלקים חיים' }] },
+
+  // Connectives and citation formulas
+  { abbr: ['כו\''], expansions: [{ hebrew: 'כולי' }] },
+  { abbr: ['וגו\''], expansions: [{ hebrew: 'וגומר' }] },
+  { abbr: ['וד"ל'], expansions: [{ hebrew: 'ודי למבין' }] },
+  { abbr: ['ע"י'], expansions: [{ hebrew: 'על ידי' }] },
+  { abbr: ['ע"ד'], expansions: [{ hebrew: 'על דרך' }] },
+  { abbr: ['ע"פ'], expansions: [{ hebrew: 'על פי' }] },
+  { abbr: ['ע"ז'], expansions: [
+    { hebrew: 'על זה' },
+    { hebrew: 'עבודה זרה', cues: ['עובדי', 'כוכבים', 'אלילים', 'ג"ע', 'ש"ד', 'איסור'] },
+  ] },
+  { abbr: ['ע"ש', 'עיי"ש'], expansions: [{ hebrew: 'עיין שם' }] },
+  { abbr: ['אע"פ'], expansions: [{ hebrew: 'אף על פי' }] },
+  { abbr: ['אעפ"כ'], expansions: [{ hebrew: 'אף על פי כן' }] },
+  { abbr: ['ג"כ'], expansions: [{ hebrew: 'גם כן' }] },
+  { abbr: ['כ"כ'], expansions: [{ hebrew: 'כל כך' }] },
+  { abbr: ['כ"א'], expansions: [
+    { hebrew: 'כל אחד', cues: ['ואחד', 'מהם', 'לפי', 'כפי', 'בפני עצמו'] },
+    { hebrew: 'כי אם', cues: ['אין', 'לא', 'אינו', 'אינה', 'בלתי', 'רק'] },
+  ] },
+  { abbr: ['כאו"א'], expansions: [{ hebrew: 'כל אחד ואחד' }] },
+  { abbr: ['מ"מ'], expansions: [{ hebrew: 'מכל מקום' }] },
+  { abbr: ['ר"ל'], expansions: [
+    { hebrew: 'רוצה לומר' },
+    { hebrew: 'רחמנא ליצלן', cues: ['חטא', 'עון', 'עונות', 'פגם', 'עבירה', 'כרת'] },
+  ] },
+  { abbr: ['כמ"ש'], expansions: [{ hebrew: 'כמו שכתוב' }] },
+  { abbr: ['כנ"ל'], expansions: [{ hebrew: 'כנזכר לעיל' }] },
+  { abbr: ['שנא\''], expansions: [{ hebrew: 'שנאמר' }] },
+  { abbr: ['פי\''], expansions: [{ hebrew: 'פירוש' }] },
+  { abbr: ['ד"ה'], expansions: [{ hebrew: 'דיבור המתחיל' }] },
+  { abbr: ['וכו\''], expansions: [{ hebrew: 'וכולי' }] },
+];
+
+const PREFIXES = /^[ובלמהשכד]/;
+const CUE_WINDOW = 80; // Characters on each side of a match that count as its context
+
+const lookup = new Map<string, AbbreviationEntry>(
+  ABBREVIATIONS.flatMap(entry => entry.abbr.map(a => [normalizeHebrewQuotes(a), entry] as [string, AbbreviationEntry]))
+);
+
+// Runs of Hebrew letters with an inner gershayim or a trailing geresh
+const TOKEN_REGEX = /[א-ת]+(?:"[א-ת]+|')|אור א"ס/g;
+
+// Exact spelling first, then with up to two one-letter prefixes removed (ובח"ע → ו + ב + ח"ע)
+const resolve = (token: string): { prefix: string; entry: AbbreviationEntry } | null => {
+  for (let cut = 0; cut <= 2 && cut < token.length; cut++) {
+    if (cut > 0 && !PREFIXES.test(token[cut - 1])) break;
+    const entry = lookup.get(token.slice(cut));
+    if (entry) return { prefix: token.slice(0, cut), entry };
+  }
+  return null;
+};
+
+const pickExpansion = (expansions: AbbreviationExpansion[], context: string): AbbreviationExpansion => {
+  let best = expansions[0];
+  let bestScore = 0;
+  expansions.forEach(expansion => {
+    const score = (expansion.cues || []).filter(cue => context.includes(normalizeHebrewQuotes(cue))).length;
+    if (score > bestScore) {
+      best = expansion;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+// All abbreviations in the text with their context-resolved expansion
+export const findAbbreviations = (hebrew: string): AbbreviationMatch[] => {
+  // normalizeHebrewQuotes maps character for character, so offsets line up with the original
+  const text = normalizeHebrewQuotes(hebrew);
+  const matches: AbbreviationMatch[] = [];
+
+  for (const m of text.matchAll(TOKEN_REGEX)) {
+    const resolved = resolve(m[0]);
+    if (!resolved) continue;
+
+    const start = m.index!;
+    const end = start + m[0].length;
+    const context = text.slice(Math.max(0, start - CUE_WINDOW), start) + ' ' + text.slice(end, end + CUE_WINDOW);
+    const chosen = pickExpansion(resolved.entry.expansions, context);
+
+    matches.push({
+      start,
+      end,
+      text: hebrew.slice(start, end),
+      prefix: resolved.prefix,
+      expansion: chosen.hebrew,
+      alternatives: resolved.entry.expansions.filter(e => e !== chosen).map(e => e.hebrew),
+    });
+  }
+  return matches;
+};
+
+// Text with every abbreviation written out
+export const expandAbbreviations = (hebrew: string): string => {
+  let result = '';
+  let cursor = 0;
+  findAbbreviations(hebrew).forEach(m => {
+    result += hebrew.slice(cursor, m.start) + m.prefix + m.expansion;
+    cursor = m.end;
+  });
+  return result + hebrew.slice(cursor);
+};
+
+// Prompt block listing the abbreviations found in the texts and how they resolve here
+export const buildAbbreviationHints = (texts: string[]): string => {
+  const seen = new Map<string, string>();
+  texts.forEach(text => findAbbreviations(text).forEach(m => {
+    const abbr = normalizeHebrewQuotes(m.text).slice(m.prefix.length);
+    if (!seen.has(abbr)) seen.set(abbr, m.expansion);
+  }));
+  if (seen.size === 0) return '';
+  const lines = Array.from(seen, ([abbr, expansion]) => `- ${abbr} = ${expansion}`);
+  return `Abbreviations (Rashei Teivos) in this text and their meaning here:\n${lines.join('\n')}`;
+};
@@ -0,0 +1,138 @@
+import { AIConfig, AIProviderId, Settings } from "../types";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAICompatibleProvider } from "./providers/openAICompatibleProvider";
+import { createFakeProvider } from "./providers/fakeProvider";
+import { createProxyProvider, hasFreeTierProxy } from "./providers/proxyProvider";
+import { estimateTokens } from "./contextBudget";
+import { estimateCost, recordUsage, TokenUsage } from "./usageService";
+import type { ProxyInput } from "./taskPrompts";
+
+export type AITask = 'translate' | 'align' | 'outline' | 'quotes' | 'quiz' | 'chat';
+
+export interface GenerateRequest {
+  task: AITask;
+  prompt: string;
+  input?: ProxyInput; // What the free tier proxy is sent instead: it builds the prompt itself
+  model: string;
+  json?: boolean; // Ask the provider for a raw JSON response
+  schema?: Record<string, unknown>; // JSON Schema the response must follow (implies json)
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void; // Token counts, when the vendor reports them
+}
+
+export interface GenerateResult {
+  text: string;
+}
+
+export interface AIProvider {
+  id: AIProviderId;
+  generate: (request: GenerateRequest) => Promise<GenerateResult>;
+  // Yields text deltas as the model produces them
+  stream: (request: GenerateRequest) => AsyncIterable<string>;
+}
+
+export interface ProviderInfo {
+  id: AIProviderId;
+  label: string;
+  defaultModel: string;
+  defaultBaseUrl?: string;
+}
+
+export const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export const PROVIDERS: ProviderInfo[] = [
+  { id: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-2.5-flash' },
+  { id: 'openai-compatible', label: 'OpenAI-compatible / Local', defaultModel: 'gpt-4o-mini', defaultBaseUrl: OPENAI_BASE_URL },
+  { id: 'fake', label: 'Offline (Fake)', defaultModel: 'fake-1' },
+];
+
+export const getProviderInfo = (id: AIProviderId): ProviderInfo =>
+  PROVIDERS.find(p => p.id === id) || PROVIDERS[0];
+
+// Build the config used by the AI services from the user's settings
+export const configFromSettings = (settings: Settings, explicitKey?: string): AIConfig => {
+  const info = getProviderInfo(settings.aiProvider);
+  return {
+    provider: info.id,
+    model: settings.aiModel || info.defaultModel,
+    apiKey: explicitKey || settings.apiKey || '',
+    baseUrl: settings.aiBaseUrl || info.defaultBaseUrl,
+    promptOverrides: settings.promptOverrides,
+  };
+};
+
+// Hosted vendors need a key; local OpenAI-compatible servers, the fake provider
+// and the free tier proxy (which holds its own) don't
+export const requiresApiKey = (config: AIConfig): boolean => {
+  if (config.provider === 'fake' || config.provider === 'free-tier') return false;
+  if (config.provider === 'openai-compatible') {
+    return !config.baseUrl || config.baseUrl.replace(/\/+$/, '') === OPENAI_BASE_URL;
+  }
+  return true;
+};
+
+// False means the services fall back to the free tier
+export const isConfigured = (config: AIConfig): boolean =>
+  !requiresApiKey(config) || !!config.apiKey;
+
+// The same request sent through the free tier proxy, or null when there is none
+// (no backend configured) and the offline fixtures have to do
+export const freeTierConfig = (config: AIConfig): AIConfig | null => hasFreeTierProxy()
+  ? { ...config, provider: 'free-tier', model: 'free-tier', apiKey: '', baseUrl: undefined }
+  : null;
+
+const createProvider = (config: AIConfig): AIProvider => {
+  switch (config.provider) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(config.baseUrl || OPENAI_BASE_URL, config.apiKey);
+    case 'fake':
+      return createFakeProvider();
+    case 'free-tier':
+      return createProxyProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider(config.apiKey);
+  }
+};
+
+// Records every request in the usage ledger, estimating the tokens a vendor did not report.
+// Local servers and the fake provider cost nothing.
+const withUsage = (provider: AIProvider, config: AIConfig): AIProvider => {
+  const record = (request: GenerateRequest, reported: TokenUsage | null, text: string) => {
+    const usage = reported || { inputTokens: estimateTokens(request.prompt), outputTokens: estimateTokens(text) };
+    recordUsage({
+      ...usage,
+      task: request.task,
+      provider: provider.id,
+      model: request.model,
+      estimated: !reported,
+      cost: requiresApiKey(config) ? estimateCost(request.model, usage) : 0,
+      ...(config.book ? { bookId: config.book.id, bookTitle: config.book.title } : {})
+    });
+  };
+
+  return {
+    id: provider.id,
+    generate: async (request) => {
+      let reported: TokenUsage | null = null;
+      const result = await provider.generate({ ...request, onUsage: usage => { reported = usage; } });
+      record(request, reported, result.text);
+      return result;
+    },
+    // A stopped stream still used the tokens received so far
+    stream: async function* (request) {
+      let reported: TokenUsage | null = null;
+      let text = '';
+      try {
+        for await (const delta of provider.stream({ ...request, onUsage: usage => { reported = usage; } })) {
+          text += delta;
+          yield delta;
+        }
+      } finally {
+        record(request, reported, text);
+      }
+    }
+  };
+};
+
+export const getProvider = (config: AIConfig): AIProvider => withUsage(createProvider(config), config);
@@ -0,0 +1,83 @@
+import { WordAlignment } from "../types";
+
+// Word-by-word alignment between a Hebrew segment and its translation. The
+// model names Hebrew tokens by number and quotes the translation words they
+// became; the quotes are resolved to character spans here, so a reply that
+// misquotes a word loses that pair instead of the whole alignment.
+
+// A pair as the model returns it
+export interface RawAlignmentPair {
+  h: [number, number]; // First and last Hebrew token (inclusive)
+  t: string;           // Translation words, verbatim
+}
+
+// Hebrew tokens are whitespace-separated words, numbered from 0
+export const tokenizeHebrew = (hebrew: string): string[] => hebrew.split(/\s+/).filter(t => t.length > 0);
+
+// The translation as displayed in interlinear mode: tags removed, entities decoded
+export const translationText = (html: string): string =>
+  html
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Numbered tokens for the prompt, e.g. "0:בראשית 1:ברא"
+export const numberTokens = (hebrew: string): string =>
+  tokenizeHebrew(hebrew).map((token, i) => `${i}:${token}`).join(' ');
+
+// Turns quoted translation words into character spans, searching forward from
+// the previous pair so repeated words land on the right occurrence
+export const resolveAlignment = (pairs: RawAlignmentPair[], hebrew: string, translationHtml: string): WordAlignment[] => {
+  const tokenCount = tokenizeHebrew(hebrew).length;
+  const text = translationText(translationHtml);
+  const lower = text.toLowerCase();
+  const alignments: WordAlignment[] = [];
+  let cursor = 0;
+
+  pairs.forEach(pair => {
+    const [first, last] = pair.h.map(Number);
+    const quote = (pair.t || '').trim().toLowerCase();
+    if (!quote || !Number.isInteger(first) || !Number.isInteger(last)) return;
+    if (first < 0 || last < first || last >= tokenCount) return;
+
+    let start = lower.indexOf(quote, cursor);
+    if (start === -1) start = lower.indexOf(quote);
+    if (start === -1) return;
+
+    alignments.push({ hebrew: [first, last], translation: [start, start + quote.length] });
+    cursor = start + quote.length;
+  });
+
+  // Overlapping translation spans cannot both be highlighted; keep the earlier pair
+  return alignments
+    .sort((a, b) => a.translation[0] - b.translation[0])
+    .filter((a, i, all) => i === 0 || a.translation[0] >= all[i - 1].translation[1]);
+};
+
+// Offline stand-in: spreads the translation's words evenly over the Hebrew tokens
+export const proportionalPairs = (hebrew: string, translationHtml: string): RawAlignmentPair[] => {
+  const tokenCount = tokenizeHebrew(hebrew).length;
+  const words = translationText(translationHtml).split(' ').filter(w => w.length > 0);
+  if (tokenCount === 0 || words.length === 0) return [];
+
+  const pairs: RawAlignmentPair[] = [];
+  for (let i = 0; i < tokenCount; i++) {
+    const from = Math.floor(i * words.length / tokenCount);
+    const to = Math.max(from + 1, Math.floor((i + 1) * words.length / tokenCount));
+    const previous = pairs[pairs.length - 1];
+    // More Hebrew tokens than words: neighbouring tokens share one word
+    if (previous && previous.t === words.slice(from, to).join(' ') && Math.floor((i - 1) * words.length / tokenCount) === from) {
+      previous.h = [previous.h[0], i];
+      continue;
+    }
+    pairs.push({ h: [i, i], t: words.slice(from, to).join(' ') });
+  }
+  return pairs;
+};
@@ -0,0 +1,115 @@
+import { ChatResponse, CitationCheck, CitationReport, CitationStatus } from "../types";
+import { normalizeHebrewQuotes } from "./glossaryService";
+
+// Checks the [Section N] citations of a chat answer against the sections the
+// Reader sent as context (markedContext), and fuzzy-matches each quoted
+// Hebrew span against the text of the section it cites.
+
+const VERIFIED_THRESHOLD = 0.8;
+const WEAK_THRESHOLD = 0.5;
+
+const STATUS_RANK: Record<CitationStatus, number> = { verified: 0, weak: 1, invalid: 2 };
+
+// Splits "[Section N]: text" blocks back into their sections
+export const parseMarkedContext = (markedContext: string): Map<number, string> => {
+  const sections = new Map<number, string>();
+  const regex = /\[Section (\d+)\]:\s*([\s\S]*?)(?=\n*\[Section \d+\]:|$)/g;
+  for (const m of markedContext.matchAll(regex)) {
+    sections.set(parseInt(m[1]), m[2].trim());
+  }
+  return sections;
+};
+
+// Letters only: no niqqud, punctuation or quote marks
+const tokenize = (text: string): string[] =>
+  normalizeHebrewQuotes(text)
+    .replace(/[\u0591-\u05C7]/g, '')
+    .replace(/[^\u05D0-\u05EAa-zA-Z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(t => t.length > 0);
+
+// Words of four letters or more may differ by one edit (a missing yud/vav, a typo)
+const isNearMatch = (a: string, b: string): boolean => {
+  if (a === b) return true;
+  if (Math.min(a.length, b.length) < 4 || Math.abs(a.length - b.length) > 1) return false;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length] <= 1;
+};
+
+// Share of the quote's words found, in order, inside the best-matching window of the section
+export const quoteMatchScore = (quote: string, sectionText: string): number => {
+  const q = tokenize(quote);
+  const s = tokenize(sectionText);
+  if (q.length === 0 || s.length === 0) return 0;
+
+  let best = 0;
+  for (let start = 0; start < s.length; start++) {
+    let matched = 0;
+    let cursor = start;
+    // Allow a couple of skipped words on either side (paraphrased joins, dropped particles)
+    for (const word of q) {
+      const limit = Math.min(s.length, cursor + 3);
+      for (let k = cursor; k < limit; k++) {
+        if (isNearMatch(word, s[k])) {
+          matched++;
+          cursor = k + 1;
+          break;
+        }
+      }
+    }
+    best = Math.max(best, matched / q.length);
+    if (best === 1) break;
+  }
+  return best;
+};
+
+const checkCitation = (section: number, quote: string, sections: Map<number, string>): CitationCheck => {
+  const text = sections.get(section);
+  if (text === undefined) {
+    return { section, quote, status: 'invalid', score: 0, note: `Section ${section} does not exist in this text` };
+  }
+  if (!quote.trim()) {
+    return { section, quote, status: 'weak', score: 0, note: 'No quote given to check' };
+  }
+
+  const score = quoteMatchScore(quote, text);
+  if (score >= VERIFIED_THRESHOLD) return { section, quote, status: 'verified', score };
+
+  // The quote may simply be attributed to the wrong section
+  let elsewhere: number | null = null;
+  sections.forEach((other, n) => {
+    if (elsewhere === null && n !== section && quoteMatchScore(quote, other) >= VERIFIED_THRESHOLD) elsewhere = n;
+  });
+  const note = elsewhere !== null
+    ? `Quote found in Section ${elsewhere}, not ${section}`
+    : score >= WEAK_THRESHOLD ? 'Quote only partly matches the section' : 'Quote not found in the section';
+  return { section, quote, status: elsewhere !== null || score < WEAK_THRESHOLD ? 'invalid' : 'weak', score, note };
+};
+
+export const verifyCitations = (response: ChatResponse, markedContext: string): CitationReport => {
+  const sections = parseMarkedContext(markedContext);
+  const checks = response.citations.map(c => checkCitation(c.section, c.quote, sections));
+
+  // Inline markers without an entry in "citations" can still be checked for existence
+  const inline = new Set<number>();
+  response.answer.forEach(p => {
+    for (const m of p.matchAll(/\[Section (\d+)\]/g)) inline.add(parseInt(m[1]));
+  });
+  inline.forEach(section => {
+    if (!checks.some(c => c.section === section)) checks.push(checkCitation(section, '', sections));
+  });
+
+  const worst: Record<number, CitationStatus> = {};
+  checks.forEach(c => {
+    if (!worst[c.section] || STATUS_RANK[c.status] > STATUS_RANK[worst[c.section]]) worst[c.section] = c.status;
+  });
+  const missing = Object.keys(worst).map(Number).filter(n => !sections.has(n));
+  return { checks, sections: worst, missing };
+};
@@ -0,0 +1,16 @@
+import { normalizeHebrewQuotes } from "./glossaryService";
+
+// Content addressing shared by the caches and the offline fixtures: the same
+// Hebrew, however it was pointed or quoted, hashes the same.
+
+// Strips niqqud/cantillation, unifies quote marks and whitespace
+export const normalizeHebrew = (hebrew: string) =>
+  normalizeHebrewQuotes(hebrew.normalize('NFC'))
+    .replace(/[\u0591-\u05BD\u05BF\u05C1\u05C2\u05C4\u05C5\u05C7]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
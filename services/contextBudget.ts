@@ -0,0 +1,140 @@
+import { ContextReport } from "../types";
+import { parseMarkedContext, quoteMatchScore } from "./citationService";
+
+// Keeps chat prompts inside a token budget: recent turns stay verbatim, older
+// turns are folded into a short digest, and a long chapter is cut down to the
+// sections nearest the selection or the sections the conversation cited.
+
+export const DEFAULT_PROMPT_BUDGET = 12000; // Tokens for history + context, well under every model's window
+
+const HISTORY_SHARE = 0.25;    // Of the budget, for the conversation (digest + recent turns)
+const RECENT_TURNS = 4;        // Messages whose citations count as the current focus
+const DIGEST_ANSWER_CHARS = 160;
+
+interface HistoryMessage {
+  role: 'user' | 'model';
+  content: string;
+}
+
+export interface BudgetInput {
+  context: string;
+  history: HistoryMessage[];
+  focusText?: string; // The reader's selection, if any
+  maxTokens?: number;
+}
+
+export interface BudgetedPrompt {
+  context: string;
+  history: string; // Recent turns, verbatim
+  digest: string;  // Older turns, condensed ('' when nothing was folded)
+  report: ContextReport;
+}
+
+// Rough count: Hebrew runs about two characters per token, Latin text about four
+export const estimateTokens = (text: string): number => {
+  const hebrew = (text.match(/[\u0590-\u05FF]/g) || []).length;
+  return Math.ceil(hebrew / 2 + (text.length - hebrew) / 4);
+};
+
+const stripHtml = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+const formatTurn = (m: HistoryMessage) => `${m.role === 'user' ? 'User' : 'Scholar'}: ${m.content}`;
+
+// One line per older turn: the question, and the opening of the answer
+const digestTurn = (m: HistoryMessage) => {
+  const text = stripHtml(m.content);
+  if (m.role === 'user') return `- Asked: ${text}`;
+  const firstSentence = text.split(/(?<=[.!?])\s/)[0];
+  return `- Answered: ${firstSentence.length > DIGEST_ANSWER_CHARS ? `${firstSentence.slice(0, DIGEST_ANSWER_CHARS)}…` : firstSentence}`;
+};
+
+const budgetHistory = (history: HistoryMessage[], maxTokens: number) => {
+  // Walk back from the newest turn, keeping whole turns while they fit (leaving room for the digest)
+  const recent: HistoryMessage[] = [];
+  let used = 0;
+  for (let i = history.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(formatTurn(history[i]));
+    if (used + cost > maxTokens * 0.7) break;
+    recent.unshift(history[i]);
+    used += cost;
+  }
+
+  const older = history.slice(0, history.length - recent.length);
+  let digestLines = older.map(digestTurn);
+  // Rolling: the oldest lines go first when even the digest is too long
+  while (digestLines.length > 0 && estimateTokens(digestLines.join('\n')) > maxTokens - used) {
+    digestLines = digestLines.slice(1);
+  }
+
+  return {
+    history: recent.map(formatTurn).join('\n'),
+    digest: digestLines.join('\n'),
+    summarizedTurns: older.length,
+  };
+};
+
+// Sections the answer should stay close to: the selection, then sections cited in the conversation
+const findFocusSections = (sections: Map<number, string>, focusText: string | undefined, history: HistoryMessage[]): number[] => {
+  const focus: number[] = [];
+  if (focusText && focusText.trim()) {
+    sections.forEach((text, n) => {
+      if (quoteMatchScore(focusText, text) >= 0.8) focus.push(n);
+    });
+  }
+  history.slice(-RECENT_TURNS).forEach(m => {
+    for (const match of m.content.matchAll(/\[Section (\d+)\]/g)) focus.push(parseInt(match[1]));
+  });
+  return Array.from(new Set(focus)).filter(n => sections.has(n));
+};
+
+const budgetContext = (context: string, focus: number[], sections: Map<number, string>, maxTokens: number) => {
+  if (estimateTokens(context) <= maxTokens) return { context, dropped: [] as number[], truncated: false };
+
+  // Unmarked context (e.g. a long selection): keep the beginning
+  if (sections.size === 0) {
+    const ratio = maxTokens / estimateTokens(context);
+    return { context: `${context.slice(0, Math.floor(context.length * ratio))} …`, dropped: [], truncated: true };
+  }
+
+  const numbers = Array.from(sections.keys());
+  const distance = (n: number) => focus.length > 0 ? Math.min(...focus.map(f => Math.abs(f - n))) : n;
+  const kept = new Set<number>();
+  let used = 0;
+  [...numbers].sort((a, b) => distance(a) - distance(b) || a - b).forEach(n => {
+    const cost = estimateTokens(`[Section ${n}]: ${sections.get(n)}\n\n`);
+    if (used + cost <= maxTokens) {
+      kept.add(n);
+      used += cost;
+    }
+  });
+
+  return {
+    context: numbers.filter(n => kept.has(n)).map(n => `[Section ${n}]: ${sections.get(n)}`).join('\n\n'),
+    dropped: numbers.filter(n => !kept.has(n)),
+    truncated: false,
+  };
+};
+
+export const budgetPrompt = ({ context, history, focusText, maxTokens = DEFAULT_PROMPT_BUDGET }: BudgetInput): BudgetedPrompt => {
+  const historyBudget = Math.floor(maxTokens * HISTORY_SHARE);
+  const conversation = budgetHistory(history, historyBudget);
+  const historyUsed = estimateTokens(conversation.history + conversation.digest);
+
+  const sections = parseMarkedContext(context);
+  const focus = findFocusSections(sections, focusText, history);
+  const trimmed = budgetContext(context, focus, sections, maxTokens - historyUsed);
+
+  return {
+    context: trimmed.context,
+    history: conversation.history,
+    digest: conversation.digest,
+    report: {
+      estimatedTokens: historyUsed + estimateTokens(trimmed.context),
+      summarizedTurns: conversation.summarizedTurns,
+      droppedSections: trimmed.dropped,
+      keptSections: sections.size - trimmed.dropped.length,
+      contextTruncated: trimmed.truncated,
+      condensed: conversation.summarizedTurns > 0 || trimmed.dropped.length > 0 || trimmed.truncated,
+    },
+  };
+};
@@ -0,0 +1,423 @@
+import { normalizeHebrew } from "./contentHash";
+import { expandAbbreviations } from "./abbreviationService";
+
+// Built-in dictionary of Chassidic and Kabbalistic terms, for the Reader's
+// "Define" action. Terms found here are answered instantly; anything else is
+// asked of the model.
+
+export interface DictionaryTerm {
+  id: string; // Referenced by other terms' related lists
+  hebrew: string[]; // Spellings (singular, plural, abbreviated); the first is the headword
+  term: string; // Transliteration, as the glossary renders it
+  english: string; // Short gloss
+  definition: string;
+  hebrewDefinition: string;
+  related: string[];
+  sources: string[]; // Sample places the term is discussed
+}
+
+export const DICTIONARY: DictionaryTerm[] = [
+  // The Infinite and creation
+  {
+    id: 'ein-sof', hebrew: ['אין סוף', 'א"ס', 'אינסוף'], term: 'Ein Sof', english: 'The Infinite',
+    definition: 'G-d as He is beyond all limitation and definition, prior to any revelation or sefirah.',
+    hebrewDefinition: 'הקב"ה כפי שהוא למעלה מכל גבול והגדרה, קודם כל גילוי וספירה.',
+    related: ['or-ein-sof', 'tzimtzum', 'elokus'], sources: ['Tanya ch. 48', 'Etz Chaim, Shaar 1'],
+  },
+  {
+    id: 'or-ein-sof', hebrew: ['אור אין סוף', 'אוא"ס', 'אור א"ס'], term: 'Or Ein Sof', english: 'The infinite light',
+    definition: 'The light, or revelation, that radiates from Ein Sof. It precedes the tzimtzum and is the source of all the worlds.',
+    hebrewDefinition: 'האור והגילוי הנמשך מאין סוף, שקודם הצמצום, והוא מקור כל העולמות.',
+    related: ['ein-sof', 'tzimtzum', 'kav'], sources: ['Etz Chaim, Shaar 1', 'Tanya ch. 48'],
+  },
+  {
+    id: 'tzimtzum', hebrew: ['צמצום', 'צמצומים'], term: 'Tzimtzum', english: 'Contraction',
+    definition: 'The withdrawal and concealment of the infinite light, which makes room for finite worlds. In Chassidus it is a concealment from the created, not a change in G-d.',
+    hebrewDefinition: 'סילוק והעלם אור אין סוף כדי שיהיה מקום לעולמות בעלי גבול. לפי החסידות הוא העלם לגבי הנבראים ולא שינוי בו ית\'.',
+    related: ['or-ein-sof', 'kav', 'hishtalshelus', 'helem'], sources: ['Etz Chaim, Shaar 1', 'Tanya, Shaar HaYichud VehaEmunah ch. 7', 'Tanya ch. 49'],
+  },
+  {
+    id: 'kav', hebrew: ['קו', 'הקו'], term: 'Kav', english: 'The line',
+    definition: 'The thin ray of infinite light drawn into the space left by the tzimtzum, through which the worlds are given life by measure.',
+    hebrewDefinition: 'קו אור דק הנמשך מאור אין סוף לתוך החלל שאחר הצמצום, ועל ידו מתהוים העולמות בהדרגה ובמדה.',
+    related: ['tzimtzum', 'or-ein-sof', 'hishtalshelus'], sources: ['Etz Chaim, Shaar 1'],
+  },
+  {
+    id: 'hishtalshelus', hebrew: ['השתלשלות', 'סדר ההשתלשלות', 'סדר השתלשלות'], term: 'Hishtalshelus', english: 'The chain of descent',
+    definition: 'The ordered chain of worlds and levels by which the divine light descends, each link the source of the one below it.',
+    hebrewDefinition: 'סדר העולמות והמדרגות שבהם יורד האור האלקי ממדרגה למדרגה, כשלשלת שכל טבעת בה מקור לשלמטה ממנה.',
+    related: ['tzimtzum', 'olamos', 'sefiros'], sources: ['Tanya ch. 49'],
+  },
+  {
+    id: 'yesh-meayin', hebrew: ['יש מאין', 'יש מאין ואפס המוחלט'], term: 'Yesh MeAyin', english: 'Something from nothing',
+    definition: 'Creation ex nihilo. Chassidus teaches it is renewed at every moment by the divine word within each creature.',
+    hebrewDefinition: 'בריאת דבר מהאין והאפס המוחלט. לפי החסידות הבריאה מתחדשת בכל רגע על ידי הדבר ה\' שבכל נברא.',
+    related: ['yesh', 'ayin', 'elokus'], sources: ['Tanya, Shaar HaYichud VehaEmunah chs. 1-2'],
+  },
+  {
+    id: 'yesh', hebrew: ['יש', 'היש'], term: 'Yesh', english: 'Something; a separate existence',
+    definition: 'Existence that feels itself independent. In avodah, the ego that must be nullified.',
+    hebrewDefinition: 'מציאות המרגישה את עצמה כדבר נפרד. בעבודה: הישות והגאוה שצריך לבטלן.',
+    related: ['ayin', 'yesh-meayin', 'bittul-hayesh'], sources: ['Tanya, Shaar HaYichud VehaEmunah ch. 3'],
+  },
+  {
+    id: 'ayin', hebrew: ['אין', 'האין'], term: 'Ayin', english: 'Nothing; the divine no-thing',
+    definition: 'The divine source that cannot be grasped and so is called "nothing" from the creature\'s view; also the state of bittul.',
+    hebrewDefinition: 'המקור האלקי שאינו נתפס, ולכן נקרא אין לגבי הנבראים; וגם מדריגת הביטול.',
+    related: ['yesh', 'yesh-meayin', 'bittul'], sources: ['Tanya, Shaar HaYichud VehaEmunah ch. 3'],
+  },
+  {
+    id: 'elokus', hebrew: ['אלקות', 'אלוקות', 'אלהות'], term: 'Elokus', english: 'G-dliness',
+    definition: 'The divine reality as it is revealed and perceived; the true existence behind every created thing.',
+    hebrewDefinition: 'המציאות האלקית כפי שהיא מתגלה ומושגת, והיא אמיתית מציאות כל נברא.',
+    related: ['ein-sof', 'gilui', 'yesh-meayin'], sources: [],
+  },
+  {
+    id: 'memaleh', hebrew: ['ממלא כל עלמין', 'ממכ"ע', 'ממלא'], term: 'Memaleh', english: 'The light that fills all worlds',
+    definition: 'The immanent divine light that enters each world according to its capacity and gives it life from within.',
+    hebrewDefinition: 'האור האלקי המתלבש בכל עולם ונברא לפי ערכו ומחיה אותו מבפנים.',
+    related: ['sovev', 'pnimi', 'or-ein-sof'], sources: ['Zohar III 225a', 'Tanya ch. 48'],
+  },
+  {
+    id: 'sovev', hebrew: ['סובב כל עלמין', 'סוכ"ע', 'סובב'], term: 'Sovev', english: 'The light that encompasses all worlds',
+    definition: 'The transcendent divine light, too great to enter the worlds in a measured way; it affects them from above.',
+    hebrewDefinition: 'האור האלקי שלמעלה מהתלבשות בעולמות במדה ובגבול, ומשפיע בהם בבחינת מקיף.',
+    related: ['memaleh', 'makif', 'or-ein-sof'], sources: ['Zohar III 225a', 'Tanya ch. 48'],
+  },
+  {
+    id: 'gilui', hebrew: ['גילוי', 'גלוי'], term: 'Gilui', english: 'Revelation',
+    definition: 'The disclosure of divine light or of a hidden quality, so that it is felt and known.',
+    hebrewDefinition: 'התגלות האור האלקי או כח נעלם, באופן שמורגש ונודע.',
+    related: ['helem', 'hamshachah', 'elokus'], sources: [],
+  },
+  {
+    id: 'helem', hebrew: ['העלם', 'העלם והסתר'], term: 'He\'elem', english: 'Concealment',
+    definition: 'The hiding of divine light. It is the condition for a world that feels itself separate, and the darkness that avodah turns to light.',
+    hebrewDefinition: 'הסתרת האור האלקי, שבגללה העולם מרגיש את עצמו נפרד, והחושך שהעבודה מהפכת לאור.',
+    related: ['gilui', 'tzimtzum', 'kelipah'], sources: ['Tanya ch. 36'],
+  },
+  {
+    id: 'hamshachah', hebrew: ['המשכה', 'המשכות'], term: 'Hamshachah', english: 'Drawing down',
+    definition: 'Drawing divine light or influence down from a higher level into a lower one, especially through Torah and mitzvos.',
+    hebrewDefinition: 'המשכת אור והשפעה אלקית ממדרגה עליונה למטה, ובפרט על ידי תורה ומצוות.',
+    related: ['gilui', 'dirah-betachtonim'], sources: ['Tanya ch. 35'],
+  },
+
+  // Sefiros and worlds
+  {
+    id: 'sefiros', hebrew: ['ספירות', 'ספירה', 'ע"ס', 'עשר ספירות'], term: 'Sefiros', english: 'The ten divine attributes',
+    definition: 'The ten attributes through which the infinite light is expressed and channelled to the worlds, mirrored in the powers of the soul.',
+    hebrewDefinition: 'עשר המדות שבהן מתגלה אור אין סוף ונמשך לעולמות, וכנגדן כחות הנפש.',
+    related: ['chabad', 'middos', 'keser', 'oros', 'keilim'], sources: ['Tikkunei Zohar, second introduction (Pasach Eliyahu)', 'Sefer Yetzirah 1:2'],
+  },
+  {
+    id: 'keser', hebrew: ['כתר'], term: 'Keser', english: 'Crown',
+    definition: 'The level above the ten sefiros, bridging Ein Sof and the sefiros; in the soul, will and delight.',
+    hebrewDefinition: 'המדרגה שלמעלה מעשר הספירות, הממצעת בין אין סוף לספירות; ובנפש: הרצון והתענוג.',
+    related: ['ratzon', 'taanug', 'sefiros'], sources: [],
+  },
+  {
+    id: 'chabad', hebrew: ['חב"ד', 'חכמה בינה ודעת'], term: 'Chabad', english: 'Wisdom, Understanding and Knowledge',
+    definition: 'The three intellectual sefiros and powers of the soul: chochmah, binah and daas. They are the source of the emotions.',
+    hebrewDefinition: 'שלש הספירות והכחות השכליים: חכמה, בינה ודעת, שהן אם ושורש למדות.',
+    related: ['chochmah', 'binah', 'daas', 'middos'], sources: ['Tanya ch. 3'],
+  },
+  {
+    id: 'chochmah', hebrew: ['חכמה'], term: 'Chochmah', english: 'Wisdom',
+    definition: 'The first flash of an idea before it is developed; read as koach mah, the potential of what is. It is associated with bittul.',
+    hebrewDefinition: 'הברק הראשון של השכל קודם שנתפשט, כ"ח מ"ה, ובה שורש הביטול.',
+    related: ['binah', 'daas', 'chabad', 'bittul'], sources: ['Tanya ch. 3', 'Tanya ch. 18'],
+  },
+  {
+    id: 'binah', hebrew: ['בינה'], term: 'Binah', english: 'Understanding',
+    definition: 'The development of the idea in breadth and depth, understanding one thing from another; the power of hisbonenus.',
+    hebrewDefinition: 'התפשטות השכל לאורך ולרוחב והבנת דבר מתוך דבר, והוא כח ההתבוננות.',
+    related: ['chochmah', 'daas', 'hisbonenus'], sources: ['Tanya ch. 3'],
+  },
+  {
+    id: 'daas', hebrew: ['דעת'], term: 'Daas', english: 'Knowledge',
+    definition: 'Binding and attaching the mind firmly to what it understands, so the understanding lives and gives birth to emotions.',
+    hebrewDefinition: 'ההתקשרות וההתחברות בתוקף אל מה שמבין, עד שההשגה נעשית חיה ומולידה את המדות.',
+    related: ['chochmah', 'binah', 'middos'], sources: ['Tanya ch. 3'],
+  },
+  {
+    id: 'middos', hebrew: ['מדות', 'מידות', 'מדה', 'ז"מ', 'ז\' מדות'], term: 'Middos', english: 'The emotional attributes',
+    definition: 'The seven emotive sefiros and soul powers, from chesed to malchus, born of the intellect.',
+    hebrewDefinition: 'שבע הספירות וכחות הנפש הרגשיים, מחסד עד מלכות, הנולדים מן השכל.',
+    related: ['chabad', 'sefiros', 'ahavah', 'yirah'], sources: ['Tanya ch. 3'],
+  },
+  {
+    id: 'malchus', hebrew: ['מלכות', 'מל\''], term: 'Malchus', english: 'Sovereignty',
+    definition: 'The last sefirah, through which the worlds come into being; also speech. It has no light of its own, only what it receives.',
+    hebrewDefinition: 'הספירה האחרונה, שממנה מתהוים העולמות, והיא בחינת דבור; לית לה מגרמה כלום.',
+    related: ['sefiros', 'shechinah', 'middos'], sources: ['Tanya ch. 52'],
+  },
+  {
+    id: 'oros', hebrew: ['אורות', 'אור'], term: 'Oros', english: 'Lights',
+    definition: 'The divine revelation that fills the sefiros; infinite in itself, in contrast to the vessels that limit it.',
+    hebrewDefinition: 'הגילוי האלקי שבספירות, שמצד עצמו בלי גבול, לעומת הכלים המגבילים אותו.',
+    related: ['keilim', 'sefiros', 'tohu'], sources: [],
+  },
+  {
+    id: 'keilim', hebrew: ['כלים', 'כלי'], term: 'Keilim', english: 'Vessels',
+    definition: 'The structures that receive, limit and define the lights, giving each sefirah its particular character.',
+    hebrewDefinition: 'הכלים המקבלים, מגבילים ומגדירים את האורות, ונותנים לכל ספירה את תכונתה.',
+    related: ['oros', 'sefiros', 'tohu'], sources: [],
+  },
+  {
+    id: 'olamos', hebrew: ['אבי"ע', 'ארבע עולמות', 'עולמות'], term: 'Olamos', english: 'The four worlds',
+    definition: 'Atzilus, Beriah, Yetzirah and Asiyah: the four general levels of the chain of descent, from emanation to physical action.',
+    hebrewDefinition: 'אצילות, בריאה, יצירה ועשיה: ארבע המדרגות הכלליות שבסדר ההשתלשלות, מן האצילות עד העשיה הגשמית.',
+    related: ['atzilus', 'biya', 'hishtalshelus'], sources: ['Isaiah 43:7', 'Tanya ch. 39'],
+  },
+  {
+    id: 'atzilus', hebrew: ['אצילות', 'אצי\''], term: 'Atzilus', english: 'The World of Emanation',
+    definition: 'The highest world, in which the light is still wholly one with its source and there is no sense of separate existence.',
+    hebrewDefinition: 'העולם העליון, שבו האור מיוחד לגמרי במקורו ואין בו הרגש מציאות נפרדת; איהו וחיוהי חד.',
+    related: ['olamos', 'biya', 'sefiros'], sources: ['Tikkunei Zohar, introduction 3b', 'Tanya ch. 39'],
+  },
+  {
+    id: 'biya', hebrew: ['בי"ע', 'בריאה יצירה עשיה', 'בריאה יצירה ועשיה'], term: 'Beriah, Yetzirah, Asiyah', english: 'The three lower worlds',
+    definition: 'The worlds of Creation, Formation and Action, in which created beings feel themselves separate from their source.',
+    hebrewDefinition: 'עולמות בריאה, יצירה ועשיה, שבהם הנבראים מרגישים את עצמם כמציאות נפרדת ממקורם.',
+    related: ['olamos', 'atzilus', 'kelipas-nogah'], sources: ['Tanya ch. 39'],
+  },
+  {
+    id: 'tohu', hebrew: ['תהו', 'תוהו', 'עולם התהו'], term: 'Tohu', english: 'Chaos',
+    definition: 'The primordial world of intense lights in narrow vessels, which shattered; its sparks fell into the lower worlds.',
+    hebrewDefinition: 'עולם שקדם, של אורות מרובים בכלים מועטים, שנשברו כליו ונפלו ניצוציו למטה.',
+    related: ['tikkun', 'nitzotzos', 'oros', 'keilim'], sources: ['Bereishis Rabbah 3:7'],
+  },
+  {
+    id: 'tikkun', hebrew: ['תיקון', 'תקון', 'עולם התיקון'], term: 'Tikkun', english: 'Rectification',
+    definition: 'The ordered world of measured lights in broad vessels that followed Tohu, and the work of restoring its fallen sparks.',
+    hebrewDefinition: 'העולם המסודר של אורות מועטים בכלים מרובים שבא אחרי התהו, ועבודת תיקון הניצוצות שנפלו.',
+    related: ['tohu', 'birurim'], sources: [],
+  },
+
+  // Souls and service
+  {
+    id: 'nefesh-haelokis', hebrew: ['נפש האלקית', 'נה"א', 'נפש האלוקית'], term: 'Nefesh HaElokis', english: 'The G-dly soul',
+    definition: 'The soul that is "truly a part of G-d above", whose nature is to cleave to its source.',
+    hebrewDefinition: 'הנפש שהיא חלק אלוק ממעל ממש, שטבעה לדבקה במקורה.',
+    related: ['nefesh-habahamis', 'ahavah', 'beinoni'], sources: ['Tanya ch. 2'],
+  },
+  {
+    id: 'nefesh-habahamis', hebrew: ['נפש הבהמית', 'נה"ב', 'נפש החיונית'], term: 'Nefesh HaBahamis', english: 'The animal soul',
+    definition: 'The life-force that animates the body, drawn from kelipas nogah; the seat of natural drives and self-concern.',
+    hebrewDefinition: 'הנפש המחיה את הגוף, שמקורה מקליפת נוגה, ובה התאוות והמדות הטבעיות.',
+    related: ['nefesh-haelokis', 'kelipas-nogah', 'iskafya'], sources: ['Tanya ch. 1'],
+  },
+  {
+    id: 'beinoni', hebrew: ['בינוני', 'בינונים'], term: 'Beinoni', english: 'The intermediate person',
+    definition: 'One who never sins in thought, speech or deed, though the animal soul remains as strong as ever; the level within reach of everyone.',
+    hebrewDefinition: 'מי שאינו עובר עבירה במחשבה, דבור ומעשה, אף שנפשו הבהמית בתקפה; מדה שכל אדם יכול לה.',
+    related: ['tzaddik', 'iskafya', 'nefesh-habahamis'], sources: ['Tanya ch. 12', 'Tanya ch. 14'],
+  },
+  {
+    id: 'tzaddik', hebrew: ['צדיק', 'צדיקים'], term: 'Tzaddik', english: 'The righteous person',
+    definition: 'One in whom the animal soul\'s evil has been transformed to good, leaving only love of G-d.',
+    hebrewDefinition: 'מי שהפך את רע נפשו הבהמית לטוב, ואין בו אלא אהבת ה\'.',
+    related: ['beinoni', 'ishapcha'], sources: ['Tanya ch. 10'],
+  },
+  {
+    id: 'iskafya', hebrew: ['אתכפיא', 'אתכפייא'], term: 'Iskafya', english: 'Subjugation',
+    definition: 'Overpowering the animal soul\'s desires while its nature is still unchanged; the service of the beinoni.',
+    hebrewDefinition: 'כפיית תאוות הנפש הבהמית אף שטבעה עדיין לא נשתנה; עבודת הבינוני.',
+    related: ['ishapcha', 'beinoni', 'nefesh-habahamis'], sources: ['Tanya ch. 27', 'Zohar II 128b'],
+  },
+  {
+    id: 'ishapcha', hebrew: ['אתהפכא', 'אתהפכא חשוכא לנהורא'], term: 'Is\'hapcha', english: 'Transformation',
+    definition: 'Turning darkness itself into light, so that what opposed holiness comes to serve it; the service of the tzaddik.',
+    hebrewDefinition: 'הפיכת החושך עצמו לאור, שהמתנגד לקדושה נעשה כלי לה; עבודת הצדיק.',
+    related: ['iskafya', 'tzaddik', 'birurim'], sources: ['Tanya ch. 10', 'Zohar I 4a'],
+  },
+  {
+    id: 'bittul', hebrew: ['ביטול', 'בטול', 'בטל'], term: 'Bittul', english: 'Self-nullification',
+    definition: 'Setting aside one\'s separate sense of self before G-d. Holiness is defined as what is batel to Him.',
+    hebrewDefinition: 'ביטול הרגש עצמו כמציאות נפרדת לפני ה\'. הקדושה היא מה שבטל אליו.',
+    related: ['bittul-hayesh', 'bittul-bimetzius', 'chochmah', 'kedushah'], sources: ['Tanya ch. 6', 'Tanya ch. 35'],
+  },
+  {
+    id: 'bittul-hayesh', hebrew: ['ביטול היש', 'בטול היש'], term: 'Bittul HaYesh', english: 'Nullification of the ego',
+    definition: 'Nullifying one\'s pride and self-importance while still feeling oneself to exist.',
+    hebrewDefinition: 'ביטול הישות והגאוה, בעוד שמרגיש את עצמו כמציאות.',
+    related: ['bittul', 'bittul-bimetzius', 'yesh'], sources: [],
+  },
+  {
+    id: 'bittul-bimetzius', hebrew: ['ביטול במציאות', 'בטול במציאות'], term: 'Bittul BiMetzius', english: 'Nullification of existence',
+    definition: 'Complete nullification, in which no sense of separate existence remains at all; the state of Atzilus.',
+    hebrewDefinition: 'ביטול גמור, שאין בו הרגש מציאות נפרדת כלל; בחינת אצילות.',
+    related: ['bittul', 'bittul-hayesh', 'atzilus'], sources: [],
+  },
+  {
+    id: 'hisbonenus', hebrew: ['התבוננות', 'להתבונן'], term: 'Hisbonenus', english: 'Contemplation',
+    definition: 'Sustained, detailed meditation on G-dliness, especially before prayer, until the understanding stirs love and awe.',
+    hebrewDefinition: 'עיון מעמיק ומפורט בגדולת ה\', ובפרט קודם התפלה, עד שמתעוררות אהבה ויראה.',
+    related: ['binah', 'daas', 'ahavah', 'yirah'], sources: ['Tanya ch. 3', 'Kuntres HaTefillah'],
+  },
+  {
+    id: 'ahavah', hebrew: ['אהבה', 'אהוי"ר', 'דחילו ורחימו'], term: 'Ahavah', english: 'Love of G-d',
+    definition: 'The longing of the soul to cleave to G-d. With awe, one of the two "wings" that lift Torah and mitzvos upward.',
+    hebrewDefinition: 'תשוקת הנפש לדבקה בה\'. עם היראה, הן שתי הכנפיים המעלות את התורה והמצוות.',
+    related: ['yirah', 'middos', 'hisbonenus'], sources: ['Tanya ch. 4', 'Tanya ch. 41'],
+  },
+  {
+    id: 'yirah', hebrew: ['יראה', 'יראת שמים', 'יראה עילאה', 'יראה תתאה'], term: 'Yirah', english: 'Awe of G-d',
+    definition: 'Awe and fear before G-d\'s greatness, from the lower fear that restrains sin to the higher awe of bittul.',
+    hebrewDefinition: 'יראה ופחד מפני גדולת ה\', מיראה תתאה שמונעת מחטא עד יראה עילאה של ביטול.',
+    related: ['ahavah', 'middos', 'bittul'], sources: ['Tanya ch. 4', 'Tanya ch. 41', 'Tanya ch. 43'],
+  },
+  {
+    id: 'mesirus-nefesh', hebrew: ['מסירות נפש', 'מס"נ', 'מסירת נפש'], term: 'Mesirus Nefesh', english: 'Self-sacrifice',
+    definition: 'Giving oneself over entirely to G-d, beyond reason; it stems from the hidden love inherited from the Patriarchs.',
+    hebrewDefinition: 'מסירת עצמו לגמרי לה\' למעלה מטעם ודעת, הנובעת מהאהבה המסותרת שירשנו מהאבות.',
+    related: ['ahavah', 'bittul', 'chochmah'], sources: ['Tanya ch. 18', 'Tanya ch. 19'],
+  },
+  {
+    id: 'ratzo-vashov', hebrew: ['רצוא ושוב', 'רצוא', 'שוב'], term: 'Ratzo VaShov', english: 'Running and returning',
+    definition: 'The soul\'s yearning to rise out of the body toward G-d, and its return to serve Him in the world below.',
+    hebrewDefinition: 'תשוקת הנפש לצאת מן הגוף ולעלות אל ה\', וחזרתה לעבדו למטה בעולם.',
+    related: ['bittul', 'dirah-betachtonim'], sources: ['Ezekiel 1:14', 'Sefer Yetzirah 1:8'],
+  },
+  {
+    id: 'dirah-betachtonim', hebrew: ['דירה בתחתונים', 'דירה לו ית\' בתחתונים'], term: 'Dirah BaTachtonim', english: 'A dwelling in the lower realms',
+    definition: 'G-d\'s desire for a home in the lowest world, which is the purpose of creation and is fulfilled through Torah and mitzvos.',
+    hebrewDefinition: 'תאוות הקב"ה להיות לו דירה בעולם התחתון, שהיא תכלית הבריאה ונשלמת על ידי תורה ומצוות.',
+    related: ['hamshachah', 'birurim'], sources: ['Midrash Tanchuma, Naso 16', 'Tanya ch. 36'],
+  },
+  {
+    id: 'birurim', hebrew: ['בירורים', 'בירור', 'ברורים'], term: 'Birurim', english: 'Refinements',
+    definition: 'Extracting the divine sparks from the physical world by using it for holy purposes.',
+    hebrewDefinition: 'העלאת ניצוצות הקדושה מן העולם הגשמי על ידי השימוש בו לשם שמים.',
+    related: ['nitzotzos', 'kelipas-nogah', 'tikkun'], sources: ['Tanya ch. 37'],
+  },
+  {
+    id: 'nitzotzos', hebrew: ['ניצוצות', 'ניצוץ', 'נצוצות'], term: 'Nitzotzos', english: 'Sparks',
+    definition: 'Fragments of divine light that fell with the shattering of Tohu and are hidden within all things, awaiting refinement.',
+    hebrewDefinition: 'חלקי אור אלקי שנפלו בשבירת הכלים ומלובשים בכל הדברים, ומחכים לבירורם.',
+    related: ['birurim', 'tohu'], sources: ['Tanya ch. 37'],
+  },
+  {
+    id: 'teshuvah', hebrew: ['תשובה', 'תשובה עילאה', 'תשובה תתאה'], term: 'Teshuvah', english: 'Return',
+    definition: 'The soul\'s return to its source. Lower teshuvah repairs sin; higher teshuvah is an ever deeper cleaving to G-d.',
+    hebrewDefinition: 'חזרת הנפש למקורה. תשובה תתאה מתקנת את החטא, ותשובה עילאה היא דביקות נוספת בה\'.',
+    related: ['ahavah', 'bittul'], sources: ['Tanya, Igeres HaTeshuvah'],
+  },
+
+  // Holiness and its opposite
+  {
+    id: 'kedushah', hebrew: ['קדושה', 'קדושת'], term: 'Kedushah', english: 'Holiness',
+    definition: 'Whatever is batel to G-d and draws its life from Him openly.',
+    hebrewDefinition: 'כל מה שבטל אליו ית\' ומקבל חיותו ממנו בגלוי.',
+    related: ['bittul', 'kelipah', 'sitra-achra'], sources: ['Tanya ch. 6'],
+  },
+  {
+    id: 'kelipah', hebrew: ['קליפה', 'קליפות', 'ג\' קליפות הטמאות'], term: 'Kelipah', english: 'Husk; shell',
+    definition: 'The forces that conceal holiness, as a shell covers fruit, by asserting an existence separate from G-d.',
+    hebrewDefinition: 'הכחות המסתירים על הקדושה כקליפה על הפרי, על ידי הרגש מציאות נפרדת מה\'.',
+    related: ['sitra-achra', 'kelipas-nogah', 'kedushah'], sources: ['Tanya ch. 6'],
+  },
+  {
+    id: 'kelipas-nogah', hebrew: ['קליפת נוגה', 'נוגה', 'קליפת נגה'], term: 'Kelipas Nogah', english: 'The translucent husk',
+    definition: 'The intermediate husk containing both good and evil. The permitted world belongs to it, and it can be elevated to holiness.',
+    hebrewDefinition: 'קליפה ממוצעת שיש בה טוב ורע, שממנה כל הדברים המותרים, ויכולה לעלות לקדושה.',
+    related: ['kelipah', 'birurim', 'nefesh-habahamis'], sources: ['Tanya ch. 7'],
+  },
+  {
+    id: 'sitra-achra', hebrew: ['סטרא אחרא', 'ס"א', 'סט"א'], term: 'Sitra Achra', english: 'The other side',
+    definition: 'The realm opposed to holiness; anything that feels itself separate from G-d rather than batel to Him.',
+    hebrewDefinition: 'הצד שכנגד הקדושה: כל מה שמרגיש את עצמו דבר נפרד ואינו בטל אליו ית\'.',
+    related: ['kelipah', 'kedushah'], sources: ['Tanya ch. 6'],
+  },
+  {
+    id: 'shechinah', hebrew: ['שכינה', 'השכינה', 'שכינתו'], term: 'Shechinah', english: 'The Divine Presence',
+    definition: 'The indwelling presence of G-d in the worlds, associated with the sefirah of malchus.',
+    hebrewDefinition: 'השראת נוכחות ה\' בעולמות, והיא בחינת ספירת המלכות.',
+    related: ['malchus', 'memaleh'], sources: ['Tanya ch. 35', 'Tanya ch. 52'],
+  },
+
+  // Levels within the soul and the light
+  {
+    id: 'ratzon', hebrew: ['רצון', 'הרצון'], term: 'Ratzon', english: 'Will',
+    definition: 'The faculty above intellect that directs all the soul\'s powers; the outer aspect of keser.',
+    hebrewDefinition: 'הכח שלמעלה מן השכל ומנהיג את כל כחות הנפש; חיצוניות הכתר.',
+    related: ['taanug', 'keser'], sources: [],
+  },
+  {
+    id: 'taanug', hebrew: ['תענוג', 'התענוג'], term: 'Taanug', english: 'Delight',
+    definition: 'The innermost faculty of the soul, the source of will; the inner aspect of keser.',
+    hebrewDefinition: 'הכח הפנימי ביותר שבנפש, שממנו נמשך הרצון; פנימיות הכתר.',
+    related: ['ratzon', 'keser', 'pnimi'], sources: [],
+  },
+  {
+    id: 'pnimi', hebrew: ['פנימי', 'אור פנימי', 'פנימיות'], term: 'Pnimi', english: 'Inner',
+    definition: 'Light or influence that enters its recipient and is grasped by it; also the inner dimension of a thing.',
+    hebrewDefinition: 'אור והשפעה המתלבשים בתוך המקבל ונתפסים בו; וגם הפנימיות של הדבר.',
+    related: ['makif', 'memaleh'], sources: [],
+  },
+  {
+    id: 'makif', hebrew: ['מקיף', 'אור מקיף', 'מקיפים'], term: 'Makif', english: 'Encompassing',
+    definition: 'Light too great to be absorbed by its recipient, which affects it from above without being grasped.',
+    hebrewDefinition: 'אור שלמעלה מכלי המקבל, שמשפיע בו מלמעלה בלי שיתפס בו.',
+    related: ['pnimi', 'sovev'], sources: [],
+  },
+];
+
+const byId = new Map(DICTIONARY.map(term => [term.id, term]));
+
+// Spellings compare without niqqud, punctuation or the maqaf
+const normalizeTerm = (text: string) =>
+  normalizeHebrew(text).replace(/[־\-.,;:!?()[\]]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const lookup = new Map<string, DictionaryTerm>(
+  DICTIONARY.flatMap(term => term.hebrew.map(h => [normalizeTerm(h), term] as [string, DictionaryTerm]))
+);
+
+const PREFIXES = /^[ובלמהשכד]/;
+
+// Exact spelling first, then with up to two one-letter prefixes removed (ובביטול → ו + ב + ביטול)
+const resolve = (text: string): DictionaryTerm | null => {
+  for (let cut = 0; cut <= 2 && cut < text.length; cut++) {
+    if (cut > 0 && !PREFIXES.test(text[cut - 1])) break;
+    const term = lookup.get(text.slice(cut));
+    if (term) return term;
+  }
+  return null;
+};
+
+export const getTerm = (id: string): DictionaryTerm | null => byId.get(id) || null;
+
+// The entry for a selected word or phrase, in Hebrew (abbreviated or not) or transliterated
+export const lookupTerm = (text: string): DictionaryTerm | null => {
+  const hebrew = normalizeTerm(text);
+  if (!hebrew) return null;
+  const found = resolve(hebrew) || resolve(normalizeTerm(expandAbbreviations(hebrew)));
+  if (found) return found;
+  const latin = text.trim().toLowerCase();
+  return DICTIONARY.find(term => term.term.toLowerCase() === latin || term.english.toLowerCase() === latin) || null;
+};
+
+// Terms matching a query, best first: headword matches, then glosses, then definitions
+export const searchTerms = (query: string, limit = 20): DictionaryTerm[] => {
+  const hebrew = normalizeTerm(query);
+  const latin = query.trim().toLowerCase();
+  if (!latin) return [];
+
+  const score = (term: DictionaryTerm) => {
+    const spellings = term.hebrew.map(normalizeTerm);
+    const names = [term.term.toLowerCase(), term.english.toLowerCase()];
+    if (spellings.includes(hebrew) || names.includes(latin)) return 4;
+    if (spellings.some(s => s.startsWith(hebrew)) || names.some(n => n.startsWith(latin))) return 3;
+    if (spellings.some(s => s.includes(hebrew)) || names.some(n => n.includes(latin))) return 2;
+    if (term.definition.toLowerCase().includes(latin) || normalizeTerm(term.hebrewDefinition).includes(hebrew)) return 1;
+    return 0;
+  };
+
+  return DICTIONARY
+    .map(term => ({ term, score: score(term) }))
+    .filter(r => r.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(r => r.term);
+};
@@ -1,56 +1,72 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { MOCK_TRANSLATION } from "../constants";
+import { TARGET_LANGUAGES } from "../constants";
+import { AIConfig, AnswerConfidence, ChatResponse, ContextReport, GlossaryEntry, TargetLanguage, TranslationStyle, WordAlignment, OutlineNode, QuoteMatch, SourceCorpus } from "../types";
+import { freeTierConfig, getProvider, isConfigured } from "./aiProvider";
+import { budgetPrompt } from "./contextBudget";
+import { numberTokens, proportionalPairs, RawAlignmentPair, resolveAlignment, translationText } from "./alignmentService";
+import { findQuotes, locateQuote, mergeQuotes } from "./quoteService";
+import { parseMarkedContext } from "./citationService";
+import { buildLocateQuestions, parseQuiz, QuizDraft } from "./quizService";
+import { offlineChat, offlineTranslations } from "./offlineFixtures";
+import { isQuotaExhausted } from "./providers/proxyProvider";
+import { renderPrompt } from "./promptRegistry";
+import { buildChatPrompt, buildTranslatePrompt, CHAT_RESPONSE_SCHEMA } from "./taskPrompts";
+import { isOneOf, isRecord, stringOr } from "./jsonShape";
 
-const MODEL_NAME = 'gemini-2.5-flash';
+// Style of the translations stored in the library (batch jobs)
+export const LIBRARY_TRANSLATION_STYLE: TranslationStyle = 'flowing';
 
-// Helper to get client
-const getClient = (apiKey: string) => {
-  if (!apiKey) throw new Error("API Key missing");
-  return new GoogleGenAI({ apiKey });
+// The JSON array a model answered with. Some endpoints fence it in Markdown or
+// wrap it in an object ({"translations": [...]}); both are unwrapped.
+const parseJsonArray = (text: string): unknown[] => {
+  const parsed: unknown = JSON.parse(text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+  if (Array.isArray(parsed)) return parsed;
+  if (parsed && typeof parsed === 'object') {
+    const arrays = Object.values(parsed).filter(Array.isArray);
+    if (arrays.length === 1) return arrays[0];
+  }
+  throw new Error('Expected a JSON array');
 };
 
-export const translateParagraph = async (segments: string[], apiKey: string): Promise<string[]> => {
-  // Free Tier Simulation
-  if (!apiKey) {
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    // Return mock translations corresponding to the number of segments requested
-    // Logic: Cycle through mock translations if more segments are requested than available
-    return segments.map((_, i) => MOCK_TRANSLATION[i % MOCK_TRANSLATION.length]);
+export const translateParagraph = async (segments: string[], config: AIConfig, glossary: GlossaryEntry[] = [], language: TargetLanguage = 'en', style: TranslationStyle = 'flowing'): Promise<string[]> => {
+  // Free Tier: the project's proxy, or recorded translations (offline fixtures)
+  // without one or when it fails. A used-up quota is reported, not papered over.
+  if (!isConfigured(config)) {
+    const proxied = freeTierConfig(config);
+    if (!proxied) return offlineTranslations(segments, language, style);
+    try {
+      return await translateParagraph(segments, proxied, glossary, language, style);
+    } catch (error) {
+      if (isQuotaExhausted(error)) throw error;
+      return offlineTranslations(segments, language, style);
+    }
   }
 
   try {
-    const ai = getClient(apiKey);
-    const prompt = `
-      Task: Translate the following Chassidic Hebrew segments into English. 
-      The segments form a continuous paragraph.
-      
-      Strict Formatting Rules:
-      1. **Output**: Return ONLY a JSON Array of strings. e.g. ["Translation 1", "Translation 2"].
-      2. **Bolding**: Use HTML <b> tags ONLY for direct quotes from Psukim (Scripture) or standard Rabbinic phrases.
-      3. **Commentary**: Interjected commentary must be in <span class="opacity-60 italic"> tags.
-      4. **Consistency**: Maintain the flow between segments.
-
-      Input Segments:
-      ${JSON.stringify(segments)}
-    `;
-
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: prompt,
-      config: {
-        responseMimeType: 'application/json'
-      }
+    const provider = getProvider(config);
+    const input = { segments, language, style };
+    const { prompt } = buildTranslatePrompt(input, glossary, config.promptOverrides);
+
+    const response = await provider.generate({
+      task: 'translate',
+      prompt,
+      input: { task: 'translate', ...input },
+      model: config.model,
+      json: true
     });
 
     const text = response.text || "[]";
-    let translations: string[] = [];
+    let parsed: unknown[];
     try {
-        translations = JSON.parse(text);
+        parsed = parseJsonArray(text);
     } catch (e) {
         console.error("Failed to parse translation JSON", text);
-        translations = [text];
+        parsed = [text];
+    }
+    if (!parsed.every((t): t is string => typeof t === 'string')) {
+      throw new Error("Model returned translations in an unexpected shape");
     }
+    const translations = parsed as string[];
     
     // Cleanup formatting
     return translations.map(t => t.replace(/\*\*(.*?)\*\*/g, '<b>$1</b>'));
@@ -61,119 +77,314 @@ export const translateParagraph = async (segments: string[], apiKey: string): Pr
   }
 };
 
-export const chatWithAI = async (query: string, context: string, apiKey: string, history: {role: 'user' | 'model', content: string}[] = []): Promise<{ text: string, followUps: string[] }> => {
+// Word-by-word alignment of translated segments, for the Reader's interlinear mode
+export const alignTranslations = async (items: { hebrew: string; translation: string }[], config: AIConfig): Promise<WordAlignment[][]> => {
+  // Free Tier Simulation: spread the words evenly
+  if (!isConfigured(config)) {
+    return items.map(item => resolveAlignment(proportionalPairs(item.hebrew, item.translation), item.hebrew, item.translation));
+  }
+
+  try {
+    const provider = getProvider(config);
+    const input = items.map(item => ({ tokens: numberTokens(item.hebrew), translation: translationText(item.translation) }));
+    const { prompt } = renderPrompt('align', { segments: JSON.stringify(input) }, config.promptOverrides);
+
+    const response = await provider.generate({
+      task: 'align',
+      prompt,
+      model: config.model,
+      json: true
+    });
+
+    let parsed: unknown = [];
+    try {
+      parsed = parseJsonArray(response.text || "[]");
+    } catch (e) {
+      console.error("Failed to parse alignment JSON", response.text);
+    }
+    const entries = Array.isArray(parsed) ? parsed : [];
+    return items.map((item, i) => {
+      const pairs = Array.isArray(entries[i]) ? entries[i] as RawAlignmentPair[] : [];
+      return resolveAlignment(pairs.filter(p => p && Array.isArray(p.h)), item.hebrew, item.translation);
+    });
+
+  } catch (error) {
+    console.error("Alignment error:", error);
+    throw error;
+  }
+};
+
+const OUTLINE_SECTION_CHARS = 300; // Each section is abbreviated; the opening shows its role
+const OUTLINE_MAX_DEPTH = 3;
+
+// Keeps well-formed nodes inside 1..sectionCount, ordered, with children inside their parent
+export const parseOutline = (value: unknown, sectionCount: number, depth = 1, bounds: [number, number] = [1, sectionCount]): OutlineNode[] => {
+  if (!Array.isArray(value) || depth > OUTLINE_MAX_DEPTH) return [];
+  return value
+    .flatMap((n): OutlineNode[] => {
+      if (!isRecord(n) || typeof n.title !== 'string' || !n.title.trim()) return [];
+      if (!Number.isInteger(Number(n.start)) || !Number.isInteger(Number(n.end))) return [];
+      const start = Math.max(bounds[0], Number(n.start));
+      const end = Math.min(bounds[1], Number(n.end));
+      const children = parseOutline(n.children, sectionCount, depth + 1, [start, end]);
+      return [{ title: n.title.trim(), start, end, ...(children.length > 0 ? { children } : {}) }];
+    })
+    .filter(n => n.start <= n.end)
+    .sort((a, b) => a.start - b.start);
+};
+
+// Hierarchical outline of a chapter (maamar) for the Minimap
+export const generateOutline = async (sections: string[], config: AIConfig, language: TargetLanguage = 'en'): Promise<OutlineNode[]> => {
+  // No outline in the free tier; the Minimap keeps its numbered sections
+  if (!isConfigured(config)) return [];
+
+  try {
+    const provider = getProvider(config);
+    const abbreviated = sections
+      .map((text, i) => `[Section ${i + 1}]: ${text.length > OUTLINE_SECTION_CHARS ? `${text.slice(0, OUTLINE_SECTION_CHARS)}…` : text}`)
+      .join('\n');
+    const { prompt } = renderPrompt('outline', {
+      language: TARGET_LANGUAGES[language].label,
+      maxDepth: OUTLINE_MAX_DEPTH,
+      sections: abbreviated
+    }, config.promptOverrides);
+
+    const response = await provider.generate({
+      task: 'outline',
+      prompt,
+      model: config.model,
+      json: true
+    });
+
+    try {
+      return parseOutline(parseJsonArray(response.text || "[]"), sections.length);
+    } catch (e) {
+      console.error("Failed to parse outline JSON", response.text);
+      return [];
+    }
+  } catch (error) {
+    console.error("Outline error:", error);
+    throw error;
+  }
+};
+
+const SOURCE_CORPORA: SourceCorpus[] = ['tanakh', 'mishnah', 'talmud', 'midrash', 'zohar'];
+
+// AI fallback for quotations the offline index does not know. Every quote the
+// model names must be found in the segment; the index's own matches win overlaps.
+export const detectQuotes = async (segments: string[], config: AIConfig): Promise<QuoteMatch[][]> => {
+  const known = segments.map(findQuotes);
+  // The free tier has only the offline index
+  if (!isConfigured(config)) return known;
+
+  try {
+    const provider = getProvider(config);
+    const { prompt, version } = renderPrompt('quotes', { segments: JSON.stringify(segments) }, config.promptOverrides);
+
+    const response = await provider.generate({
+      task: 'quotes',
+      prompt,
+      model: config.model,
+      json: true
+    });
+
+    let parsed: unknown = [];
+    try {
+      parsed = parseJsonArray(response.text || "[]");
+    } catch (e) {
+      console.error("Failed to parse quotes JSON", response.text);
+    }
+    const entries = Array.isArray(parsed) ? parsed : [];
+    return segments.map((segment, i) => {
+      const found = (Array.isArray(entries[i]) ? entries[i] : [])
+        .flatMap((q: unknown): QuoteMatch[] => {
+          if (!isRecord(q) || typeof q.quote !== 'string' || typeof q.book !== 'string' || !q.chapter || !isOneOf(SOURCE_CORPORA, q.corpus)) return [];
+          const span = locateQuote(segment, q.quote);
+          if (!span) return [];
+          return [{
+            ...span,
+            text: segment.slice(span.start, span.end),
+            reference: {
+              corpus: q.corpus,
+              book: q.book,
+              hebrewBook: stringOr(q.hebrewBook),
+              chapter: String(q.chapter),
+              ...(q.verse ? { verse: String(q.verse) } : {})
+            },
+            origin: 'ai',
+            promptVersion: version
+          }];
+        });
+      return mergeQuotes(known[i], found);
+    });
+
+  } catch (error) {
+    console.error("Quote detection error:", error);
+    throw error;
+  }
+};
+
+const QUIZ_QUESTION_COUNT = 6;
+
+// Review questions for a chapter, each grounded in a [Section X] of the marked context
+export const generateQuiz = async (markedContext: string, config: AIConfig, language: TargetLanguage = 'en'): Promise<QuizDraft[]> => {
+  const sections = parseMarkedContext(markedContext);
+
+  // Free Tier Simulation: "which section says…" questions need no model
+  if (!isConfigured(config)) return buildLocateQuestions(sections, QUIZ_QUESTION_COUNT);
+
+  try {
+    const provider = getProvider(config);
+    const budgeted = budgetPrompt({ context: markedContext, history: [] });
+    const { prompt, version } = renderPrompt('quiz', {
+      count: QUIZ_QUESTION_COUNT,
+      language: TARGET_LANGUAGES[language].label,
+      text: budgeted.context
+    }, config.promptOverrides);
+
+    const response = await provider.generate({
+      task: 'quiz',
+      prompt,
+      model: config.model,
+      json: true
+    });
+
+    let questions: QuizDraft[] = [];
+    try {
+      questions = parseQuiz(parseJsonArray(response.text || "[]"), sections).map(q => ({ ...q, promptVersion: version }));
+    } catch (e) {
+      console.error("Failed to parse quiz JSON", response.text);
+    }
+    // Nothing grounded came back: the offline questions are better than none
+    return questions.length > 0 ? questions : buildLocateQuestions(sections, QUIZ_QUESTION_COUNT);
+  } catch (error) {
+    console.error("Quiz error:", error);
+    throw error;
+  }
+};
+
+export interface ChatOptions {
+  onToken?: (partialHtml: string) => void; // Called with the answer paragraphs received so far
+  signal?: AbortSignal;
+  focusText?: string; // Selection to keep nearby sections of when the context must be trimmed
+  maxPromptTokens?: number;
+  onContextReport?: (report: ContextReport) => void; // What was summarized or dropped to fit the budget
+}
+
+// Canned (non-model) replies are written as HTML with <br><br> paragraph breaks
+const cannedResponse = (html: string, followUps: string[]): ChatResponse => ({
+  answer: html.split(/<br><br>/).map(p => p.trim()).filter(p => p.length > 0),
+  citations: [],
+  followUps,
+  confidence: 'high'
+});
+
+const CONFIDENCE_LEVELS: AnswerConfidence[] = ['high', 'medium', 'low'];
+
+// Validates the model's JSON against the contract, filling safe defaults
+export const parseChatResponse = (rawText: string): ChatResponse => {
+  try {
+    const data: unknown = JSON.parse(rawText);
+    if (!isRecord(data)) throw new Error('Expected a JSON object');
+    const strings = (value: unknown): string[] =>
+      Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+    return {
+      answer: typeof data.answer === 'string' ? [data.answer] : strings(data.answer),
+      citations: (Array.isArray(data.citations) ? data.citations : [])
+        .filter(isRecord)
+        .filter(c => Number.isInteger(Number(c.section)))
+        .map(c => ({ section: Number(c.section), quote: stringOr(c.quote) })),
+      followUps: strings(data.followUps),
+      confidence: isOneOf(CONFIDENCE_LEVELS, data.confidence) ? data.confidence : 'medium'
+    };
+  } catch (e) {
+    console.error("Failed to parse chat JSON", rawText);
+    return { answer: rawText.trim() ? [rawText.trim()] : [], citations: [], followUps: [], confidence: 'low' };
+  }
+};
+
+// Reads the answer paragraphs out of a still-incomplete JSON reply, including
+// the last, unterminated one, so they can be shown while streaming
+const extractPartialAnswer = (rawText: string): string[] => {
+  const start = rawText.match(/"answer"\s*:\s*\[/);
+  if (!start || start.index === undefined) return [];
+
+  const paragraphs: string[] = [];
+  let i = start.index + start[0].length;
+  while (i < rawText.length) {
+    const char = rawText[i];
+    if (char === ']') break;
+    if (char !== '"') { i++; continue; }
+
+    // Scan one string literal, honouring escapes
+    let j = i + 1;
+    let literal = '';
+    while (j < rawText.length && rawText[j] !== '"') {
+      literal += rawText[j] === '\\' ? rawText.slice(j, j += 2) : rawText[j++];
+    }
+    try {
+      paragraphs.push(JSON.parse(`"${literal.replace(/\\$/, '')}"`));
+    } catch (e) {
+      paragraphs.push(literal);
+    }
+    i = j + 1;
+  }
+  return paragraphs;
+};
+
+// Plain HTML form of an answer, used for history and legacy rendering
+export const chatResponseToHtml = (response: ChatResponse) => response.answer.join('<br><br>');
+
+export const chatWithAI = async (query: string, context: string, config: AIConfig, history: {role: 'user' | 'model', content: string}[] = [], options: ChatOptions = {}): Promise<ChatResponse> => {
   const lowerQuery = query.toLowerCase();
 
   // Special Handling for "How do I get an API Key" logic
   if (lowerQuery.includes("how do i get") && (lowerQuery.includes("api key") || lowerQuery.includes("key"))) {
       await new Promise(resolve => setTimeout(resolve, 1000));
-      return {
-          text: `<b>How to get a Free Google Gemini API Key:</b><br><br>
+      return cannedResponse(`<b>How to get a Free Google Gemini API Key:</b><br><br>
           1. Go to <a href="https://aistudio.google.com/app/apikey" target="_blank" class="underline font-bold">Google AI Studio</a>.<br>
           2. Click <b>"Create API Key"</b>.<br>
           3. Select a Google Cloud project (or create a new one).<br>
           4. Copy the key and paste it into your Profile on Chassidus.ai.<br><br>
-          <b>Privacy Note:</b> Your key is stored locally on your device. Chassidus.ai is open-source and never shares your data or your key with anyone. Using your own key ensures unlimited, private access.`,
-          followUps: ["Is it free?", "Is my data secure?"]
-      };
+          <b>Privacy Note:</b> Your key is stored locally on your device. Chassidus.ai is open-source and never shares your data or your key with anyone. Using your own key ensures unlimited, private access.`, ["Is it free?", "Is my data secure?"]);
   }
   
-  // Free Tier Simulation / No Key
-  if (!apiKey) {
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    // Check for "Privacy" question
-    if (lowerQuery.includes("private") || lowerQuery.includes("secure") || lowerQuery.includes("data")) {
-        return {
-            text: `<b>Free, Secure, and Private.</b><br><br>
-            When you use Chassidus.ai with your own API key, you communicate directly with Google's servers. No data is shared with Chassidus.ai creators, and we do not track your conversations.<br><br>
-            Your API key is saved in a cookie on your browser and is never transmitted to our backend (because we don't have one!).`,
-            followUps: ["How do I get an API Key?"]
-        };
-    }
-
-    // High Quality "Mock" Responses
-    if (lowerQuery.includes('summary') || lowerQuery.includes('summarize')) {
-        return {
-            text: "This section explores the fundamental relationship between <b>Torah</b> and <b>Creation</b>.<br><br>The text explains that the world was created through the \"Wisdom of Torah\". Specifically, it cites the Zohar: <i>\"Istakel B'Oraita U'bara Alma\"</i> (He looked into the Torah and created the world).<br><br>This means Torah is not just a history book or a legal code given <i>after</i> creation, but the very blueprint <i>for</i> creation. The Divine wisdom contained within Torah (specifically the \"Ten Utterances\" found in Genesis) serves as the DNA for all existence.<br><br><span class='opacity-50 text-xs uppercase tracking-widest'>[Free Trial Mode] • Add your key for unlimited access.</span>",
-            followUps: ["How do I get an API Key?", "Explain 'Istakel B'Oraita'", "What are the Ten Utterances?"]
-        };
-    } else if (lowerQuery.includes('oros') || lowerQuery.includes('keilim') || lowerQuery.includes('lights')) {
-         return {
-            text: "The relationship between <b>Oros</b> (Lights) and <b>Keilim</b> (Vessels) is the central dynamic of existence.<br><br><b>Lights (Oros)</b> refer to raw, infinite Divine energy/expression. It is the \"content\" or \"inspiration\".<br><b>Vessels (Keilim)</b> refer to the definitions, limitations, and structures that contain that energy. It is the \"context\" or \"words\".<br><br>The text mentions that in the World of <b>Tohu</b>, the Lights were too intense for the Vessels, causing a shattering. In our world of <b>Tikun</b>, we work to build broad, strong vessels (through Torah and Mitzvos) that can safely contain the infinite Light without breaking.<br><br><span class='opacity-50 text-xs uppercase tracking-widest'>[Free Trial Mode] • Add your key for unlimited access.</span>",
-            followUps: ["How do I get an API Key?", "What is Tohu?", "How does this apply to me?"]
-        };
-    } else {
-        return {
-            text: "The Chassidic Scholar is analyzing your request.<br><br>The text delves into the concept of <i>Chochmah Ila'ah</i> (Supernal Wisdom) and its descent into creation. It distinguishes between the wisdom found in the Torah itself versus the wisdom used to engineer the physical world.<br><br><b>To continue the conversation and ask specific questions, please add your free API Key.</b><br><br><span class='opacity-50 text-xs uppercase tracking-widest'>[Free Trial Mode]</span>",
-            followUps: ["How do I get an API Key?", "Is my data secure?", "Summarize the text"]
-        };
+  // Free Tier: the project's proxy, or recorded answers (offline fixtures)
+  if (!isConfigured(config)) {
+    const proxied = freeTierConfig(config);
+    if (!proxied) return offlineChat(query, context);
+    try {
+      return await chatWithAI(query, context, proxied, history, options);
+    } catch (error) {
+      if (isQuotaExhausted(error) || options.signal?.aborted) throw error;
+      return offlineChat(query, context);
     }
   }
 
   // Real API Call
   try {
-    const ai = getClient(apiKey);
+    const provider = getProvider(config);
     
-    const historyContext = history.map(msg => `${msg.role === 'user' ? 'User' : 'Scholar'}: ${msg.content}`).join('\n');
-
-    const prompt = `
-      Role: Expert Chassidic Scholar.
-      
-      Previous Conversation:
-      ${historyContext}
-
-      Current Context (Text is divided into [Section X]):
-      "${context}"
-
-      User Question: "${query}"
-
-      Instructions:
-      1. Answer clearly and deeply.
-      2. **Citations**: When you reference the text, you MUST cite the source using the format **[Section X]**. This is critical for the user to verify sources.
-      3. **Formatting**:
-         - Use <b>text</b> for bold (concepts, terms).
-         - Use <i>text</i> for italics.
-         - Use <b><i>text</i></b> for titles or heavy emphasis.
-         - Use <br><br> for paragraph breaks.
-      4. **Structure**: Split response into short, digestible paragraphs.
-      5. Suggest 3 follow-up questions in JSON format: <<<FOLLOWUPS>>>["Q1", "Q2", "Q3"]<<<END>>>
-    `;
-
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: prompt,
-    });
+    const input = { query, context, history, focusText: options.focusText };
+    const { prompt, report } = buildChatPrompt(input, options.maxPromptTokens, config.promptOverrides);
+    options.onContextReport?.(report);
 
-    const rawText = response.text || "";
-    
-    let cleanText = rawText;
-    let followUps: string[] = [];
-    
-    const match = rawText.match(/<<<FOLLOWUPS>>>([\s\S]*?)<<<END>>>/);
-    if (match && match[1]) {
-      try {
-        followUps = JSON.parse(match[1]);
-        cleanText = rawText.replace(match[0], '').trim();
-      } catch (e) {
-        console.error("Failed to parse followups", e);
+    let rawText = "";
+    try {
+      // Stream deltas to the caller while accumulating the full reply
+      const request = { task: 'chat' as const, prompt, input: { task: 'chat' as const, ...input }, model: config.model, schema: CHAT_RESPONSE_SCHEMA, signal: options.signal };
+      for await (const delta of provider.stream(request)) {
+        rawText += delta;
+        options.onToken?.(extractPartialAnswer(rawText).join('<br><br>'));
       }
+    } catch (error) {
+      // Stopped by the user: keep whatever arrived so far
+      if (!options.signal?.aborted) throw error;
+      return { answer: extractPartialAnswer(rawText), citations: [], followUps: [], confidence: 'low' };
     }
-    
-    // Convert markdown to HTML (preserve [Section X] for frontend parsing)
-    cleanText = cleanText
-      .replace(/\*\*\*(.*?)\*\*\*/g, '<b><i>$1</i></b>')
-      .replace(/\*\*(.*?)\*\*/g, '<b>$1</b>')
-      .replace(/\*(.*?)\*/g, '<i>$1</i>')
-      .replace(/\n\n/g, '<br><br>')
-      .replace(/\n/g, '<br>');
-
-    // Remove leading/trailing breaks and excessive breaks
-    cleanText = cleanText
-        .replace(/^(<br>)+|(<br>)+$/g, '')
-        .replace(/(<br>\s*){3,}/g, '<br><br>');
-
-    return { text: cleanText, followUps };
+
+    return parseChatResponse(rawText);
   } catch (error) {
     console.error("Chat error:", error);
     throw error;
@@ -0,0 +1,69 @@
+import { GlossaryEntry } from "../types";
+
+// Built-in terminology. Users can override or extend these in their profile.
+export const DEFAULT_GLOSSARY: GlossaryEntry[] = [
+  { hebrew: ['ח"ע', 'חכמה עילאה', 'חכמה עלאה'], english: "Chochmah Ila'ah", note: 'Supernal Wisdom' },
+  { hebrew: ['ח"ת', 'חכמה תתאה'], english: "Chochmah Tata'ah", note: 'Lower Wisdom' },
+  { hebrew: ['מ"ע', 'מים עליונים'], english: 'Upper Waters' },
+  { hebrew: ['מ"ת', 'מים תחתונים'], english: 'Lower Waters' },
+  { hebrew: ['אורות'], english: 'Oros', note: 'Lights' },
+  { hebrew: ['כלים'], english: 'Keilim', note: 'Vessels' },
+  { hebrew: ['ממלא', 'ממכ"ע', 'ממלא כל עלמין'], english: 'Memaleh', note: 'the light that fills all worlds' },
+  { hebrew: ['סובב', 'סוכ"ע', 'סובב כל עלמין'], english: 'Sovev', note: 'the light that encompasses all worlds' },
+  { hebrew: ['א"ס', 'אין סוף', 'אוא"ס'], english: 'Ein Sof' },
+  { hebrew: ['השתלשלות', 'סדר ההשתלשלות'], english: 'Hishtalshelus', note: 'the chain of descent' },
+  { hebrew: ['ביטול'], english: 'Bittul', note: 'self-nullification' },
+  { hebrew: ['אתכפיא'], english: 'Iskafya', note: 'subjugation' },
+  { hebrew: ['מע"ב', 'מעשה בראשית'], english: 'Work of Creation' },
+  { hebrew: ['ספירות'], english: 'Sefiros' },
+];
+
+// Gershayim (״) and geresh (׳) are typed both ways; compare on plain quotes
+export const normalizeHebrewQuotes = (text: string) =>
+  text.replace(/[״“”]/g, '"').replace(/[׳‘’`]/g, "'");
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches a term as a whole word, allowing the usual one-letter prefixes (ו, ב, ל, מ, ה, ש, כ, ד)
+const termRegex = (term: string) =>
+  new RegExp(`(^|[^\\u05D0-\\u05EA"'])[ובלמהשכד]{0,2}${escapeRegex(normalizeHebrewQuotes(term))}(?![\\u05D0-\\u05EA])`);
+
+const normalizeEnglish = (text: string) =>
+  text.replace(/<[^>]*>/g, ' ').replace(/[‘’`]/g, "'").toLowerCase();
+
+// User overrides replace any default sharing one of their Hebrew spellings
+export const mergeGlossary = (overrides: GlossaryEntry[] = []): GlossaryEntry[] => {
+  const overridden = new Set(overrides.flatMap(o => o.hebrew.map(normalizeHebrewQuotes)));
+  const defaults = DEFAULT_GLOSSARY.filter(d => !d.hebrew.some(h => overridden.has(normalizeHebrewQuotes(h))));
+  return [...defaults, ...overrides.filter(o => o.hebrew.length > 0 && o.english.trim())];
+};
+
+// Entries whose Hebrew appears in the text
+export const findGlossaryTerms = (hebrew: string, glossary: GlossaryEntry[]): GlossaryEntry[] => {
+  const text = normalizeHebrewQuotes(hebrew);
+  return glossary.filter(entry => entry.hebrew.some(term => termRegex(term).test(text)));
+};
+
+// Prompt block listing only the terms that occur in the segments
+export const buildGlossaryPrompt = (segments: string[], glossary: GlossaryEntry[]): string => {
+  const terms = findGlossaryTerms(segments.join(' '), glossary);
+  if (terms.length === 0) return '';
+  const lines = terms.map(t => `- ${t.hebrew.join(' / ')} → "${t.english}"${t.note ? ` (${t.note})` : ''}`);
+  return `Terminology (render these terms EXACTLY as given):\n${lines.join('\n')}`;
+};
+
+// Returns the required English renderings a translation failed to use
+export const findGlossaryViolations = (hebrew: string, translation: string, glossary: GlossaryEntry[]): string[] => {
+  const english = normalizeEnglish(translation);
+  return findGlossaryTerms(hebrew, glossary)
+    .filter(entry => !english.includes(normalizeEnglish(entry.english)))
+    .map(entry => entry.english);
+};
+
+// Short, stable fingerprint of a glossary (part of the translation cache key)
+export const glossaryVersion = (glossary: GlossaryEntry[]): string => {
+  const text = JSON.stringify(glossary.map(e => [e.hebrew, e.english]));
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+};
@@ -0,0 +1,10 @@
+// Type guards for JSON parsed from model replies, which is untrusted until checked
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  values.some(v => v === value);
+
+export const stringOr = (value: unknown, fallback = ''): string =>
+  typeof value === 'string' ? value : fallback;
@@ -0,0 +1,106 @@
+import { ChatResponse, TargetLanguage, TranslationStyle } from "../types";
+import { normalizeHebrew, sha256 } from "./contentHash";
+import { parseMarkedContext } from "./citationService";
+
+// Offline mode: recorded responses served when no AI provider is configured.
+// Fixture files live in public/fixtures and are listed in its index.json. A
+// chapter fixture maps segment hashes to recorded translations and keywords to
+// recorded answers; a file without translations holds answers for any chapter.
+// Tests and offline builds can install fixtures directly with setOfflineFixtures.
+
+export interface ChatFixture {
+  keywords: string[]; // Matched case-insensitively against the question
+  response: ChatResponse;
+}
+
+export interface FixtureFile {
+  id: string;
+  title?: string;
+  language?: TargetLanguage; // Of the recorded translations
+  style?: TranslationStyle;
+  translations?: Record<string, string>; // segmentKey(hebrew) → translation
+  chat?: ChatFixture[];
+  fallback?: ChatResponse; // When no keyword matches
+}
+
+const FIXTURE_ROOT = '/fixtures';
+
+let fixtures: Promise<FixtureFile[]> | null = null;
+
+export const setOfflineFixtures = (files: FixtureFile[]) => {
+  fixtures = Promise.resolve(files);
+};
+
+const fetchFixtures = async (): Promise<FixtureFile[]> => {
+  const index = await fetch(`${FIXTURE_ROOT}/index.json`).then(r => r.json()) as { files: string[] };
+  return Promise.all(index.files.map(file => fetch(`${FIXTURE_ROOT}/${file}`).then(r => r.json() as Promise<FixtureFile>)));
+};
+
+// Loaded once; a failed load is retried on the next call
+export const loadOfflineFixtures = (): Promise<FixtureFile[]> => {
+  if (!fixtures) {
+    fixtures = fetchFixtures().catch(e => {
+      console.error('Error loading offline fixtures:', e);
+      fixtures = null;
+      return [];
+    });
+  }
+  return fixtures;
+};
+
+export const segmentKey = (hebrew: string) => sha256(normalizeHebrew(hebrew));
+
+// Shown for segments nobody recorded, instead of an unrelated translation
+const unavailable = (reason: string) =>
+  `<span class="opacity-60 italic">${reason} Add an API key in your profile to translate it.</span>`;
+
+export const offlineTranslations = async (segments: string[], language: TargetLanguage, style: TranslationStyle): Promise<string[]> => {
+  const files = (await loadOfflineFixtures()).filter(f => f.translations);
+  const keys = await Promise.all(segments.map(segmentKey));
+
+  return keys.map(key => {
+    const file = files.find(f => f.translations![key] !== undefined);
+    if (!file) return unavailable('No offline translation is recorded for this passage.');
+    if ((file.language || 'en') !== language || (file.style || 'flowing') !== style) {
+      return unavailable('The offline translation of this passage is in another language or style.');
+    }
+    return file.translations![key];
+  });
+};
+
+// The chapter fixture holding most of the context's sections
+const findChapter = async (files: FixtureFile[], context: string): Promise<FixtureFile | undefined> => {
+  const sections = parseMarkedContext(context);
+  const texts = sections.size > 0 ? Array.from(sections.values()) : [context];
+  const keys = await Promise.all(texts.map(segmentKey));
+
+  let best: { file: FixtureFile; hits: number } | undefined;
+  files.filter(f => f.translations).forEach(file => {
+    const hits = keys.filter(key => file.translations![key] !== undefined).length;
+    if (hits > 0 && (!best || hits > best.hits)) best = { file, hits };
+  });
+  return best?.file;
+};
+
+const matchKeywords = (file: FixtureFile | undefined, query: string) =>
+  file?.chat?.find(entry => entry.keywords.some(k => query.includes(k.toLowerCase())))?.response;
+
+// Chapter-independent answers first (privacy, keys), then the chapter's own
+export const offlineChat = async (query: string, context: string): Promise<ChatResponse> => {
+  const files = await loadOfflineFixtures();
+  const general = files.filter(f => !f.translations);
+  const chapter = await findChapter(files, context);
+  const lowerQuery = query.toLowerCase();
+
+  const response = general.map(f => matchKeywords(f, lowerQuery)).find(Boolean)
+    || matchKeywords(chapter, lowerQuery)
+    || chapter?.fallback
+    || general.find(f => f.fallback)?.fallback;
+
+  return response || {
+    answer: ['Offline mode is not available right now. Add an API key in your profile to ask the scholar.'],
+    citations: [],
+    followUps: [],
+    confidence: 'low'
+  };
+};
@@ -0,0 +1,270 @@
+import { PromptId, PromptOverrides } from "../types";
+
+// Every prompt sent to a model, as named templates with {{variable}}
+// placeholders. Bump a template's version whenever its wording changes: the
+// version is stored with each result and is part of the translation, alignment
+// and outline cache keys. Users may override templates in their profile; an
+// override is versioned by its own fingerprint, so its results are kept apart.
+
+export interface PromptVariables {
+  'translate': { language: string; styleRule: string; terminologyRule: string; glossary: string; abbreviations: string; quotes: string; segments: string };
+  'align': { segments: string };
+  'outline': { language: string; maxDepth: number; sections: string };
+  'quotes': { segments: string };
+  'quiz': { count: number; language: string; text: string };
+  'chat': { digest: string; history: string; contextNote: string; context: string; query: string; abbreviations: string };
+  'selection.translate': { text: string };
+  'selection.summarize': { text: string };
+  'selection.explain': { text: string };
+  'selection.define': { text: string };
+}
+
+export interface PromptTemplate<K extends PromptId = PromptId> {
+  id: K;
+  version: string;
+  label: string;
+  description: string;
+  variables: Record<keyof PromptVariables[K], string>; // Name → what it holds
+  required: (keyof PromptVariables[K])[]; // An override without these is ignored
+  template: string;
+}
+
+const SEGMENTS_NOTE = 'JSON array of the input, on a line of its own after everything else';
+
+export const PROMPT_TEMPLATES: { [K in PromptId]: PromptTemplate<K> } = {
+  'translate': {
+    id: 'translate',
+    version: 'translate-v5',
+    label: 'Translation',
+    description: 'Translates the Reader\'s sections and the library batch jobs. Must ask for a JSON array of strings, one per segment.',
+    variables: {
+      language: 'Target language name',
+      styleRule: 'Rendering rule of the chosen style (literal, flowing, commentary)',
+      terminologyRule: 'How the glossary renderings are to be used',
+      glossary: 'Glossary terms occurring in the segments',
+      abbreviations: 'Expansions of the abbreviations in the segments',
+      quotes: 'Scripture and Chazal quotations found in the segments',
+      segments: SEGMENTS_NOTE
+    },
+    required: ['segments'],
+    template: `Task: Translate the following Chassidic Hebrew segments into {{language}}.
+The segments form a continuous paragraph.
+
+Strict Formatting Rules:
+1. **Output**: Return ONLY a JSON Array of strings. e.g. ["Translation 1", "Translation 2"].
+2. **Bolding**: Use HTML <b> tags ONLY for direct quotes from Psukim (Scripture) or standard Rabbinic phrases, including every quotation listed below.
+3. {{styleRule}}
+4. **Consistency**: Maintain the flow between segments.
+5. **Terminology**: {{terminologyRule}}
+6. **Abbreviations**: Translate abbreviations according to the expansions listed below.
+7. **Language**: Write every translation in {{language}}, even where the terms below are given in English.
+
+{{glossary}}
+
+{{abbreviations}}
+
+{{quotes}}
+
+Input Segments:
+{{segments}}`
+  },
+  'align': {
+    id: 'align',
+    version: 'align-v1',
+    label: 'Interlinear alignment',
+    description: 'Pairs Hebrew words with translation words for interlinear mode. Must ask for one JSON array of {"h", "t"} pairs per segment.',
+    variables: { segments: SEGMENTS_NOTE },
+    required: ['segments'],
+    template: `Task: Align each Hebrew segment with its translation, word by word.
+Each segment gives numbered Hebrew tokens ("0:word 1:word ...") and the translation.
+
+Rules:
+1. **Output**: Return ONLY a JSON Array with one entry per segment, in order. Each entry is an array of pairs: {"h": [first token, last token], "t": "translation words"}.
+2. **Ranges**: Token numbers are inclusive. A pair may cover several Hebrew tokens (an idiom, an abbreviation) or several translation words.
+3. **Quotes**: "t" must be copied exactly from the translation, without added punctuation.
+4. **Order**: List pairs in the order their words appear in the translation. Leave out words with no counterpart (added explanation, function words).
+
+Input Segments:
+{{segments}}`
+  },
+  'outline': {
+    id: 'outline',
+    version: 'outline-v1',
+    label: 'Chapter outline',
+    description: 'Builds the Minimap\'s outline. Must ask for a JSON array of {"title", "start", "end", "children"} nodes.',
+    variables: {
+      language: 'Language of the titles',
+      maxDepth: 'Deepest level the Minimap shows',
+      sections: 'The chapter as abbreviated [Section X] lines'
+    },
+    required: ['sections'],
+    template: `Task: Outline the structure of this Chassidic maamar (discourse).
+Typical parts are the opening verse, the question or difficulty, the hakdamah (introduction), the explanation and the resolution, but follow the text as it actually is.
+
+Rules:
+1. **Output**: Return ONLY a JSON Array of nodes: {"title": string, "start": number, "end": number, "children": [nodes]}.
+2. **Ranges**: "start" and "end" are section numbers (inclusive). Top-level nodes cover the text in order without overlapping; children lie inside their parent.
+3. **Titles**: At most five words, in {{language}}.
+4. **Depth**: At most {{maxDepth}} levels. Use children only where a part clearly has sub-parts.
+
+Text (each section abbreviated):
+{{sections}}`
+  },
+  'quotes': {
+    id: 'quotes',
+    version: 'quotes-v1',
+    label: 'Quotation sources',
+    description: 'Identifies quotations the offline index does not know. Must ask for one JSON array of references per segment.',
+    variables: { segments: SEGMENTS_NOTE },
+    required: ['segments'],
+    template: `Task: Find the quotations of Scripture, Mishnah, Talmud, Midrash and Zohar in each Chassidic Hebrew segment.
+
+Rules:
+1. **Output**: Return ONLY a JSON Array with one entry per segment, in order. Each entry is an array of {"quote": string, "corpus": "tanakh" | "mishnah" | "talmud" | "midrash" | "zohar", "book": string, "hebrewBook": string, "chapter": string, "verse": string}.
+2. **Quote**: Copy the quoted words exactly as they appear in the segment, without the introducing words (כמ"ש, כדאיתא) or a trailing כו'/וגו'.
+3. **Reference**: "book" is the English name as Sefaria uses it. For the Talmud, "chapter" is the daf (e.g. "32a") and "verse" is empty.
+4. **Certainty**: Leave out allusions and paraphrases; list only quotations whose source you are sure of.
+
+Input Segments:
+{{segments}}`
+  },
+  'quiz': {
+    id: 'quiz',
+    version: 'quiz-v1',
+    label: 'Review questions',
+    description: 'Writes a chapter\'s review quiz. Must ask for a JSON array of questions, each citing its section.',
+    variables: {
+      count: 'Number of questions',
+      language: 'Language of the questions and answers',
+      text: 'The chapter as [Section X] lines'
+    },
+    required: ['text'],
+    template: `Task: Write {{count}} review questions on this Chassidic text, to help a learner retain its ideas.
+Mix three types: "multiple_choice", "short_answer" and "locate" (which section says a given idea).
+
+Rules:
+1. **Output**: Return ONLY a JSON Array of {"type": string, "prompt": string, "choices": [strings], "answer": string, "explanation": string, "citations": [{"section": number, "quote": string}]}.
+2. **Grounding**: Every question must cite the section(s) that answer it, with "quote" copied exactly from the Hebrew of that section.
+3. **Multiple choice**: Four "choices"; "answer" is copied exactly from one of them.
+4. **Short answer**: "answer" is a model answer of one or two sentences.
+5. **Locate**: "prompt" paraphrases the idea without quoting it; "answer" is the section number. Leave "choices" empty.
+6. **Language**: Write prompts, choices, answers and explanations in {{language}}. Ask about ideas and arguments, not trivia.
+
+Text (divided into [Section X]):
+{{text}}`
+  },
+  'chat': {
+    id: 'chat',
+    version: 'chat-v1',
+    label: 'Scholar chat',
+    description: 'Answers questions in the Orb. Must ask for a JSON object with "answer", "citations", "followUps" and "confidence".',
+    variables: {
+      digest: 'Summary of the earlier conversation, when it had to be condensed',
+      history: 'The recent messages',
+      contextNote: 'Notice that only the relevant sections are included, when some were dropped',
+      context: 'The selection, chapter or library passages, divided into [Section X]',
+      query: 'The user\'s question',
+      abbreviations: 'Expansions of the abbreviations in the context and question'
+    },
+    required: ['context', 'query'],
+    template: `Role: Expert Chassidic Scholar.
+{{digest}}
+Previous Conversation:
+{{history}}
+
+Current Context (Text is divided into [Section X]{{contextNote}}):
+"{{context}}"
+
+User Question: "{{query}}"
+
+{{abbreviations}}
+
+Instructions:
+1. Answer clearly and deeply.
+2. **Output**: Return ONLY a JSON object with the fields "answer", "citations", "followUps" and "confidence".
+3. **answer**: An array of short, digestible paragraphs. Use <b>text</b> for concepts and terms, <i>text</i> for italics. No markdown.
+4. **Citations**: When you reference the text, cite it inline in the answer as [Section X], AND list each one in "citations" with the section number and the exact Hebrew words quoted. This is critical for the user to verify sources.
+5. **followUps**: Suggest 3 follow-up questions.
+6. **confidence**: "high", "medium" or "low" — how well the provided text supports the answer.`
+  },
+  'selection.translate': {
+    id: 'selection.translate',
+    version: 'selection-translate-v1',
+    label: 'Selection: Translate',
+    description: 'The question the Reader\'s "Translate" action asks about a selection.',
+    variables: { text: 'The selected text' },
+    required: ['text'],
+    template: 'Translate exactly: {{text}}'
+  },
+  'selection.summarize': {
+    id: 'selection.summarize',
+    version: 'selection-summarize-v1',
+    label: 'Selection: Summarize',
+    description: 'The question the Reader\'s "Summarize" action asks about a selection.',
+    variables: { text: 'The selected text' },
+    required: ['text'],
+    template: 'Summarize this concept: {{text}}'
+  },
+  'selection.explain': {
+    id: 'selection.explain',
+    version: 'selection-explain-v1',
+    label: 'Selection: Explain',
+    description: 'The question the Reader\'s "Explain" action asks about a selection.',
+    variables: { text: 'The selected text' },
+    required: ['text'],
+    template: 'Explain the deeper meaning of: {{text}}'
+  },
+  'selection.define': {
+    id: 'selection.define',
+    version: 'selection-define-v1',
+    label: 'Selection: Define',
+    description: 'The question the Reader\'s "Define" action asks about a term that is not in the built-in dictionary.',
+    variables: { text: 'The selected term' },
+    required: ['text'],
+    template: 'Define the Chassidic term {{text}}: its literal meaning, what it means in Chassidus and Kabbalah, related terms, and where it is discussed.'
+  }
+};
+
+export const PROMPT_IDS = Object.keys(PROMPT_TEMPLATES) as PromptId[];
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Unknown placeholders and missing required ones; empty when the text is usable
+export const templateProblems = (id: PromptId, text: string): string[] => {
+  const template = PROMPT_TEMPLATES[id];
+  const known = Object.keys(template.variables);
+  const used = new Set(Array.from(text.matchAll(PLACEHOLDER), m => m[1]));
+  return [
+    ...Array.from(used).filter(name => !known.includes(name)).map(name => `Unknown variable {{${name}}}`),
+    ...(template.required as string[]).filter(name => !used.has(name)).map(name => `Missing {{${name}}}`)
+  ];
+};
+
+// The user's override when it is usable, otherwise the default
+const activeOverride = (id: PromptId, overrides?: PromptOverrides): string | null => {
+  const text = overrides?.[id];
+  return text && text.trim() && templateProblems(id, text).length === 0 ? text : null;
+};
+
+// Short, stable fingerprint of an override's text
+const fingerprint = (text: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+};
+
+export const promptVersion = (id: PromptId, overrides?: PromptOverrides): string => {
+  const override = activeOverride(id, overrides);
+  const { version } = PROMPT_TEMPLATES[id];
+  return override ? `${version}+custom.${fingerprint(override)}` : version;
+};
+
+export const renderPrompt = <K extends PromptId>(id: K, variables: PromptVariables[K], overrides?: PromptOverrides): { prompt: string; version: string } => {
+  const text = activeOverride(id, overrides) || PROMPT_TEMPLATES[id].template;
+  const values = variables as Record<string, string | number>;
+  const prompt = text
+    .replace(PLACEHOLDER, (match, name: string) => name in values ? String(values[name]) : match)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return { prompt, version: promptVersion(id, overrides) };
+};
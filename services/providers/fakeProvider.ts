@@ -0,0 +1,71 @@
+import type { AIProvider, GenerateRequest } from "../aiProvider";
+import { proportionalPairs } from "../alignmentService";
+import { isRecord, stringOr } from "../jsonShape";
+
+export type FakeResponder = (request: GenerateRequest) => string;
+
+// Pulls the last JSON array out of a prompt (the segments to translate or align)
+const extractJsonArray = (prompt: string): unknown[] => {
+  const lines = prompt.match(/^\s*\[.*\]\s*$/gm);
+  if (!lines) return [];
+  try {
+    const parsed = JSON.parse(lines[lines.length - 1]);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const extractSegments = (prompt: string): string[] => extractJsonArray(prompt).map(String);
+
+const defaultResponder: FakeResponder = ({ task, prompt, model, schema }) => {
+  if (task === 'translate') {
+    return JSON.stringify(extractSegments(prompt).map(s => `[${model}] ${s}`));
+  }
+  if (task === 'outline') {
+    // Opening section, then the rest as one part
+    const count = (prompt.match(/^\s*\[Section \d+\]/gm) || []).length;
+    const nodes = count === 0 ? [] : [{ title: `[${model}] Opening`, start: 1, end: 1 }];
+    if (count > 1) nodes.push({ title: `[${model}] Explanation`, start: 2, end: count });
+    return JSON.stringify(nodes);
+  }
+  if (task === 'quotes') {
+    // No sources beyond what the offline index finds
+    return JSON.stringify(extractJsonArray(prompt).map(() => []));
+  }
+  if (task === 'quiz') {
+    // One "locate" question on the first section, quoting its opening words
+    const first = prompt.match(/\[Section (\d+)\]:\s*(.*)/);
+    if (!first) return '[]';
+    const quote = first[2].split(/\s+/).slice(0, 5).join(' ');
+    return JSON.stringify([{ type: 'locate', prompt: `[${model}] Where does the text open?`, answer: first[1], explanation: '', citations: [{ section: Number(first[1]), quote }] }]);
+  }
+  if (task === 'align') {
+    return JSON.stringify(extractJsonArray(prompt).map(item => isRecord(item) ? proportionalPairs(stringOr(item.tokens), stringOr(item.translation)) : []));
+  }
+  const answer = `[${model}] This is a deterministic answer from the fake provider. [Section 1]`;
+  if (!schema) return answer;
+  return JSON.stringify({
+    answer: [answer],
+    citations: [{ section: 1, quote: '' }],
+    followUps: ['Tell me more'],
+    confidence: 'high'
+  });
+};
+
+// Deterministic, network-free provider for tests and offline development.
+// Pass a responder to script specific replies.
+export const createFakeProvider = (responder: FakeResponder = defaultResponder): AIProvider => ({
+  id: 'fake',
+  generate: async (request) => {
+    if (request.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    return { text: responder(request) };
+  },
+  // Streams the same reply word by word
+  stream: async function* (request) {
+    for (const word of responder(request).match(/\S+\s*/g) || []) {
+      if (request.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      yield word;
+    }
+  }
+});
@@ -0,0 +1,43 @@
+import { GoogleGenAI, GenerateContentResponseUsageMetadata } from "@google/genai";
+import type { AIProvider, GenerateRequest } from "../aiProvider";
+
+export const createGeminiProvider = (apiKey: string): AIProvider => {
+  if (!apiKey) throw new Error("API Key missing");
+  const ai = new GoogleGenAI({ apiKey });
+
+  const toParams = ({ prompt, model, json, schema, signal }: GenerateRequest) => ({
+    model,
+    contents: prompt,
+    config: {
+      ...(json || schema ? { responseMimeType: 'application/json' } : {}),
+      ...(schema ? { responseJsonSchema: schema } : {}),
+      abortSignal: signal,
+    }
+  });
+
+  // Thinking tokens are billed as output
+  const reportUsage = (request: GenerateRequest, metadata?: GenerateContentResponseUsageMetadata) => {
+    if (!metadata?.promptTokenCount) return;
+    request.onUsage?.({
+      inputTokens: metadata.promptTokenCount,
+      outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0)
+    });
+  };
+
+  return {
+    id: 'gemini',
+    generate: async (request) => {
+      const response = await ai.models.generateContent(toParams(request));
+      reportUsage(request, response.usageMetadata);
+      return { text: response.text || "" };
+    },
+    stream: async function* (request) {
+      const response = await ai.models.generateContentStream(toParams(request));
+      for await (const chunk of response) {
+        // Each chunk carries the running totals
+        reportUsage(request, chunk.usageMetadata);
+        if (chunk.text) yield chunk.text;
+      }
+    }
+  };
+};
@@ -0,0 +1,92 @@
+import type { AIProvider, GenerateRequest } from "../aiProvider";
+
+// Works against api.openai.com and any server speaking the same
+// /chat/completions protocol (Ollama, LM Studio, vLLM, llama.cpp...)
+export const createOpenAICompatibleProvider = (baseUrl: string, apiKey: string): AIProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  // json_object mode only allows a top-level object, while the plain JSON
+  // prompts answer with arrays: those go unconstrained (parseJsonArray copes
+  // with code fences and wrapper objects)
+  const responseFormat = ({ schema }: GenerateRequest) => {
+    if (schema) return { response_format: { type: 'json_schema', json_schema: { name: 'response', schema } } };
+    return {};
+  };
+
+  const post = async (request: GenerateRequest, stream: boolean) => {
+    const { prompt, model, signal } = request;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+    const send = (format: object) => fetch(endpoint, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+        ...format,
+      }),
+    });
+
+    let response = await send(responseFormat(request));
+    // Servers without structured output reject json_schema: ask again in plain
+    // text (the prompt still asks for JSON, and the parsers cope without it)
+    if (!response.ok && request.schema && (response.status === 400 || response.status === 422)) {
+      response = await send({});
+    }
+
+    if (!response.ok) {
+      throw new Error(`AI endpoint error: ${response.status} ${response.statusText}`);
+    }
+    return response;
+  };
+
+  const reportUsage = (request: GenerateRequest, usage?: { prompt_tokens?: number; completion_tokens?: number }) => {
+    if (usage?.prompt_tokens === undefined) return;
+    request.onUsage?.({ inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens || 0 });
+  };
+
+  return {
+    id: 'openai-compatible',
+    generate: async (request) => {
+      const data = await (await post(request, false)).json();
+      reportUsage(request, data.usage);
+      return { text: data.choices?.[0]?.message?.content || "" };
+    },
+    stream: async function* (request) {
+      const response = await post(request, true);
+      if (!response.body) throw new Error("AI endpoint returned no stream");
+
+      // Server-sent events: one `data: {...}` JSON payload per line
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || "";
+        for (const line of lines) {
+          const payload = line.replace(/^data:\s*/, '').trim();
+          if (!payload || !line.startsWith('data:')) continue;
+          if (payload === '[DONE]') return;
+          // With include_usage, the last chunk has the totals and no choices.
+          // Keep-alives and other non-JSON lines some local servers send are skipped
+          let data;
+          try {
+            data = JSON.parse(payload);
+          } catch (e) {
+            continue;
+          }
+          reportUsage(request, data.usage);
+          const delta = data.choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      }
+    }
+  };
+};
@@ -0,0 +1,86 @@
+import type { AIProvider, AITask, GenerateRequest } from "../aiProvider";
+
+// The free tier: translate and chat requests from users without their own key
+// go to the ai-proxy edge function, which answers with the project's key within
+// a daily quota. The quota left comes back in response headers. The proxy is
+// sent the task's inputs, not the prompt, so it cannot be used as a general relay.
+
+export interface FreeTierQuota {
+  limit: number;
+  remaining: number;
+  resetAt: string;
+}
+
+export interface ProxyInvokeResult {
+  data: { text?: string; usage?: { inputTokens: number; outputTokens: number }; error?: string } | null;
+  error: { message: string; context?: unknown } | null;
+  response?: Response;
+}
+
+export type ProxyInvoke = (body: Record<string, unknown>, signal?: AbortSignal) => Promise<ProxyInvokeResult>;
+
+// Error message prefix when the day's free requests are used up
+export const QUOTA_EXHAUSTED = 'Free tier quota exhausted';
+
+const PROXY_TASKS: AITask[] = ['translate', 'chat'];
+
+let invoke: ProxyInvoke | null = null;
+let quota: FreeTierQuota | null = null;
+const listeners = new Set<(quota: FreeTierQuota | null) => void>();
+
+export const setFreeTierProxy = (proxy: ProxyInvoke | null) => { invoke = proxy; };
+
+export const hasFreeTierProxy = () => !!invoke;
+
+export const getFreeTierQuota = () => quota;
+
+export const subscribeToFreeTierQuota = (listener: (quota: FreeTierQuota | null) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const isQuotaExhausted = (error: unknown) =>
+  error instanceof Error && error.message.startsWith(QUOTA_EXHAUSTED);
+
+const readQuota = (response: Response) => {
+  const limit = response.headers.get('x-quota-limit');
+  const remaining = response.headers.get('x-quota-remaining');
+  if (limit === null || remaining === null) return;
+  quota = { limit: Number(limit), remaining: Number(remaining), resetAt: response.headers.get('x-quota-reset') || '' };
+  listeners.forEach(listener => listener(quota));
+};
+
+// On an HTTP error the response is the error's context
+const responseOf = (result: ProxyInvokeResult) =>
+  result.response || (result.error?.context instanceof Response ? result.error.context : undefined);
+
+export const createProxyProvider = (): AIProvider => {
+  const generate = async (request: GenerateRequest) => {
+    if (!invoke) throw new Error("Free tier is not available");
+    if (!PROXY_TASKS.includes(request.task) || !request.input) throw new Error(`The free tier does not support ${request.task}; add an API key in your profile`);
+    if (request.signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+
+    const result = await invoke({ ...request.input }, request.signal);
+    const response = responseOf(result);
+    if (response) readQuota(response);
+
+    if (response?.status === 429) {
+      throw new Error(`${QUOTA_EXHAUSTED}: add your own API key in your profile to keep going today`);
+    }
+    if (result.error || !result.data) {
+      throw new Error(`Free tier error: ${result.error?.message || 'no response'}`);
+    }
+    if (result.data.usage) request.onUsage?.(result.data.usage);
+    return { text: result.data.text || "" };
+  };
+
+  return {
+    id: 'free-tier',
+    generate,
+    // The proxy answers in one piece
+    stream: async function* (request) {
+      const { text } = await generate(request);
+      if (text) yield text;
+    }
+  };
+};
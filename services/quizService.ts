@@ -0,0 +1,76 @@
+import { ChatCitation, QuizQuestion, QuizQuestionType } from "../types";
+import { quoteMatchScore } from "./citationService";
+import { isOneOf, isRecord, stringOr } from "./jsonShape";
+
+// Review questions for a chapter. Every question must rest on the chapter
+// itself: a question whose cited quote is not found in its section is dropped.
+
+// A question before it is scheduled
+export type QuizDraft = Omit<QuizQuestion, 'id' | 'schedule'>;
+
+const QUESTION_TYPES: QuizQuestionType[] = ['multiple_choice', 'short_answer', 'locate'];
+const GROUNDED_THRESHOLD = 0.5; // Same bar as a "weak" chat citation
+const LOCATE_CHOICES = 4;
+const LOCATE_QUOTE_WORDS = 8;
+
+// Section numbers offered for a 'locate' question: the answer and its neighbours
+export const locateChoices = (answer: number, sections: Map<number, string>): string[] => {
+  const numbers = Array.from(sections.keys()).sort((a, b) => a - b);
+  const nearest = [...numbers].sort((a, b) => Math.abs(a - answer) - Math.abs(b - answer) || a - b);
+  return nearest.slice(0, LOCATE_CHOICES).sort((a, b) => a - b).map(String);
+};
+
+const groundedCitations = (value: unknown, sections: Map<number, string>): ChatCitation[] =>
+  (Array.isArray(value) ? value : [])
+    .filter(isRecord)
+    .flatMap(c => sections.has(Number(c.section)) && typeof c.quote === 'string' ? [{ section: Number(c.section), quote: c.quote.trim() }] : [])
+    .filter(c => quoteMatchScore(c.quote, sections.get(c.section)!) >= GROUNDED_THRESHOLD);
+
+// Keeps well-formed, grounded questions from the model's reply
+export const parseQuiz = (value: unknown, sections: Map<number, string>): QuizDraft[] => {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((q: unknown): QuizDraft[] => {
+    if (!isRecord(q) || !isOneOf(QUESTION_TYPES, q.type) || typeof q.prompt !== 'string' || !q.prompt.trim()) return [];
+    const citations = groundedCitations(q.citations, sections);
+    if (citations.length === 0) return [];
+
+    const base = { type: q.type, prompt: q.prompt.trim(), explanation: stringOr(q.explanation).trim(), citations };
+    const answer = typeof q.answer === 'string' || typeof q.answer === 'number' ? String(q.answer).trim() : '';
+
+    if (q.type === 'locate') {
+      // The answer is the cited section; the choices are rebuilt around it
+      if (sections.size < 2) return [];
+      const section = citations[0].section;
+      return [{ ...base, answer: String(section), choices: locateChoices(section, sections) }];
+    }
+    if (q.type === 'multiple_choice') {
+      const choices = (Array.isArray(q.choices) ? q.choices : []).filter((c: unknown): c is string => typeof c === 'string' && c.trim().length > 0);
+      return choices.length >= 2 && choices.includes(answer) ? [{ ...base, answer, choices }] : [];
+    }
+    return answer ? [{ ...base, answer }] : [];
+  });
+};
+
+// Offline stand-in: "which section says…" questions over evenly spread sections
+export const buildLocateQuestions = (sections: Map<number, string>, count: number): QuizDraft[] => {
+  const numbers = Array.from(sections.keys()).sort((a, b) => a - b);
+  if (numbers.length < 2) return [];
+  const picks = Array.from(new Set(Array.from({ length: Math.min(count, numbers.length) }, (_, i) =>
+    numbers[Math.floor((i + 0.5) * numbers.length / Math.min(count, numbers.length))])));
+
+  return picks.map(section => {
+    const words = sections.get(section)!.split(/\s+/);
+    const quote = words.slice(0, LOCATE_QUOTE_WORDS).join(' ');
+    return {
+      type: 'locate',
+      prompt: `Which section says: "${quote}${words.length > LOCATE_QUOTE_WORDS ? ' …' : ''}"?`,
+      choices: locateChoices(section, sections),
+      answer: String(section),
+      explanation: '',
+      citations: [{ section, quote }]
+    };
+  });
+};
+
+// Multiple choice and locate questions grade themselves; short answers are self-graded
+export const isAutoGraded = (question: QuizQuestion) => question.type !== 'short_answer';
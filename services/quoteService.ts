@@ -0,0 +1,166 @@
+import { QuoteMatch, SourceCorpus, SourceReference } from "../types";
+import { normalizeHebrewQuotes } from "./glossaryService";
+
+// Quotations of Scripture and Chazal, found offline against a small index of
+// the verses and sayings Chassidus quotes most. Matching ignores niqqud,
+// full/defective spelling and the usual ways of writing the Divine names, and
+// accepts a quote cut short with כו' or וגו'. The AI fallback (detectQuotes in
+// geminiService) covers whatever the index does not know.
+
+interface IndexedSource {
+  text: string; // The wording as usually quoted
+  corpus: SourceCorpus;
+  book: string;
+  hebrewBook: string;
+  chapter: string;
+  verse?: string;
+}
+
+const tanakh = (book: string, hebrewBook: string, chapter: number, verse: number, text: string): IndexedSource =>
+  ({ text, corpus: 'tanakh', book, hebrewBook, chapter: String(chapter), verse: String(verse) });
+
+export const SOURCE_INDEX: IndexedSource[] = [
+  // Creation and wisdom
+  tanakh('Genesis', 'בראשית', 1, 1, 'בראשית ברא אלקים את השמים ואת הארץ'),
+  tanakh('Genesis', 'בראשית', 1, 6, 'יהי רקיע בתוך המים ויהי מבדיל בין מים למים'),
+  tanakh('Genesis', 'בראשית', 2, 7, 'ויפח באפיו נשמת חיים'),
+  tanakh('Proverbs', 'משלי', 1, 20, 'חכמות בחוץ תרונה ברחובות תתן קולה'),
+  tanakh('Proverbs', 'משלי', 3, 19, 'ה\' בחכמה יסד ארץ כונן שמים בתבונה'),
+  tanakh('Proverbs', 'משלי', 8, 22, 'ה\' קנני ראשית דרכו קדם מפעליו מאז'),
+  tanakh('Proverbs', 'משלי', 8, 30, 'ואהיה אצלו אמון ואהיה שעשועים יום יום'),
+  tanakh('Proverbs', 'משלי', 20, 27, 'נר ה\' נשמת אדם'),
+  tanakh('Psalms', 'תהלים', 104, 24, 'מה רבו מעשיך ה\' כולם בחכמה עשית'),
+  tanakh('Psalms', 'תהלים', 147, 5, 'גדול אדונינו ורב כח לתבונתו אין מספר'),
+  tanakh('Psalms', 'תהלים', 119, 89, 'לעולם ה\' דברך נצב בשמים'),
+  tanakh('Isaiah', 'ישעיה', 40, 28, 'אין חקר לתבונתו'),
+  tanakh('Isaiah', 'ישעיה', 6, 3, 'מלא כל הארץ כבודו'),
+  tanakh('Isaiah', 'ישעיה', 60, 21, 'ועמך כולם צדיקים'),
+  tanakh('Ecclesiastes', 'קהלת', 7, 14, 'את זה לעומת זה עשה האלקים'),
+  // Unity and the Jewish soul
+  tanakh('Deuteronomy', 'דברים', 4, 4, 'ואתם הדבקים בה\' אלקיכם חיים כולכם היום'),
+  tanakh('Deuteronomy', 'דברים', 4, 35, 'ה\' הוא האלקים אין עוד מלבדו'),
+  tanakh('Deuteronomy', 'דברים', 4, 39, 'וידעת היום והשבות אל לבבך כי ה\' הוא האלקים'),
+  tanakh('Deuteronomy', 'דברים', 6, 4, 'שמע ישראל ה\' אלקינו ה\' אחד'),
+  tanakh('Deuteronomy', 'דברים', 30, 14, 'כי קרוב אליך הדבר מאד בפיך ובלבבך לעשותו'),
+  tanakh('Deuteronomy', 'דברים', 32, 9, 'כי חלק ה\' עמו'),
+  // Chazal
+  { text: 'בעשרה מאמרות נברא העולם', corpus: 'mishnah', book: 'Pirkei Avot', hebrewBook: 'אבות', chapter: '5', verse: '1' },
+  { text: 'והלא במאמר אחד יכול להבראות', corpus: 'mishnah', book: 'Pirkei Avot', hebrewBook: 'אבות', chapter: '5', verse: '1' },
+  { text: 'בראשית נמי מאמר הוא', corpus: 'talmud', book: 'Rosh Hashanah', hebrewBook: 'ראש השנה', chapter: '32a' },
+  { text: 'אסתכל באורייתא וברא עלמא', corpus: 'zohar', book: 'Zohar', hebrewBook: 'זהר', chapter: 'II', verse: '161a' },
+  { text: 'לית אתר פנוי מיניה', corpus: 'zohar', book: 'Tikkunei Zohar', hebrewBook: 'תקוני זהר', chapter: '57', verse: '91b' },
+  { text: 'נתאוה הקב"ה להיות לו דירה בתחתונים', corpus: 'midrash', book: 'Midrash Tanchuma, Naso', hebrewBook: 'תנחומא נשא', chapter: '16' },
+  { text: 'התורה אומרת אני הייתי כלי אומנתו של הקב"ה', corpus: 'midrash', book: 'Bereshit Rabbah', hebrewBook: 'בראשית רבה', chapter: '1', verse: '1' },
+];
+
+const PREFIX = /^[ובלמהשכד]/;
+const MIN_PARTIAL_WORDS = 3; // A quote cut short with כו' must still be this long
+
+// Comparison key for one word: no niqqud or punctuation, the Divine names
+// unified, and ו/י inside the word dropped (full and defective spelling)
+const wordKey = (word: string): string => {
+  let key = normalizeHebrewQuotes(word)
+    .replace(/[\u0591-\u05C7]/g, '')
+    .replace(/[^\u05D0-\u05EA'"]/g, '');
+  if (/^(ה'|הוי"ה|יהוה|הויה|ה)$/.test(key)) return 'ה';
+  key = key.replace(/['"]/g, '').replace(/אלק/g, 'אלה');
+  return key.length > 1 ? key[0] + key.slice(1).replace(/[וי]/g, '') : key;
+};
+
+const CUT_SHORT = new Set(["כו'", "וגו'"].map(wordKey));
+
+interface Token {
+  start: number;
+  end: number; // Without trailing punctuation
+  key: string;
+}
+
+const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(/\S+/g), m => {
+    const core = m[0].replace(/[.,:;!?)\]]+$/, '');
+    return { start: m.index!, end: m.index! + core.length, key: wordKey(core) };
+  }).filter(t => t.key.length > 0);
+
+const INDEX = SOURCE_INDEX.map(source => ({ source, keys: tokenize(source.text).map(t => t.key) }));
+
+// First word may carry up to two one-letter prefixes (וכמ"ש ובחכמה → בחכמה)
+const firstWordMatches = (token: Token, key: string) => {
+  if (token.key === key) return 0;
+  let rest = token.key;
+  for (let i = 1; i <= 2 && PREFIX.test(rest) && rest.length > 2; i++) {
+    rest = rest.slice(1);
+    if (rest === key) return i;
+  }
+  return -1;
+};
+
+const toReference = ({ corpus, book, hebrewBook, chapter, verse }: IndexedSource): SourceReference =>
+  ({ corpus, book, hebrewBook, chapter, ...(verse ? { verse } : {}) });
+
+// All quotations the index recognizes, longest match first, without overlaps
+export const findQuotes = (hebrew: string): QuoteMatch[] => {
+  const tokens = tokenize(hebrew);
+  const matches: QuoteMatch[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    let best: { source: IndexedSource; length: number; prefix: number } | null = null;
+
+    INDEX.forEach(({ source, keys }) => {
+      const prefix = firstWordMatches(tokens[i], keys[0]);
+      if (prefix === -1) return;
+      let length = 1;
+      while (length < keys.length && tokens[i + length]?.key === keys[length]) length++;
+
+      const complete = length === keys.length;
+      const cutShort = length >= MIN_PARTIAL_WORDS && CUT_SHORT.has(tokens[i + length]?.key);
+      if ((complete || cutShort) && (!best || length > best.length)) best = { source, length, prefix };
+    });
+
+    if (best) {
+      const { source, length, prefix } = best;
+      const start = tokens[i].start + prefix;
+      const end = tokens[i + length - 1].end;
+      matches.push({ start, end, text: hebrew.slice(start, end), reference: toReference(source), sourceText: source.text, origin: 'index' });
+      i += length - 1;
+    }
+  }
+  return matches;
+};
+
+// Adds quotations found elsewhere (the AI fallback) that do not overlap known ones
+export const mergeQuotes = (known: QuoteMatch[], extra: QuoteMatch[]): QuoteMatch[] =>
+  [...known, ...extra.filter(q => !known.some(k => q.start < k.end && k.start < q.end))]
+    .sort((a, b) => a.start - b.start);
+
+// Locates a quoted phrase in the text (quote marks normalized, niqqud ignored)
+export const locateQuote = (hebrew: string, quote: string): { start: number; end: number } | null => {
+  const keys = tokenize(quote).map(t => t.key);
+  if (keys.length === 0) return null;
+  const tokens = tokenize(hebrew);
+  for (let i = 0; i + keys.length <= tokens.length; i++) {
+    const prefix = firstWordMatches(tokens[i], keys[0]);
+    if (prefix === -1) continue;
+    if (keys.every((key, n) => n === 0 || tokens[i + n].key === key)) {
+      return { start: tokens[i].start + prefix, end: tokens[i + keys.length - 1].end };
+    }
+  }
+  return null;
+};
+
+export const formatReference = (ref: SourceReference): string =>
+  `${ref.book} ${ref.chapter}${ref.verse ? `:${ref.verse}` : ''}`;
+
+// Sefaria resolves human-readable references; the Zohar's volume/daf numbering does not map cleanly
+export const sourceLink = (ref: SourceReference): string | null =>
+  ref.corpus === 'zohar' ? null : `https://www.sefaria.org/${encodeURIComponent(formatReference(ref).replace(/ /g, '_'))}`;
+
+// Prompt block naming the quotations in the segments, so translations can mark them
+export const buildQuoteHints = (segments: string[]): string => {
+  const seen = new Map<string, string>();
+  segments.forEach(segment => findQuotes(segment).forEach(q => {
+    if (!seen.has(q.text)) seen.set(q.text, formatReference(q.reference));
+  }));
+  if (seen.size === 0) return '';
+  const lines = Array.from(seen, ([text, ref]) => `- "${text}" (${ref})`);
+  return `Quotations in this text:\n${lines.join('\n')}`;
+};
@@ -0,0 +1,39 @@
+import { ChapterReview, QuizQuestion, ReviewGrade, ReviewSchedule } from "../types";
+
+// SM-2 scheduling for review questions: a question answered well comes back
+// after 1 day, then 6, then at growing intervals; a miss starts it over.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+// SM-2 quality (0-5) of each grade; below 3 counts as a miss
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS).toISOString();
+
+export const newSchedule = (now: Date = new Date()): ReviewSchedule =>
+  ({ ease: 2.5, interval: 0, repetitions: 0, dueAt: now.toISOString() });
+
+export const scheduleReview = (schedule: ReviewSchedule, grade: ReviewGrade, now: Date = new Date()): ReviewSchedule => {
+  const quality = GRADE_QUALITY[grade];
+  const ease = Math.max(MIN_EASE, schedule.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+  if (quality < 3) return { ease, interval: 1, repetitions: 0, dueAt: addDays(now, 1) };
+
+  const repetitions = schedule.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(schedule.interval * ease);
+  return { ease, interval, repetitions, dueAt: addDays(now, interval) };
+};
+
+export const isDue = (question: QuizQuestion, now: Date = new Date()) => new Date(question.schedule.dueAt) <= now;
+
+export const dueQuestions = (review: ChapterReview, now: Date = new Date()) => review.questions.filter(q => isDue(q, now));
+
+// Chapters with questions due, most overdue first
+export const dueReviews = (reviews: ChapterReview[], now: Date = new Date()): ChapterReview[] =>
+  reviews
+    .filter(r => dueQuestions(r, now).length > 0)
+    .sort((a, b) => nextDueAt(a).localeCompare(nextDueAt(b)));
+
+export const nextDueAt = (review: ChapterReview): string =>
+  review.questions.reduce((earliest, q) => q.schedule.dueAt < earliest ? q.schedule.dueAt : earliest, review.questions[0]?.schedule.dueAt || '');
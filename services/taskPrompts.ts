@@ -0,0 +1,94 @@
+import { TARGET_LANGUAGES } from "../constants";
+import { ContextReport, GlossaryEntry, PromptOverrides, TargetLanguage, TranslationStyle } from "../types";
+import { buildGlossaryPrompt } from "./glossaryService";
+import { buildAbbreviationHints } from "./abbreviationService";
+import { budgetPrompt } from "./contextBudget";
+import { buildQuoteHints } from "./quoteService";
+import { renderPrompt } from "./promptRegistry";
+
+// Prompts of the translate and chat tasks, built from their inputs. The free tier
+// proxy builds them on the server the same way: it is sent these inputs, never a prompt.
+
+export interface TranslateInput {
+  segments: string[];
+  language: TargetLanguage;
+  style: TranslationStyle;
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  content: string;
+}
+
+export interface ChatInput {
+  query: string;
+  context: string;
+  history: ChatTurn[];
+  focusText?: string; // Selection to keep nearby sections of when the context must be trimmed
+}
+
+// What a free tier request carries in place of a prompt
+export type ProxyInput = ({ task: 'translate' } & TranslateInput) | ({ task: 'chat' } & ChatInput);
+
+// Glossary renderings are English; other languages keep their meaning rather than the wording
+const terminologyRule = (language: TargetLanguage) => language === 'en'
+  ? 'Where a term below appears, use its given rendering verbatim.'
+  : `Where a term below appears, the given English rendering fixes its meaning; express that meaning consistently in ${TARGET_LANGUAGES[language].label}.`;
+
+// Each style replaces the rendering rules of the prompt (its cache entries are kept apart too)
+const STYLE_RULES: Record<TranslationStyle, string> = {
+  literal: `**Style (Literal)**: Follow the Hebrew word order and syntax as closely as the language allows. Add no explanation; words needed only for grammar go in [square brackets].`,
+  flowing: `**Style (Flowing)**: Write readable prose. Brief interjected commentary must be in <span class="opacity-60 italic"> tags.`,
+  commentary: `**Style (Commentary)**: In the manner of "Lessons in Tanya", follow each phrase with an explanation of its terms and of the step in the argument, inside <span class="opacity-60 italic"> tags, so the translated words stay distinguishable from the explanation.`
+};
+
+export const buildTranslatePrompt = ({ segments, language, style }: TranslateInput, glossary: GlossaryEntry[], overrides?: PromptOverrides) =>
+  renderPrompt('translate', {
+    language: TARGET_LANGUAGES[language].label,
+    styleRule: STYLE_RULES[style],
+    terminologyRule: terminologyRule(language),
+    glossary: buildGlossaryPrompt(segments, glossary),
+    abbreviations: buildAbbreviationHints(segments),
+    quotes: buildQuoteHints(segments),
+    segments: JSON.stringify(segments)
+  }, overrides);
+
+// Fits history and context into the prompt budget; the report says what was left out
+export const buildChatPrompt = ({ query, context, history, focusText }: ChatInput, maxTokens?: number, overrides?: PromptOverrides): { prompt: string; version: string; report: ContextReport } => {
+  const budgeted = budgetPrompt({ context, history, focusText, maxTokens });
+  const rendered = renderPrompt('chat', {
+    digest: budgeted.digest ? `\nEarlier in this conversation (summary):\n${budgeted.digest}\n` : '',
+    history: budgeted.history,
+    contextNote: budgeted.report.droppedSections.length > 0 ? '; only the sections relevant here are included' : '',
+    context: budgeted.context,
+    query,
+    abbreviations: buildAbbreviationHints([budgeted.context, query])
+  }, overrides);
+  return { ...rendered, report: budgeted.report };
+};
+
+// JSON Schema the model must follow for chat answers (enforced via the provider's JSON mode)
+export const CHAT_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    answer: {
+      type: 'array',
+      description: 'Short answer paragraphs. Inline <b>/<i> allowed. Cite the text inline as [Section X].',
+      items: { type: 'string' }
+    },
+    citations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          section: { type: 'integer' },
+          quote: { type: 'string', description: 'The exact Hebrew words being relied on' }
+        },
+        required: ['section', 'quote']
+      }
+    },
+    followUps: { type: 'array', items: { type: 'string' } },
+    confidence: { type: 'string', enum: ['high', 'medium', 'low'] }
+  },
+  required: ['answer', 'citations', 'followUps', 'confidence']
+};
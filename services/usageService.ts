@@ -0,0 +1,182 @@
+import { AIProviderId, UsageLimits } from "../types";
+import type { AITask } from "./aiProvider";
+
+// Ledger of AI requests: tokens in and out, model, feature and estimated cost.
+// Kept in local storage, like the API key it is spent against. Every metered
+// request goes through the provider layer (aiProvider.getProvider). The free
+// tier's quota is kept by the ai-proxy edge function, not here.
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface UsageRecord extends TokenUsage {
+  id: string;
+  at: string;
+  task: AITask;
+  provider: AIProviderId;
+  model: string;
+  estimated: boolean;  // The provider reported no token counts; they were estimated from the text
+  cost: number | null; // USD; null when the model's price is unknown
+  bookId?: string;
+  bookTitle?: string;
+}
+
+export interface UsageTotals extends TokenUsage {
+  requests: number;
+  cost: number;
+  unpriced: number; // Requests whose cost is unknown (not in cost)
+}
+
+const STORAGE_KEY = 'chassidus_ai_usage';
+const RETENTION_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rough size of one library segment's translation request, for batch estimates
+const SEGMENT_INPUT_TOKENS = 450;  // Hebrew plus its share of the prompt
+const SEGMENT_OUTPUT_TOKENS = 300;
+
+// USD per million tokens, matched by model name prefix (longest first)
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.30 },
+  'gpt-4o': { input: 2.50, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.40, output: 1.60 },
+  'gpt-4.1-nano': { input: 0.10, output: 0.40 },
+};
+
+export const TASK_LABELS: Record<AITask, string> = {
+  translate: 'Translation',
+  align: 'Interlinear',
+  outline: 'Outline',
+  quotes: 'Sources',
+  quiz: 'Review quiz',
+  chat: 'Chat',
+};
+
+let records: UsageRecord[] | null = null;
+const listeners = new Set<(records: UsageRecord[]) => void>();
+
+const ledger = (): UsageRecord[] => {
+  if (!records) {
+    const cutoff = new Date(Date.now() - RETENTION_DAYS * DAY_MS).toISOString();
+    const saved = typeof localStorage === 'undefined' ? [] : JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]') as UsageRecord[];
+    records = saved.filter(r => r.at >= cutoff);
+  }
+  return records;
+};
+
+const save = () => {
+  if (typeof localStorage !== 'undefined') localStorage.setItem(STORAGE_KEY, JSON.stringify(ledger()));
+  listeners.forEach(listener => listener([...ledger()]));
+};
+
+export const estimateCost = (model: string, usage: TokenUsage): number | null => {
+  const name = Object.keys(MODEL_PRICES)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!name) return null;
+  const price = MODEL_PRICES[name];
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+};
+
+export const recordUsage = (entry: Omit<UsageRecord, 'id' | 'at'>) => {
+  records = [...ledger(), { ...entry, id: crypto.randomUUID(), at: new Date().toISOString() }];
+  save();
+};
+
+export const getUsage = (): UsageRecord[] => [...ledger()];
+
+export const subscribeToUsage = (listener: (records: UsageRecord[]) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const clearUsage = () => {
+  records = [];
+  save();
+};
+
+// --- Summaries ---
+
+// Local calendar day, YYYY-MM-DD
+export const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export const usageTotals = (list: UsageRecord[]): UsageTotals => list.reduce((totals, r) => ({
+  requests: totals.requests + 1,
+  inputTokens: totals.inputTokens + r.inputTokens,
+  outputTokens: totals.outputTokens + r.outputTokens,
+  cost: totals.cost + (r.cost ?? 0),
+  unpriced: totals.unpriced + (r.cost === null ? 1 : 0),
+}), { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpriced: 0 });
+
+// Records from the start of the day `days - 1` days ago (1 = today)
+export const usageSince = (list: UsageRecord[], days: number, now: Date = new Date()) => {
+  const from = new Date(startOfDay(now).getTime() - (days - 1) * DAY_MS).toISOString();
+  return list.filter(r => r.at >= from);
+};
+
+// One entry per day, oldest first, including days without requests
+export const dailyUsage = (list: UsageRecord[], days: number, now: Date = new Date()) =>
+  Array.from({ length: days }, (_, i) => {
+    const day = dayKey(new Date(startOfDay(now).getTime() - (days - 1 - i) * DAY_MS));
+    return { day, totals: usageTotals(list.filter(r => dayKey(new Date(r.at)) === day)) };
+  });
+
+// Grouped by book, most tokens first; requests without a book (library search) are grouped together
+export const usageByBook = (list: UsageRecord[]) => {
+  const groups = new Map<string, { title: string; records: UsageRecord[] }>();
+  list.forEach(r => {
+    const key = r.bookId || '';
+    const group = groups.get(key) || { title: r.bookTitle || 'No book', records: [] };
+    group.records.push(r);
+    groups.set(key, group);
+  });
+  return Array.from(groups, ([bookId, { title, records: bookRecords }]) => ({ bookId, title, totals: usageTotals(bookRecords) }))
+    .sort((a, b) => (b.totals.inputTokens + b.totals.outputTokens) - (a.totals.inputTokens + a.totals.outputTokens));
+};
+
+export const usageByTask = (list: UsageRecord[]) =>
+  (Object.keys(TASK_LABELS) as AITask[])
+    .map(task => ({ task, label: TASK_LABELS[task], totals: usageTotals(list.filter(r => r.task === task)) }))
+    .filter(g => g.totals.requests > 0);
+
+// --- Soft limits ---
+
+export const projectTranslation = (segments: number, model: string, priced: boolean) => {
+  const usage = { inputTokens: segments * SEGMENT_INPUT_TOKENS, outputTokens: segments * SEGMENT_OUTPUT_TOKENS };
+  return { tokens: usage.inputTokens + usage.outputTokens, cost: priced ? estimateCost(model, usage) : 0 };
+};
+
+// Warnings for limits already exceeded, or exceeded once the projected work is done
+export const limitWarnings = (list: UsageRecord[], limits: UsageLimits, projected: { tokens: number; cost: number | null } = { tokens: 0, cost: 0 }, now: Date = new Date()): string[] => {
+  const warnings: string[] = [];
+  if (limits.dailyTokens) {
+    const today = usageTotals(usageSince(list, 1, now));
+    const tokens = today.inputTokens + today.outputTokens + projected.tokens;
+    if (tokens > limits.dailyTokens) {
+      warnings.push(`${formatTokens(tokens)} tokens today would exceed your daily limit of ${formatTokens(limits.dailyTokens)}.`);
+    }
+  }
+  if (limits.weeklyCost) {
+    const cost = usageTotals(usageSince(list, 7, now)).cost + (projected.cost ?? 0);
+    if (cost > limits.weeklyCost) {
+      warnings.push(`${formatCost(cost)} over the last 7 days would exceed your weekly limit of ${formatCost(limits.weeklyCost)}.`);
+    }
+  }
+  return warnings;
+};
+
+export const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+export const formatCost = (cost: number) => `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
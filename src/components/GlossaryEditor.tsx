@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { GlossaryEntry } from '../../types';
+import { DEFAULT_GLOSSARY } from '../../services/glossaryService';
+
+interface GlossaryEditorProps {
+  entries: GlossaryEntry[]; // User overrides only
+  onChange: (entries: GlossaryEntry[]) => void;
+  isDark: boolean;
+}
+
+const splitSpellings = (value: string) =>
+  value.split(/[,\/]/).map(s => s.trim()).filter(s => s.length > 0);
+
+const GlossaryEditor: React.FC<GlossaryEditorProps> = ({ entries, onChange, isDark }) => {
+  const [showDefaults, setShowDefaults] = useState(false);
+
+  const inputClass = `w-full py-1.5 px-2 rounded-md border text-sm ${isDark ? 'bg-gray-900 border-gray-700 text-gray-200' : 'bg-gray-50 border-gray-200 text-gray-800'}`;
+
+  const updateEntry = (index: number, patch: Partial<GlossaryEntry>) => {
+    onChange(entries.map((e, i) => i === index ? { ...e, ...patch } : e));
+  };
+
+  const removeEntry = (index: number) => {
+    onChange(entries.filter((_, i) => i !== index));
+  };
+
+  const addEntry = (entry: GlossaryEntry = { hebrew: [], english: '' }) => {
+    onChange([...entries, { ...entry, hebrew: [...entry.hebrew] }]);
+  };
+
+  const isOverridden = (entry: GlossaryEntry) =>
+    entries.some(o => o.hebrew.some(h => entry.hebrew.includes(h)));
+
+  return (
+    <div className="space-y-3">
+      {entries.length === 0 && (
+        <p className="text-xs opacity-50">No custom terms. The built-in glossary is used as is.</p>
+      )}
+
+      {entries.map((entry, i) => (
+        <div key={i} className="flex items-center gap-2">
+          {/* Committed on blur so separators can be typed freely */}
+          <input
+            key={`${i}-${entry.hebrew.join('|')}`}
+            type="text"
+            dir="rtl"
+            defaultValue={entry.hebrew.join(', ')}
+            onBlur={(e) => updateEntry(i, { hebrew: splitSpellings(e.target.value) })}
+            placeholder='ח"ע, חכמה עילאה'
+            className={`${inputClass} font-hebrew-serif`}
+          />
+          <input
+            type="text"
+            value={entry.english}
+            onChange={(e) => updateEntry(i, { english: e.target.value })}
+            placeholder="Chochmah Ila'ah"
+            className={inputClass}
+          />
+          <button
+            type="button"
+            onClick={() => removeEntry(i)}
+            className="p-1 opacity-40 hover:opacity-100 transition-opacity"
+            title="Remove term"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      ))}
+
+      <div className="flex gap-4 text-[10px] uppercase tracking-widest">
+        <button type="button" onClick={() => addEntry()} className="opacity-50 hover:opacity-100 transition-opacity">
+          + Add Term
+        </button>
+        <button type="button" onClick={() => setShowDefaults(!showDefaults)} className="opacity-50 hover:opacity-100 transition-opacity">
+          {showDefaults ? 'Hide' : 'Show'} Built-in ({DEFAULT_GLOSSARY.length})
+        </button>
+      </div>
+
+      {showDefaults && (
+        <div className={`rounded-md border divide-y text-xs ${isDark ? 'border-gray-800 divide-gray-800' : 'border-gray-100 divide-gray-100'}`}>
+          {DEFAULT_GLOSSARY.map((entry, i) => (
+            <div key={i} className={`flex items-center justify-between gap-2 px-3 py-2 ${isOverridden(entry) ? 'opacity-30 line-through' : ''}`}>
+              <span dir="rtl" className="font-hebrew-serif">{entry.hebrew.join(' / ')}</span>
+              <span className="flex-1 text-right opacity-70">{entry.english}</span>
+              {!isOverridden(entry) && (
+                <button
+                  type="button"
+                  onClick={() => addEntry(entry)}
+                  className="text-[10px] uppercase tracking-widest opacity-40 hover:opacity-100"
+                >
+                  Override
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlossaryEditor;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { PromptId, PromptOverrides } from '../../types';
+import { PROMPT_IDS, PROMPT_TEMPLATES, promptVersion, templateProblems } from '../../services/promptRegistry';
+
+interface PromptTemplateEditorProps {
+  overrides: PromptOverrides; // User templates only
+  onChange: (overrides: PromptOverrides) => void;
+  isDark: boolean;
+}
+
+const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ overrides, onChange, isDark }) => {
+  const [selected, setSelected] = useState<PromptId>('translate');
+
+  const template = PROMPT_TEMPLATES[selected];
+  const text = overrides[selected] ?? template.template;
+  const problems = overrides[selected] !== undefined ? templateProblems(selected, text) : [];
+
+  const inputClass = `w-full py-2 px-3 rounded-md border text-sm ${isDark ? 'bg-gray-900 border-gray-700 text-gray-200' : 'bg-gray-50 border-gray-200 text-gray-800'}`;
+
+  // Text identical to the default is no override at all
+  const updateText = (value: string) => {
+    const { [selected]: _, ...rest } = overrides;
+    onChange(value === template.template ? rest : { ...rest, [selected]: value });
+  };
+
+  const resetTemplate = () => {
+    const { [selected]: _, ...rest } = overrides;
+    onChange(rest);
+  };
+
+  return (
+    <div className="space-y-3">
+      <select
+        value={selected}
+        onChange={(e) => setSelected(e.target.value as PromptId)}
+        className={inputClass}
+      >
+        {PROMPT_IDS.map(id => (
+          <option key={id} value={id}>{PROMPT_TEMPLATES[id].label}{overrides[id] !== undefined ? ' (custom)' : ''}</option>
+        ))}
+      </select>
+
+      <p className="text-xs opacity-50">{template.description}</p>
+
+      <textarea
+        value={text}
+        onChange={(e) => updateText(e.target.value)}
+        rows={10}
+        spellCheck={false}
+        className={`${inputClass} font-mono text-xs leading-relaxed`}
+      />
+
+      {problems.length > 0 && (
+        <div className="p-3 text-xs text-red-600 bg-red-100 dark:bg-red-900/20 dark:text-red-300 rounded-md">
+          {problems.join(' · ')}. The default template is used until this is fixed.
+        </div>
+      )}
+
+      <div className={`rounded-md border divide-y text-xs ${isDark ? 'border-gray-800 divide-gray-800' : 'border-gray-100 divide-gray-100'}`}>
+        {Object.entries(template.variables as Record<string, string>).map(([name, description]) => (
+          <div key={name} className="flex items-baseline gap-3 px-3 py-2">
+            <code className="shrink-0">{`{{${name}}}`}</code>
+            <span className="flex-1 opacity-60">{description}</span>
+            {(template.required as string[]).includes(name) && (
+              <span className="text-[10px] uppercase tracking-widest opacity-40">Required</span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between text-[10px] uppercase tracking-widest">
+        <span className="opacity-40 font-mono normal-case tracking-normal">{promptVersion(selected, overrides)}</span>
+        {overrides[selected] !== undefined && (
+          <button type="button" onClick={resetTemplate} className="opacity-50 hover:opacity-100 transition-opacity">
+            Reset to Default
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateEditor;
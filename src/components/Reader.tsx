@@ -5,6 +5,7 @@ import Minimap from './Minimap';
 import { translateParagraph } from '../services/geminiService';
 import { supabase } from '../integrations/supabase/client';
 import { useChapterContent } from '../hooks/useChapterContent';
+import { sanitizeHtml } from '../utils/html';
 
 interface ReaderProps {
   text: string;
@@ -301,7 +302,7 @@ const Reader: React.FC<ReaderProps> = ({
                       <>
                         <div 
                           className={`${getAlignClass('english')} font-serif text-xl leading-relaxed ${settings.theme === 'dark' ? 'text-gray-300' : 'text-gray-700'}`}
-                          dangerouslySetInnerHTML={{ __html: cleanMarkdown(chunk.translation) || '' }}
+                          dangerouslySetInnerHTML={{ __html: sanitizeHtml(cleanMarkdown(chunk.translation) || '') }}
                         />
                         {/* Feedback Button */}
                         <button 
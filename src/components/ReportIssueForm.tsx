@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { ReportCategory } from '../../types';
+import { REPORT_CATEGORIES } from '../../constants';
+import { ReportDraft } from '../services/reportService';
+
+interface ReportIssueFormProps {
+  hebrew: string;
+  translation: string;
+  isDark: boolean;
+  onSubmit: (draft: ReportDraft) => Promise<void>;
+  onClose: () => void;
+}
+
+const ReportIssueForm: React.FC<ReportIssueFormProps> = ({ hebrew, translation, isDark, onSubmit, onClose }) => {
+  const [category, setCategory] = useState<ReportCategory>('meaning');
+  const [note, setNote] = useState('');
+  const [suggestion, setSuggestion] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const inputClass = `w-full py-2 px-3 rounded-md border text-sm ${isDark ? 'bg-gray-900 border-gray-700 text-gray-200' : 'bg-gray-50 border-gray-200 text-gray-800'}`;
+  const buttonClass = `py-2 px-4 rounded-md text-xs font-bold uppercase tracking-widest transition-all disabled:opacity-30 disabled:cursor-not-allowed ${isDark ? 'bg-white/10 text-white hover:bg-white/20' : 'bg-black/5 text-black hover:bg-black/10'}`;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    setError(null);
+    try {
+      // An unchanged suggestion is no suggestion
+      const corrected = suggestion.trim();
+      await onSubmit({ category, note, suggestion: corrected && corrected !== translation.trim() ? corrected : null });
+      setSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not send the report');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div
+      className={`fixed inset-0 z-[100] flex items-center justify-center p-4 animate-in fade-in duration-200 ${isDark ? 'bg-black/80' : 'bg-white/80'} backdrop-blur-sm`}
+      onClick={onClose}
+    >
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className={`w-full max-w-lg max-h-[90vh] overflow-y-auto custom-scrollbar rounded-2xl border p-6 space-y-4 ${isDark ? 'bg-black border-gray-800 text-gray-300' : 'bg-white border-gray-100 text-gray-700'}`}
+      >
+        <h3 className="text-xs font-bold uppercase tracking-widest opacity-40">Report Issue</h3>
+
+        {sent ? (
+          <>
+            <p className="text-sm">Thank you. The report is in the moderation queue.</p>
+            <div className="flex justify-end">
+              <button type="button" onClick={onClose} className={buttonClass}>Close</button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="font-hebrew-serif text-right text-sm opacity-70 line-clamp-3" dir="rtl">{hebrew}</p>
+
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(REPORT_CATEGORIES) as ReportCategory[]).map(id => (
+                <button
+                  key={id}
+                  type="button"
+                  onClick={() => setCategory(id)}
+                  title={REPORT_CATEGORIES[id].description}
+                  className={`py-2 px-3 rounded-md border text-xs text-left transition-all ${category === id
+                    ? (isDark ? 'border-gray-400 bg-white/10' : 'border-gray-800 bg-black/5')
+                    : (isDark ? 'border-gray-800 opacity-60 hover:opacity-100' : 'border-gray-200 opacity-60 hover:opacity-100')}`}
+                >
+                  {REPORT_CATEGORIES[id].label}
+                </button>
+              ))}
+            </div>
+
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="What is wrong?"
+              rows={3}
+              className={inputClass}
+            />
+
+            <div>
+              <label className="block text-[10px] uppercase tracking-widest opacity-40 mb-1">Suggested correction (optional)</label>
+              <textarea
+                value={suggestion}
+                onChange={(e) => setSuggestion(e.target.value)}
+                onFocus={() => { if (!suggestion) setSuggestion(translation); }}
+                placeholder="Click to edit the current translation"
+                rows={4}
+                className={inputClass}
+              />
+            </div>
+
+            {error && <p className="text-red-500 text-xs">{error}</p>}
+
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={onClose} className={buttonClass}>Cancel</button>
+              <button type="submit" disabled={isSending || (!note.trim() && !suggestion.trim())} className={buttonClass}>
+                {isSending ? 'Sending…' : 'Send Report'}
+              </button>
+            </div>
+          </>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default ReportIssueForm;
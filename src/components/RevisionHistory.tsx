@@ -0,0 +1,185 @@
+import React, { useState, useEffect } from 'react';
+import { RevisionStatus, SegmentRevision, TargetLanguage, TranslationStyle } from '../../types';
+import { diffWords } from '../../services/textDiff';
+import { translationText } from '../../services/alignmentService';
+import { listRevisions, publishRevision, segmentKey, setRevisionStatus } from '../services/revisionService';
+
+interface RevisionHistoryProps {
+  hebrew: string;
+  language: TargetLanguage;
+  style: TranslationStyle;
+  userId: string | null;
+  reviewerName: string | null; // Recorded on approvals and rejections
+  canReview: boolean; // Approve, reject and restore
+  isDark: boolean;
+  onPublishedChange: (revision: SegmentRevision) => void; // Restored, or its review status changed
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<RevisionStatus, string> = {
+  unreviewed: 'opacity-50',
+  approved: 'text-green-600',
+  rejected: 'text-red-500',
+};
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ hebrew, language, style, userId, reviewerName, canReview, isDark, onPublishedChange, onClose }) => {
+  const [revisions, setRevisions] = useState<SegmentRevision[]>([]);
+  const [publishedId, setPublishedId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    segmentKey(hebrew, language, style)
+      .then(listRevisions)
+      .then(({ revisions: list, publishedId: published }) => {
+        if (cancelled) return;
+        setRevisions(list);
+        setPublishedId(published);
+        // Newest against the published one (or the one before it)
+        const newest = list[0]?.id ?? null;
+        setSelectedId(newest);
+        setCompareId(published && published !== newest ? published : list[1]?.id ?? null);
+      })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load the history'); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [hebrew, language, style]);
+
+  const selected = revisions.find(r => r.id === selectedId) || null;
+  const base = revisions.find(r => r.id === compareId && r.id !== selectedId) || null;
+
+  const authorLabel = (revision: SegmentRevision) => revision.source === 'model'
+    ? `${revision.model || 'Model'}${revision.promptVersion ? ` · ${revision.promptVersion}` : ''}`
+    : revision.createdBy && revision.createdBy === userId ? 'You' : 'Editor';
+
+  const handleRestore = async () => {
+    if (!selected || !userId) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await publishRevision(selected, userId);
+      setPublishedId(selected.id);
+      onPublishedChange(selected);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore the revision');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReview = async (status: RevisionStatus) => {
+    if (!selected || !userId) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const reviewed = await setRevisionStatus(selected, status, userId, reviewerName);
+      setRevisions(prev => prev.map(r => r.id === reviewed.id ? reviewed : r));
+      if (reviewed.id === publishedId) onPublishedChange(reviewed);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the review status');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const buttonClass = `py-2 px-4 rounded-md text-xs font-bold uppercase tracking-widest transition-all disabled:opacity-30 disabled:cursor-not-allowed ${isDark ? 'bg-white/10 text-white hover:bg-white/20' : 'bg-black/5 text-black hover:bg-black/10'}`;
+  const listClass = `rounded-md border divide-y text-xs ${isDark ? 'border-gray-800 divide-gray-800' : 'border-gray-100 divide-gray-100'}`;
+
+  return (
+    <div
+      className={`fixed inset-0 z-[100] flex items-center justify-center p-4 animate-in fade-in duration-200 ${isDark ? 'bg-black/80' : 'bg-white/80'} backdrop-blur-sm`}
+      onClick={onClose}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className={`w-full max-w-2xl max-h-[90vh] overflow-y-auto custom-scrollbar rounded-2xl border p-6 space-y-4 ${isDark ? 'bg-black border-gray-800 text-gray-300' : 'bg-white border-gray-100 text-gray-700'}`}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-bold uppercase tracking-widest opacity-40">Revision History</h3>
+          <button onClick={onClose} className="text-[10px] uppercase tracking-widest opacity-50 hover:opacity-100 transition-opacity">Close</button>
+        </div>
+
+        {error && <p className="text-red-500 text-xs">{error}</p>}
+
+        {isLoading ? (
+          <p className="text-sm opacity-50">Loading…</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm opacity-50">No saved revisions for this section yet. Translations are saved as revisions when you are logged in.</p>
+        ) : (
+          <>
+            <div className={listClass}>
+              {revisions.map(revision => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full flex items-center justify-between gap-3 px-3 py-2 text-left transition-colors ${revision.id === selectedId ? (isDark ? 'bg-white/10' : 'bg-black/5') : ''}`}
+                >
+                  <span className="flex-1 truncate">{authorLabel(revision)}</span>
+                  {revision.id === publishedId && <span className="text-[10px] uppercase tracking-widest font-bold">Published</span>}
+                  <span
+                    className={`text-[10px] uppercase tracking-widest ${STATUS_STYLES[revision.reviewStatus]}`}
+                    title={revision.reviewer ? `${revision.reviewStatus} by ${revision.reviewer}` : undefined}
+                  >
+                    {revision.reviewStatus}
+                  </span>
+                  <span className="opacity-50 font-mono">{new Date(revision.createdAt).toLocaleString()}</span>
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <>
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="opacity-50">Compare with</span>
+                  <select
+                    value={base?.id || ''}
+                    onChange={(e) => setCompareId(e.target.value || null)}
+                    className={`flex-1 py-1 px-2 rounded-md border text-xs ${isDark ? 'bg-gray-900 border-gray-700 text-gray-200' : 'bg-gray-50 border-gray-200 text-gray-800'}`}
+                  >
+                    <option value="">Nothing (show the text)</option>
+                    {revisions.filter(r => r.id !== selected.id).map(r => (
+                      <option key={r.id} value={r.id}>
+                        {authorLabel(r)} · {new Date(r.createdAt).toLocaleString()}{r.id === publishedId ? ' (published)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Removed words struck through, added words highlighted */}
+                <p className={`p-3 rounded-md border text-sm leading-relaxed font-serif ${isDark ? 'border-gray-800' : 'border-gray-100'}`}>
+                  {base
+                    ? diffWords(translationText(base.text), translationText(selected.text)).map((part, i) => (
+                        <span
+                          key={i}
+                          className={part.type === 'added' ? 'bg-green-500/20' : part.type === 'removed' ? 'line-through text-red-500/70' : ''}
+                        >
+                          {part.text}
+                        </span>
+                      ))
+                    : translationText(selected.text)}
+                </p>
+
+                {/* Reviewing and publishing are for admins (enforced by the policies too) */}
+                {canReview && (
+                  <div className="flex flex-wrap justify-end gap-2">
+                    <button onClick={() => handleReview('rejected')} disabled={isSaving || !userId || selected.reviewStatus === 'rejected'} className={buttonClass}>Reject</button>
+                    <button onClick={() => handleReview('approved')} disabled={isSaving || !userId || selected.reviewStatus === 'approved'} className={buttonClass}>Approve</button>
+                    <button onClick={handleRestore} disabled={isSaving || !userId || selected.id === publishedId} className={buttonClass}>
+                      {selected.id === publishedId ? 'Published' : 'Restore'}
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RevisionHistory;
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { DictionaryTerm, getTerm, searchTerms } from '../../services/dictionaryService';
+
+interface TermDefinitionProps {
+  term: DictionaryTerm;
+  isDark: boolean;
+  onAskAI: (text: string) => void; // More than the dictionary says, from the model
+  onClose: () => void;
+}
+
+const TermDefinition: React.FC<TermDefinitionProps> = ({ term: initialTerm, isDark, onAskAI, onClose }) => {
+  const [term, setTerm] = useState(initialTerm);
+  const [query, setQuery] = useState('');
+
+  const results = query.trim() ? searchTerms(query) : [];
+  const related = term.related.map(getTerm).filter((t): t is DictionaryTerm => !!t);
+
+  const showTerm = (next: DictionaryTerm) => {
+    setTerm(next);
+    setQuery('');
+  };
+
+  const inputClass = `w-full py-2 px-3 rounded-md border text-sm ${isDark ? 'bg-gray-900 border-gray-700 text-gray-200' : 'bg-gray-50 border-gray-200 text-gray-800'}`;
+  const buttonClass = `py-2 px-4 rounded-md text-xs font-bold uppercase tracking-widest transition-all ${isDark ? 'bg-white/10 text-white hover:bg-white/20' : 'bg-black/5 text-black hover:bg-black/10'}`;
+  const chipClass = `py-1 px-2 rounded-md border text-xs transition-opacity opacity-70 hover:opacity-100 ${isDark ? 'border-gray-700' : 'border-gray-200'}`;
+  const labelClass = 'text-[10px] uppercase tracking-widest opacity-40 mb-1';
+
+  return (
+    <div
+      className={`fixed inset-0 z-[100] flex items-center justify-center p-4 animate-in fade-in duration-200 ${isDark ? 'bg-black/80' : 'bg-white/80'} backdrop-blur-sm`}
+      onClick={onClose}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className={`w-full max-w-lg max-h-[90vh] overflow-y-auto custom-scrollbar rounded-2xl border p-6 space-y-4 ${isDark ? 'bg-black border-gray-800 text-gray-300' : 'bg-white border-gray-100 text-gray-700'}`}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-xs font-bold uppercase tracking-widest opacity-40">Dictionary</h3>
+          <button onClick={onClose} className="text-[10px] uppercase tracking-widest opacity-50 hover:opacity-100 transition-opacity">Close</button>
+        </div>
+
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search terms in Hebrew or English"
+          className={inputClass}
+        />
+
+        {query.trim() ? (
+          results.length === 0 ? (
+            <p className="text-sm opacity-50">No matching terms.</p>
+          ) : (
+            <div className={`rounded-md border divide-y text-sm ${isDark ? 'border-gray-800 divide-gray-800' : 'border-gray-100 divide-gray-100'}`}>
+              {results.map(result => (
+                <button
+                  key={result.id}
+                  onClick={() => showTerm(result)}
+                  className="w-full flex items-baseline justify-between gap-3 px-3 py-2 text-left transition-colors hover:bg-black/5 dark:hover:bg-white/10"
+                >
+                  <span>{result.term} <span className="opacity-50">— {result.english}</span></span>
+                  <span className="font-hebrew-serif" dir="rtl">{result.hebrew[0]}</span>
+                </button>
+              ))}
+            </div>
+          )
+        ) : (
+          <>
+            <div className="flex items-baseline justify-between gap-4">
+              <div>
+                <div className={`text-xl font-serif font-bold ${isDark ? 'text-gray-100' : 'text-gray-900'}`}>{term.term}</div>
+                <div className="text-xs opacity-60">{term.english}</div>
+              </div>
+              <div className="font-hebrew-serif text-2xl" dir="rtl">{term.hebrew[0]}</div>
+            </div>
+
+            <p className="text-sm leading-relaxed">{term.definition}</p>
+            <p className="font-hebrew-serif text-right text-sm leading-relaxed opacity-80" dir="rtl">{term.hebrewDefinition}</p>
+
+            {term.hebrew.length > 1 && (
+              <div>
+                <div className={labelClass}>Also written</div>
+                <div className="font-hebrew-serif text-sm opacity-70" dir="rtl">{term.hebrew.slice(1).join(' · ')}</div>
+              </div>
+            )}
+
+            {related.length > 0 && (
+              <div>
+                <div className={labelClass}>Related</div>
+                <div className="flex flex-wrap gap-2">
+                  {related.map(r => (
+                    <button key={r.id} onClick={() => showTerm(r)} className={chipClass} title={r.english}>{r.term}</button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {term.sources.length > 0 && (
+              <div>
+                <div className={labelClass}>See</div>
+                <ul className="text-xs opacity-70 space-y-0.5">
+                  {term.sources.map(source => <li key={source}>{source}</li>)}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <button onClick={() => onAskAI(term.hebrew[0])} className={buttonClass}>Ask AI for More</button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TermDefinition;
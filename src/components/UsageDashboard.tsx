@@ -0,0 +1,109 @@
+import React from 'react';
+import {
+  UsageRecord,
+  UsageTotals,
+  clearUsage,
+  dailyUsage,
+  formatCost,
+  formatTokens,
+  usageByBook,
+  usageByTask,
+  usageSince,
+  usageTotals
+} from '../../services/usageService';
+
+interface UsageDashboardProps {
+  records: UsageRecord[];
+  isDark: boolean;
+}
+
+const CHART_DAYS = 14;
+const BREAKDOWN_DAYS = 30;
+
+const tokens = (totals: UsageTotals) => totals.inputTokens + totals.outputTokens;
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ records, isDark }) => {
+  const recent = usageSince(records, BREAKDOWN_DAYS);
+  const days = dailyUsage(records, CHART_DAYS);
+  const peak = Math.max(1, ...days.map(d => tokens(d.totals)));
+  const hasEstimates = recent.some(r => r.estimated);
+  const unpriced = usageTotals(recent).unpriced;
+
+  const borderColor = isDark ? 'border-gray-800' : 'border-gray-100';
+  const listClass = `rounded-md border divide-y text-xs ${isDark ? 'border-gray-800 divide-gray-800' : 'border-gray-100 divide-gray-100'}`;
+
+  const renderTotals = (label: string, totals: UsageTotals) => (
+    <div className={`p-3 rounded-md border ${borderColor}`}>
+      <div className="text-[10px] uppercase tracking-widest opacity-40 mb-1">{label}</div>
+      <div className="text-lg font-serif">{formatTokens(tokens(totals))} <span className="text-xs opacity-50">tokens</span></div>
+      <div className="text-xs opacity-60">{formatCost(totals.cost)} · {totals.requests} request{totals.requests === 1 ? '' : 's'}</div>
+    </div>
+  );
+
+  const renderRow = (key: string, label: string, totals: UsageTotals) => (
+    <div key={key} className="flex items-center justify-between gap-3 px-3 py-2">
+      <span className="flex-1 truncate">{label}</span>
+      <span className="opacity-60 font-mono">{formatTokens(tokens(totals))}</span>
+      <span className="opacity-60 font-mono w-16 text-right">{formatCost(totals.cost)}</span>
+    </div>
+  );
+
+  if (records.length === 0) {
+    return <p className="text-xs opacity-50">No AI requests recorded yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-2">
+        {renderTotals('Today', usageTotals(usageSince(records, 1)))}
+        {renderTotals('7 days', usageTotals(usageSince(records, 7)))}
+        {renderTotals('30 days', usageTotals(recent))}
+      </div>
+
+      {/* Daily tokens, oldest to newest */}
+      <div className="flex items-end gap-1 h-16">
+        {days.map(({ day, totals }) => (
+          <div
+            key={day}
+            title={`${day}: ${formatTokens(tokens(totals))} tokens, ${formatCost(totals.cost)}`}
+            style={{ height: `${Math.max(2, (tokens(totals) / peak) * 100)}%` }}
+            className={`flex-1 rounded-sm ${tokens(totals) > 0 ? (isDark ? 'bg-gray-500' : 'bg-black') : (isDark ? 'bg-gray-900' : 'bg-gray-100')}`}
+          />
+        ))}
+      </div>
+
+      <div>
+        <div className="text-[10px] uppercase tracking-widest opacity-40 mb-2">By feature · {BREAKDOWN_DAYS} days</div>
+        <div className={listClass}>
+          {usageByTask(recent).map(g => renderRow(g.task, g.label, g.totals))}
+        </div>
+      </div>
+
+      <div>
+        <div className="text-[10px] uppercase tracking-widest opacity-40 mb-2">By book · {BREAKDOWN_DAYS} days</div>
+        <div className={listClass}>
+          {usageByBook(recent).map(g => renderRow(g.bookId || 'none', g.title, g.totals))}
+        </div>
+      </div>
+
+      {(hasEstimates || unpriced > 0) && (
+        <p className="text-xs opacity-50">
+          {hasEstimates && 'Some token counts were not reported by the provider and are estimated from the text. '}
+          {unpriced > 0 && `${unpriced} request${unpriced === 1 ? ' is' : 's are'} from a model without a known price and not included in the cost.`}
+        </p>
+      )}
+
+      <div className="text-[10px] uppercase tracking-widest">
+        <button
+          type="button"
+          onClick={() => { if (window.confirm('Clear the usage history on this device?')) clearUsage(); }}
+          className="opacity-50 hover:opacity-100 transition-opacity"
+        >
+          Clear History
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
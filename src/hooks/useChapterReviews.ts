@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ChapterReview } from '../../types';
+import { listReviews, saveReview, deleteReview } from '../services/reviewService';
+
+export const useChapterReviews = (userId: string | null) => {
+  const [reviews, setReviews] = useState<ChapterReview[]>([]);
+
+  useEffect(() => {
+    listReviews(userId)
+      .then(setReviews)
+      .catch(err => {
+        console.error('Error loading reviews:', err);
+        setReviews([]);
+      });
+  }, [userId]);
+
+  // Optimistic: the list updates immediately, storage catches up
+  const save = useCallback((review: ChapterReview) => {
+    setReviews(prev => [review, ...prev.filter(r => r.id !== review.id)]);
+    saveReview(review, userId).catch(err => console.error('Error saving review:', err));
+  }, [userId]);
+
+  const remove = useCallback((reviewId: string) => {
+    setReviews(prev => prev.filter(r => r.id !== reviewId));
+    deleteReview(reviewId, userId).catch(err => console.error('Error deleting review:', err));
+  }, [userId]);
+
+  return { reviews, saveReview: save, deleteReview: remove };
+};
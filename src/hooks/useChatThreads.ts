@@ -0,0 +1,34 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ChatThread } from '../../types';
+import { listThreads, saveThread, deleteThread } from '../services/threadService';
+
+export const useChatThreads = (userId: string | null) => {
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+
+  useEffect(() => {
+    listThreads(userId)
+      .then(setThreads)
+      .catch(err => {
+        console.error('Error loading threads:', err);
+        setThreads([]);
+      });
+  }, [userId]);
+
+  // Optimistic: the list updates immediately, storage catches up
+  const save = useCallback((thread: ChatThread) => {
+    setThreads(prev => [thread, ...prev.filter(t => t.id !== thread.id)]);
+    saveThread(thread, userId).catch(err => console.error('Error saving thread:', err));
+  }, [userId]);
+
+  const remove = useCallback((threadId: string) => {
+    setThreads(prev => prev.filter(t => t.id !== threadId));
+    deleteThread(threadId, userId).catch(err => console.error('Error deleting thread:', err));
+  }, [userId]);
+
+  const rename = useCallback((threadId: string, title: string) => {
+    const thread = threads.find(t => t.id === threadId);
+    if (thread && title.trim()) save({ ...thread, title: title.trim(), updatedAt: new Date().toISOString() });
+  }, [threads, save]);
+
+  return { threads, saveThread: save, deleteThread: remove, renameThread: rename };
+};
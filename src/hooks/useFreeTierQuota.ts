@@ -0,0 +1,12 @@
+import { useState, useEffect } from 'react';
+import { FreeTierQuota, getFreeTierQuota, subscribeToFreeTierQuota } from '../../services/providers/proxyProvider';
+
+// The free tier quota as of the last proxied request; null until there was one
+export const useFreeTierQuota = () => {
+  const [quota, setQuota] = useState<FreeTierQuota | null>(getFreeTierQuota);
+
+  useEffect(() => subscribeToFreeTierQuota(setQuota), []);
+
+  // Past the reset the count is stale
+  return quota && quota.resetAt && new Date(quota.resetAt).getTime() <= Date.now() ? null : quota;
+};
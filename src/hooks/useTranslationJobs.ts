@@ -0,0 +1,16 @@
+import { useState, useEffect } from 'react';
+import { ChapterJob, getJobs, isJobRunnerActive, subscribeToJobs } from '../services/translationJobs';
+
+export const useTranslationJobs = () => {
+  const [jobs, setJobs] = useState<ChapterJob[]>(getJobs);
+  const [isRunning, setIsRunning] = useState<boolean>(isJobRunnerActive);
+
+  useEffect(() => {
+    return subscribeToJobs((updated) => {
+      setJobs(updated);
+      setIsRunning(isJobRunnerActive());
+    });
+  }, []);
+
+  return { jobs, isRunning };
+};
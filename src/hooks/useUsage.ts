@@ -0,0 +1,10 @@
+import { useState, useEffect } from 'react';
+import { getUsage, subscribeToUsage, UsageRecord } from '../../services/usageService';
+
+export const useUsage = () => {
+  const [records, setRecords] = useState<UsageRecord[]>(getUsage);
+
+  useEffect(() => subscribeToUsage(setRecords), []);
+
+  return records;
+};
@@ -2,6 +2,13 @@ import React, { useState, useEffect } from 'react';
 import { Settings, Profile } from '../types';
 import { supabase } from '../integrations/supabase/client';
 import { useSession } from '../components/SessionContextProvider';
+import { PROVIDERS, getProviderInfo } from '../../services/aiProvider';
+import { AIProviderId, GlossaryEntry, PromptOverrides, TargetLanguage, TranslationStyle } from '../../types';
+import { TARGET_LANGUAGES, TRANSLATION_STYLES } from '../../constants';
+import GlossaryEditor from '../components/GlossaryEditor';
+import PromptTemplateEditor from '../components/PromptTemplateEditor';
+import UsageDashboard from '../components/UsageDashboard';
+import { useUsage } from '../hooks/useUsage';
 
 interface ProfileModalProps {
   settings: Settings;
@@ -13,9 +20,26 @@ interface ProfileModalProps {
   onOpenLogin: () => void; // New prop
 }
 
+// Empty or non-positive means no limit
+const parseLimit = (value: string): number | null => {
+  const number = parseFloat(value);
+  return number > 0 ? number : null;
+};
+
 const ProfileModal: React.FC<ProfileModalProps> = ({ settings, onUpdateSettings, onClose, theme, profile, fetchProfile, onOpenLogin }) => {
   const { user } = useSession();
   const [keyInput, setKeyInput] = useState(settings.apiKey);
+  const [providerInput, setProviderInput] = useState<AIProviderId>(settings.aiProvider);
+  const [modelInput, setModelInput] = useState(settings.aiModel);
+  const [baseUrlInput, setBaseUrlInput] = useState(settings.aiBaseUrl);
+  const [glossaryInput, setGlossaryInput] = useState<GlossaryEntry[]>(settings.glossary);
+  const [promptInput, setPromptInput] = useState<PromptOverrides>(settings.promptOverrides);
+  const [dailyTokensInput, setDailyTokensInput] = useState(settings.usageLimits.dailyTokens?.toString() || '');
+  const [weeklyCostInput, setWeeklyCostInput] = useState(settings.usageLimits.weeklyCost?.toString() || '');
+  const usage = useUsage();
+  const [languageInput, setLanguageInput] = useState<TargetLanguage>(settings.targetLanguage);
+  const [styleInput, setStyleInput] = useState<TranslationStyle>(settings.translationStyle);
+  const [hideUnreviewedInput, setHideUnreviewedInput] = useState(settings.hideUnreviewedTranslations);
   const [firstName, setFirstName] = useState(profile?.first_name || '');
   const [lastName, setLastName] = useState(profile?.last_name || '');
   const [title, setTitle] = useState(profile?.title || '');
@@ -48,8 +72,19 @@ const ProfileModal: React.FC<ProfileModalProps> = ({ settings, onUpdateSettings,
     setIsSaving(true);
     setSaveError(null);
 
-    // Always save API Key to cookie (client-side)
-    onUpdateSettings({ apiKey: keyInput });
+    // Always save API Key and provider choice to cookie (client-side)
+    onUpdateSettings({
+      apiKey: keyInput,
+      aiProvider: providerInput,
+      aiModel: modelInput,
+      aiBaseUrl: baseUrlInput,
+      glossary: glossaryInput.filter(g => g.hebrew.length > 0 && g.english.trim()),
+      promptOverrides: promptInput,
+      usageLimits: { dailyTokens: parseLimit(dailyTokensInput), weeklyCost: parseLimit(weeklyCostInput) },
+      targetLanguage: languageInput,
+      translationStyle: styleInput,
+      hideUnreviewedTranslations: hideUnreviewedInput,
+    });
 
     if (user) {
       const updatedProfileData = {
@@ -238,11 +273,50 @@ const ProfileModal: React.FC<ProfileModalProps> = ({ settings, onUpdateSettings,
              <div>
                 <h3 className="text-xs font-bold uppercase tracking-widest opacity-40 mb-6">API Configuration</h3>
                 <p className={`text-sm opacity-80 leading-loose mb-4 ${textColor}`}>
-                  Chassidus.ai is open-source. To enable AI features, please provide a <b>Google Gemini API Key</b>.
+                  Chassidus.ai is open-source. To enable AI features, please provide a <b>Google Gemini API Key</b>, or point it at an OpenAI-compatible endpoint such as a local model server.
                 </p>
                 <p className={`text-xs opacity-60 leading-relaxed mb-8 ${textColor}`}>
                   Free, Secure, Private. No data is shared with Chassidus.ai from your Google Account.
                 </p>
+                <div className="grid grid-cols-2 gap-4 mb-6">
+                  <div>
+                    <label htmlFor="aiProvider" className={`block text-xs uppercase tracking-wider opacity-70 mb-1 ${textColor}`}>Provider</label>
+                    <select
+                      id="aiProvider"
+                      value={providerInput}
+                      onChange={(e) => { setProviderInput(e.target.value as AIProviderId); setModelInput(''); setBaseUrlInput(''); }}
+                      className={`w-full py-2 px-3 rounded-md border ${isDark ? 'bg-gray-900 border-gray-700 text-gray-200' : 'bg-gray-50 border-gray-200 text-gray-800'}`}
+                    >
+                      {PROVIDERS.map(p => (
+                        <option key={p.id} value={p.id}>{p.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="aiModel" className={`block text-xs uppercase tracking-wider opacity-70 mb-1 ${textColor}`}>Model</label>
+                    <input
+                      id="aiModel"
+                      type="text"
+                      value={modelInput}
+                      onChange={(e) => setModelInput(e.target.value)}
+                      placeholder={getProviderInfo(providerInput).defaultModel}
+                      className={`w-full py-2 px-3 rounded-md border font-mono text-sm ${isDark ? 'bg-gray-900 border-gray-700 text-gray-200' : 'bg-gray-50 border-gray-200 text-gray-800'}`}
+                    />
+                  </div>
+                  {providerInput === 'openai-compatible' && (
+                    <div className="col-span-2">
+                      <label htmlFor="aiBaseUrl" className={`block text-xs uppercase tracking-wider opacity-70 mb-1 ${textColor}`}>Endpoint (e.g. http://localhost:11434/v1)</label>
+                      <input
+                        id="aiBaseUrl"
+                        type="text"
+                        value={baseUrlInput}
+                        onChange={(e) => setBaseUrlInput(e.target.value)}
+                        placeholder={getProviderInfo(providerInput).defaultBaseUrl}
+                        className={`w-full py-2 px-3 rounded-md border font-mono text-sm ${isDark ? 'bg-gray-900 border-gray-700 text-gray-200' : 'bg-gray-50 border-gray-200 text-gray-800'}`}
+                      />
+                    </div>
+                  )}
+                </div>
                 <input 
                   type="password"
                   value={keyInput}
@@ -255,6 +329,94 @@ const ProfileModal: React.FC<ProfileModalProps> = ({ settings, onUpdateSettings,
                 />
              </div>
              
+             <div>
+                <h3 className="text-xs font-bold uppercase tracking-widest opacity-40 mb-2">Translation</h3>
+                <p className={`text-xs opacity-60 leading-relaxed mb-4 ${textColor}`}>
+                  Sections are translated into this language and style; bilingual mode shows them beside the Hebrew. Each section can switch style in the Reader.
+                </p>
+                <div className="grid grid-cols-2 gap-4">
+                  <select
+                    id="targetLanguage"
+                    value={languageInput}
+                    onChange={(e) => setLanguageInput(e.target.value as TargetLanguage)}
+                    className={`w-full py-2 px-3 rounded-md border ${isDark ? 'bg-gray-900 border-gray-700 text-gray-200' : 'bg-gray-50 border-gray-200 text-gray-800'}`}
+                  >
+                    {(Object.keys(TARGET_LANGUAGES) as TargetLanguage[]).map(code => (
+                      <option key={code} value={code}>{TARGET_LANGUAGES[code].label}{code !== 'en' ? ` — ${TARGET_LANGUAGES[code].nativeLabel}` : ''}</option>
+                    ))}
+                  </select>
+                  <select
+                    id="translationStyle"
+                    value={styleInput}
+                    onChange={(e) => setStyleInput(e.target.value as TranslationStyle)}
+                    title={TRANSLATION_STYLES[styleInput].description}
+                    className={`w-full py-2 px-3 rounded-md border ${isDark ? 'bg-gray-900 border-gray-700 text-gray-200' : 'bg-gray-50 border-gray-200 text-gray-800'}`}
+                  >
+                    {(Object.keys(TRANSLATION_STYLES) as TranslationStyle[]).map(style => (
+                      <option key={style} value={style}>{TRANSLATION_STYLES[style].label}</option>
+                    ))}
+                  </select>
+                </div>
+                <label className={`mt-4 flex items-center gap-2 text-xs ${textColor}`}>
+                  <input
+                    type="checkbox"
+                    checked={hideUnreviewedInput}
+                    onChange={(e) => setHideUnreviewedInput(e.target.checked)}
+                  />
+                  Hide translations no one has reviewed yet
+                </label>
+             </div>
+
+             <div>
+                <h3 className="text-xs font-bold uppercase tracking-widest opacity-40 mb-2">Glossary</h3>
+                <p className={`text-xs opacity-60 leading-relaxed mb-4 ${textColor}`}>
+                  Terms are translated exactly as listed here. Your entries replace the built-in rendering.
+                </p>
+                <GlossaryEditor entries={glossaryInput} onChange={setGlossaryInput} isDark={isDark} />
+             </div>
+
+             <div>
+                <h3 className="text-xs font-bold uppercase tracking-widest opacity-40 mb-2">Prompt Templates</h3>
+                <p className={`text-xs opacity-60 leading-relaxed mb-4 ${textColor}`}>
+                  For advanced use: edit what is sent to the model. Results record the template version that produced them.
+                </p>
+                <PromptTemplateEditor overrides={promptInput} onChange={setPromptInput} isDark={isDark} />
+             </div>
+
+             <div>
+                <h3 className="text-xs font-bold uppercase tracking-widest opacity-40 mb-2">Usage</h3>
+                <p className={`text-xs opacity-60 leading-relaxed mb-4 ${textColor}`}>
+                  Tokens and estimated cost of the AI requests made on this device. Costs are list prices; your provider's bill is authoritative.
+                </p>
+                <UsageDashboard records={usage} isDark={isDark} />
+                <div className="grid grid-cols-2 gap-4 mt-4">
+                  <label className="text-[10px] uppercase tracking-widest opacity-60">
+                    Daily token limit
+                    <input
+                      type="number"
+                      min="0"
+                      value={dailyTokensInput}
+                      onChange={(e) => setDailyTokensInput(e.target.value)}
+                      placeholder="None"
+                      className={`mt-1 w-full py-2 px-3 rounded-md border text-sm normal-case tracking-normal ${isDark ? 'bg-gray-900 border-gray-700 text-gray-200' : 'bg-gray-50 border-gray-200 text-gray-800'}`}
+                    />
+                  </label>
+                  <label className="text-[10px] uppercase tracking-widest opacity-60">
+                    Weekly cost limit (USD)
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={weeklyCostInput}
+                      onChange={(e) => setWeeklyCostInput(e.target.value)}
+                      placeholder="None"
+                      className={`mt-1 w-full py-2 px-3 rounded-md border text-sm normal-case tracking-normal ${isDark ? 'bg-gray-900 border-gray-700 text-gray-200' : 'bg-gray-50 border-gray-200 text-gray-800'}`}
+                    />
+                  </label>
+                </div>
+                <p className={`text-xs opacity-50 mt-2 ${textColor}`}>Soft limits: batch translations ask before going over them.</p>
+             </div>
+             
              {saveError && (
                <div className="p-3 text-sm text-red-600 bg-red-100 dark:bg-red-900/20 dark:text-red-300 rounded-md">
                  {saveError}
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { ChapterReview, QuizQuestion, ReviewGrade } from '../../types';
+import { dueQuestions, nextDueAt } from '../../services/spacedRepetition';
+import { isAutoGraded } from '../../services/quizService';
+
+interface ReviewPageProps {
+  review: ChapterReview;
+  practice: boolean; // Nothing was due: go through every question without rescheduling
+  onAnswer: (questionId: string, grade: ReviewGrade, response: string) => void;
+  onClose: () => void;
+  theme: string;
+}
+
+const SELF_GRADES: { grade: ReviewGrade; label: string }[] = [
+  { grade: 'again', label: 'Again' },
+  { grade: 'hard', label: 'Hard' },
+  { grade: 'good', label: 'Good' },
+  { grade: 'easy', label: 'Easy' },
+];
+
+const ReviewPage: React.FC<ReviewPageProps> = ({ review, practice, onAnswer, onClose, theme }) => {
+  // The session keeps the questions it started with, even as their schedules change
+  const [questions] = useState<QuizQuestion[]>(() => practice ? review.questions : dueQuestions(review));
+  const [index, setIndex] = useState(0);
+  const [response, setResponse] = useState('');
+  const [revealed, setRevealed] = useState(false);
+  const [graded, setGraded] = useState(false);
+  const [correct, setCorrect] = useState(0);
+
+  const question = questions[index] as QuizQuestion | undefined;
+  const isFinished = index >= questions.length;
+
+  const isDark = theme === 'dark';
+  const borderColor = isDark ? 'border-gray-800' : 'border-gray-100';
+  const textColor = isDark ? 'text-gray-400' : 'text-gray-600';
+  const headingColor = isDark ? 'text-gray-100' : 'text-gray-900';
+  const buttonClass = `py-2 px-4 rounded-md text-xs font-bold uppercase tracking-widest transition-all disabled:opacity-30 disabled:cursor-not-allowed ${isDark ? 'bg-white/10 text-white hover:bg-white/20' : 'bg-black/5 text-black hover:bg-black/10'}`;
+
+  const grade = (value: ReviewGrade, answer: string) => {
+    onAnswer(question!.id, value, answer);
+    setGraded(true);
+    if (value !== 'again') setCorrect(prev => prev + 1);
+  };
+
+  // Choices grade themselves as soon as one is picked
+  const handleChoose = (choice: string) => {
+    if (revealed) return;
+    setResponse(choice);
+    setRevealed(true);
+    grade(choice === question!.answer ? 'good' : 'again', choice);
+  };
+
+  const handleNext = () => {
+    setIndex(prev => prev + 1);
+    setResponse('');
+    setRevealed(false);
+    setGraded(false);
+  };
+
+  const choiceLabel = (q: QuizQuestion, choice: string) => q.type === 'locate' ? `Section ${choice}` : choice;
+
+  const choiceClass = (choice: string) => {
+    if (!revealed) return `${borderColor} hover:border-current`;
+    if (choice === question!.answer) return 'border-green-600 text-green-600';
+    if (choice === response) return 'border-red-500 text-red-500';
+    return `${borderColor} opacity-40`;
+  };
+
+  const renderGrounding = (q: QuizQuestion) => (
+    <div className={`mt-6 pt-6 border-t ${borderColor} space-y-3`}>
+      {q.explanation && <p className={`text-sm leading-relaxed ${textColor}`}>{q.explanation}</p>}
+      {q.citations.map((c, i) => (
+        <div key={i} className="flex items-baseline gap-3">
+          <span className="text-[10px] uppercase tracking-widest opacity-40 shrink-0">Section {c.section}</span>
+          <span dir="rtl" className="font-hebrew-serif text-base opacity-80">{c.quote}</span>
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderQuestion = (q: QuizQuestion) => (
+    <div>
+      <p className={`font-serif text-xl leading-relaxed mb-6 ${headingColor}`}>{q.prompt}</p>
+
+      {isAutoGraded(q) ? (
+        <div className={`grid gap-2 ${q.type === 'locate' ? 'grid-cols-2 md:grid-cols-4' : ''}`}>
+          {(q.choices || []).map(choice => (
+            <button
+              key={choice}
+              onClick={() => handleChoose(choice)}
+              disabled={revealed}
+              className={`p-3 rounded-lg border text-left text-sm transition-all ${choiceClass(choice)}`}
+            >
+              {choiceLabel(q, choice)}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <textarea
+            value={response}
+            onChange={(e) => setResponse(e.target.value)}
+            disabled={revealed}
+            rows={3}
+            placeholder="Answer in your own words…"
+            className={`w-full p-3 rounded-lg border bg-transparent text-sm focus:outline-none ${borderColor}`}
+          />
+          {revealed ? (
+            <div className={`p-4 rounded-lg ${isDark ? 'bg-white/5' : 'bg-gray-50'}`}>
+              <div className="text-[10px] uppercase tracking-widest opacity-40 mb-2">Model answer</div>
+              <p className={`text-sm leading-relaxed ${headingColor}`}>{q.answer}</p>
+            </div>
+          ) : (
+            <button onClick={() => setRevealed(true)} className={buttonClass}>Show Answer</button>
+          )}
+          {revealed && !graded && (
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] uppercase tracking-widest opacity-40 mr-2">How well did you know it?</span>
+              {SELF_GRADES.map(g => (
+                <button key={g.grade} onClick={() => grade(g.grade, response)} className={buttonClass}>{g.label}</button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {revealed && renderGrounding(q)}
+
+      {graded && (
+        <div className="flex justify-end mt-8">
+          <button onClick={handleNext} className={buttonClass}>
+            {index + 1 < questions.length ? 'Next' : 'Finish'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  const renderSummary = () => (
+    <div className="text-center py-8">
+      <p className={`font-serif text-2xl mb-2 ${headingColor}`}>{correct} of {questions.length} recalled</p>
+      <p className={`text-xs uppercase tracking-widest opacity-50 mb-8`}>
+        {practice ? 'Practice round · schedule unchanged' : `Next review ${new Date(nextDueAt(review)).toLocaleDateString()}`}
+      </p>
+      <button onClick={onClose} className={buttonClass}>Done</button>
+    </div>
+  );
+
+  return (
+    <div className={`fixed inset-0 z-[100] flex flex-col items-center justify-center animate-in fade-in duration-300 ${isDark ? 'bg-black/80 backdrop-blur-sm' : 'bg-white/80 backdrop-blur-sm'}`}>
+
+      {/* Close Button */}
+      <button
+          onClick={onClose}
+          className={`fixed top-6 right-6 p-2 rounded-full hover:bg-gray-100 dark:hover:bg-white/10 transition-all z-50 ${textColor}`}
+      >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+      </button>
+
+      <div className={`
+        w-full h-full md:max-w-2xl md:h-auto md:max-h-[85vh]
+        overflow-y-auto custom-scrollbar md:rounded-3xl md:border p-8 md:p-12
+        ${isDark ? 'md:border-gray-800 bg-black' : 'md:border-gray-100 bg-white'}
+      `}>
+        <h2 className={`text-2xl font-serif font-bold tracking-tight mb-2 ${headingColor}`}>Review</h2>
+        <p className="text-xs opacity-50 uppercase tracking-widest mb-8">
+          {review.bookTitle}
+          {!isFinished && questions.length > 0 && <> · {index + 1} / {questions.length}</>}
+        </p>
+
+        {questions.length === 0 ? (
+          <p className={`text-sm ${textColor}`}>No questions to review.</p>
+        ) : isFinished ? renderSummary() : renderQuestion(question!)}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewPage;
@@ -0,0 +1,267 @@
+import React, { useState, useEffect } from 'react';
+import { Settings, TargetLanguage } from '../../types';
+import { TARGET_LANGUAGES } from '../../constants';
+import { configFromSettings, isConfigured, requiresApiKey } from '../../services/aiProvider';
+import { formatCost, formatTokens, getUsage, limitWarnings, projectTranslation } from '../../services/usageService';
+import { mergeGlossary } from '../../services/glossaryService';
+import { getAuthors, getBooks, getChapters, Book, Chapter } from '../services/libraryService';
+import { useTranslationJobs } from '../hooks/useTranslationJobs';
+import {
+  ChapterJob,
+  JobStatus,
+  enqueueBook,
+  enqueueChapter,
+  estimateQueuedSegments,
+  removeJob,
+  retryChapter,
+  retrySegment,
+  runJobs,
+  stopJobs
+} from '../services/translationJobs';
+
+interface TranslationJobsPageProps {
+  settings: Settings;
+  userId: string | null;
+  onClose: () => void;
+  theme: string;
+}
+
+const STATUS_ORDER: JobStatus[] = ['running', 'queued', 'failed', 'finished'];
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  running: 'text-blue-500',
+  queued: 'opacity-50',
+  failed: 'text-red-500',
+  finished: 'text-green-600',
+};
+
+const TranslationJobsPage: React.FC<TranslationJobsPageProps> = ({ settings, userId, onClose, theme }) => {
+  const { jobs, isRunning } = useTranslationJobs();
+  const [books, setBooks] = useState<Book[]>([]);
+  const [selectedBookId, setSelectedBookId] = useState('');
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [language, setLanguage] = useState<TargetLanguage>(settings.targetLanguage);
+  const [expandedJob, setExpandedJob] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const config = configFromSettings(settings);
+  const runOptions = { config, glossary: mergeGlossary(settings.glossary), userId };
+  const selectedBook = books.find(b => b.id === selectedBookId);
+  const projected = projectTranslation(estimateQueuedSegments(jobs), config.model, requiresApiKey(config));
+
+  useEffect(() => {
+    const loadBooks = async () => {
+      try {
+        const authors = await getAuthors();
+        const all = await Promise.all(authors.map(a => getBooks(a.id)));
+        setBooks(all.flat());
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load books');
+      }
+    };
+    loadBooks();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedBookId) {
+      setChapters([]);
+      return;
+    }
+    getChapters(selectedBookId)
+      .then(setChapters)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load chapters'));
+  }, [selectedBookId]);
+
+  const handleRun = async () => {
+    setError(null);
+    // Soft limits only warn; the user decides
+    const warnings = limitWarnings(getUsage(), settings.usageLimits, projected);
+    if (warnings.length > 0 && !window.confirm(`${warnings.join('\n')}\n\nStart the batch anyway?`)) return;
+    try {
+      await runJobs(runOptions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Batch translation failed');
+    }
+  };
+
+  const handleEnqueueBook = async () => {
+    if (!selectedBook) return;
+    try {
+      await enqueueBook(selectedBook, language);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to queue book');
+    }
+  };
+
+  const isDark = theme === 'dark';
+  const borderColor = isDark ? 'border-gray-800' : 'border-gray-100';
+  const textColor = isDark ? 'text-gray-400' : 'text-gray-600';
+  const headingColor = isDark ? 'text-gray-100' : 'text-gray-900';
+  const buttonClass = `py-2 px-4 rounded-md text-xs font-bold uppercase tracking-widest transition-all disabled:opacity-30 disabled:cursor-not-allowed ${isDark ? 'bg-white/10 text-white hover:bg-white/20' : 'bg-black/5 text-black hover:bg-black/10'}`;
+  const linkClass = 'text-[10px] uppercase tracking-widest opacity-50 hover:opacity-100 transition-opacity';
+
+  const renderJob = (job: ChapterJob) => {
+    const percentage = job.total > 0 ? Math.round((job.translated / job.total) * 100) : 0;
+    const isExpanded = expandedJob === job.id;
+
+    return (
+      <div key={job.id} className={`py-4 border-b ${borderColor}`}>
+        <div className="flex justify-between items-baseline gap-4 text-sm mb-2">
+          <span className={`font-medium ${isDark ? 'text-gray-300' : 'text-gray-800'}`}>
+            {job.bookTitle} <span className="opacity-50">/</span> <span className="font-hebrew-serif">{job.chapterTitle}</span>
+          </span>
+          <span className="flex items-center gap-3 shrink-0">
+            <span className="text-[10px] uppercase tracking-widest opacity-50">{TARGET_LANGUAGES[job.language].label}</span>
+            <span className={`text-[10px] uppercase tracking-widest ${STATUS_STYLES[job.status]}`}>{job.status}</span>
+            <span className="opacity-50 text-xs font-mono">{job.translated}/{job.total || '?'}</span>
+          </span>
+        </div>
+        <div className={`h-1 w-full rounded-full overflow-hidden ${isDark ? 'bg-gray-900' : 'bg-gray-100'}`}>
+          <div
+            style={{ width: `${percentage}%` }}
+            className={`h-full rounded-full transition-all duration-500 ${job.status === 'failed' ? 'bg-red-500' : isDark ? 'bg-gray-500' : 'bg-black'}`}
+          />
+        </div>
+
+        <div className="flex gap-4 mt-2">
+          {job.errors.length > 0 && (
+            <button onClick={() => setExpandedJob(isExpanded ? null : job.id)} className={`${linkClass} text-red-500`}>
+              {isExpanded ? 'Hide' : 'Show'} {job.errors.length} error{job.errors.length === 1 ? '' : 's'}
+            </button>
+          )}
+          {(job.status === 'failed' || job.status === 'finished') && (
+            <button onClick={() => retryChapter(job.id)} className={linkClass}>Retry Chapter</button>
+          )}
+          {job.status !== 'running' && (
+            <button onClick={() => removeJob(job.id)} className={linkClass}>Remove</button>
+          )}
+        </div>
+
+        {isExpanded && (
+          <div className={`mt-3 rounded-md border divide-y text-xs ${isDark ? 'border-gray-800 divide-gray-800' : 'border-gray-100 divide-gray-100'}`}>
+            {job.errors.map((e, i) => (
+              <div key={`${e.segmentId}-${i}`} className="flex items-center justify-between gap-3 px-3 py-2">
+                <span className="opacity-50 font-mono shrink-0">{e.segmentId ? `#${e.sequence}` : 'Chapter'}</span>
+                <span className="flex-1 opacity-70 break-words">{e.message}</span>
+                {e.segmentId && (
+                  <button onClick={() => retrySegment(job.id, e.segmentId, runOptions)} className={linkClass}>
+                    Retry
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className={`fixed inset-0 z-[100] flex flex-col items-center justify-center animate-in fade-in duration-300 ${isDark ? 'bg-black/80 backdrop-blur-sm' : 'bg-white/80 backdrop-blur-sm'}`}>
+
+      {/* Close Button */}
+      <button
+          onClick={onClose}
+          className={`fixed top-6 right-6 p-2 rounded-full hover:bg-gray-100 dark:hover:bg-white/10 transition-all z-50 ${textColor}`}
+      >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+      </button>
+
+      <div className={`
+        w-full h-full md:max-w-3xl md:h-auto md:max-h-[85vh]
+        overflow-y-auto custom-scrollbar md:rounded-3xl md:border p-8 md:p-12
+        ${isDark ? 'md:border-gray-800 bg-black' : 'md:border-gray-100 bg-white'}
+      `}>
+        <h2 className={`text-2xl font-serif font-bold tracking-tight mb-2 ${headingColor}`}>Translation Jobs</h2>
+        <p className="text-xs opacity-50 uppercase tracking-widest mb-8">Batch translate chapters into the library</p>
+
+        {!isConfigured(config) && (
+          <div className={`p-4 mb-8 rounded-md border ${isDark ? 'border-gray-700 bg-gray-900' : 'border-gray-200 bg-gray-50'} text-sm ${textColor}`}>
+            Batch jobs write directly to the library, so they need a configured AI provider. Add an API key in your profile first.
+          </div>
+        )}
+
+        {/* Queue new work */}
+        <div className="space-y-3 mb-10">
+          <h3 className="text-xs font-bold uppercase tracking-widest opacity-40 mb-4">Queue</h3>
+          <select
+            value={language}
+            onChange={(e) => setLanguage(e.target.value as TargetLanguage)}
+            className={`w-full py-2 px-3 rounded-md border text-sm ${isDark ? 'bg-gray-900 border-gray-700 text-gray-200' : 'bg-gray-50 border-gray-200 text-gray-800'}`}
+          >
+            {(Object.keys(TARGET_LANGUAGES) as TargetLanguage[]).map(code => (
+              <option key={code} value={code}>Translate into {TARGET_LANGUAGES[code].label}</option>
+            ))}
+          </select>
+          <select
+            value={selectedBookId}
+            onChange={(e) => setSelectedBookId(e.target.value)}
+            className={`w-full py-2 px-3 rounded-md border text-sm ${isDark ? 'bg-gray-900 border-gray-700 text-gray-200' : 'bg-gray-50 border-gray-200 text-gray-800'}`}
+          >
+            <option value="">Select a book…</option>
+            {books.map(b => <option key={b.id} value={b.id}>{b.title}</option>)}
+          </select>
+
+          {selectedBook && (
+            <>
+              <button onClick={handleEnqueueBook} className={`${buttonClass} w-full`}>
+                Queue Whole Book ({chapters.length} chapters)
+              </button>
+              <div className={`max-h-48 overflow-y-auto custom-scrollbar rounded-md border divide-y text-sm ${isDark ? 'border-gray-800 divide-gray-800' : 'border-gray-100 divide-gray-100'}`}>
+                {chapters.map(chapter => (
+                  <div key={chapter.id} className="flex items-center justify-between px-3 py-2">
+                    <span className="font-hebrew-serif">{chapter.title}</span>
+                    <button onClick={() => enqueueChapter(chapter, selectedBook, language)} className={linkClass}>Queue</button>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Runner controls */}
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xs font-bold uppercase tracking-widest opacity-40">Progress</h3>
+          {isRunning ? (
+            <button onClick={stopJobs} className={buttonClass}>Stop</button>
+          ) : (
+            <button
+              onClick={handleRun}
+              disabled={!isConfigured(config) || !jobs.some(j => j.status === 'queued')}
+              className={buttonClass}
+            >
+              {jobs.some(j => j.translated > 0 && j.status === 'queued') ? 'Resume' : 'Start'}
+            </button>
+          )}
+        </div>
+
+        {projected.tokens > 0 && !isRunning && (
+          <p className={`text-xs opacity-50 mb-4 ${textColor}`}>
+            Queued work: about {formatTokens(projected.tokens)} tokens{projected.cost !== null ? ` (≈ ${formatCost(projected.cost)})` : ''}.
+          </p>
+        )}
+
+        {error && <p className="text-red-500 text-xs mb-4">{error}</p>}
+
+        {jobs.length === 0 ? (
+          <p className={`text-sm opacity-50 ${textColor}`}>No jobs yet. Queue a chapter or a whole book above.</p>
+        ) : (
+          STATUS_ORDER.map(status => {
+            const group = jobs.filter(j => j.status === status);
+            if (group.length === 0) return null;
+            return (
+              <div key={status} className="mb-6">
+                <p className="text-[10px] uppercase tracking-widest opacity-40 mt-4">{status} ({group.length})</p>
+                {group.map(renderJob)}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranslationJobsPage;
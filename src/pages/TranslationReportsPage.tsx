@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import { ReportStatus, TranslationReport } from '../../types';
+import { REPORT_CATEGORIES, TARGET_LANGUAGES, TRANSLATION_STYLES } from '../../constants';
+import { acceptReport, dismissReport, listReports } from '../services/reportService';
+import { sanitizeHtml } from '../utils/html';
+
+interface TranslationReportsPageProps {
+  userId: string | null;
+  reviewerName: string | null; // Recorded on accepted corrections
+  onClose: () => void;
+  theme: string;
+}
+
+const FILTERS: (ReportStatus | 'all')[] = ['open', 'accepted', 'dismissed', 'all'];
+
+const STATUS_STYLES: Record<ReportStatus, string> = {
+  open: 'text-amber-600',
+  accepted: 'text-green-600',
+  dismissed: 'opacity-50',
+};
+
+const TranslationReportsPage: React.FC<TranslationReportsPageProps> = ({ userId, reviewerName, onClose, theme }) => {
+  const [filter, setFilter] = useState<ReportStatus | 'all'>('open');
+  const [reports, setReports] = useState<TranslationReport[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [corrections, setCorrections] = useState<Record<string, string>>({}); // Edited corrections by report id
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    listReports(filter === 'all' ? undefined : filter)
+      .then(list => { if (!cancelled) setReports(list); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load reports'); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [filter]);
+
+  const correctionFor = (report: TranslationReport) =>
+    corrections[report.id] ?? report.suggestion ?? report.translation;
+
+  // Resolved reports leave the open list; elsewhere they show their new status
+  const replaceReport = (updated: TranslationReport) =>
+    setReports(prev => filter === 'open' ? prev.filter(r => r.id !== updated.id) : prev.map(r => r.id === updated.id ? updated : r));
+
+  const handleAccept = async (report: TranslationReport) => {
+    if (!userId) return;
+    const correction = correctionFor(report).trim();
+    if (!correction) return;
+    setBusyId(report.id);
+    setError(null);
+    try {
+      await acceptReport(report, correction, userId, reviewerName);
+      replaceReport({ ...report, status: 'accepted', resolution: correction, resolvedAt: new Date().toISOString() });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to accept the correction');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDismiss = async (report: TranslationReport) => {
+    if (!userId) return;
+    setBusyId(report.id);
+    setError(null);
+    try {
+      await dismissReport(report, userId);
+      replaceReport({ ...report, status: 'dismissed', resolvedAt: new Date().toISOString() });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to dismiss the report');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const isDark = theme === 'dark';
+  const borderColor = isDark ? 'border-gray-800' : 'border-gray-100';
+  const textColor = isDark ? 'text-gray-400' : 'text-gray-600';
+  const headingColor = isDark ? 'text-gray-100' : 'text-gray-900';
+  const inputClass = `w-full py-2 px-3 rounded-md border text-sm ${isDark ? 'bg-gray-900 border-gray-700 text-gray-200' : 'bg-gray-50 border-gray-200 text-gray-800'}`;
+  const buttonClass = `py-2 px-4 rounded-md text-xs font-bold uppercase tracking-widest transition-all disabled:opacity-30 disabled:cursor-not-allowed ${isDark ? 'bg-white/10 text-white hover:bg-white/20' : 'bg-black/5 text-black hover:bg-black/10'}`;
+  const linkClass = 'text-[10px] uppercase tracking-widest opacity-50 hover:opacity-100 transition-opacity';
+
+  const renderReport = (report: TranslationReport) => (
+    <div key={report.id} className={`py-5 border-b ${borderColor} space-y-3`}>
+      <div className="flex justify-between items-baseline gap-4 text-sm">
+        <span className={`font-medium ${isDark ? 'text-gray-300' : 'text-gray-800'}`}>
+          {report.bookTitle} <span className="opacity-50">/ Section {report.section}</span>
+        </span>
+        <span className="flex items-center gap-3 shrink-0">
+          <span className="text-[10px] uppercase tracking-widest opacity-50">
+            {TARGET_LANGUAGES[report.language].label} · {TRANSLATION_STYLES[report.style].label}
+          </span>
+          <span className="text-[10px] uppercase tracking-widest">{REPORT_CATEGORIES[report.category].label}</span>
+          <span className={`text-[10px] uppercase tracking-widest ${STATUS_STYLES[report.status]}`}>{report.status}</span>
+        </span>
+      </div>
+
+      <p className="font-hebrew-serif text-right text-sm opacity-80" dir="rtl">{report.hebrew}</p>
+      <p className={`text-sm ${textColor}`} dangerouslySetInnerHTML={{ __html: sanitizeHtml(report.translation) }} />
+      {report.note && <p className={`text-sm italic ${textColor}`}>“{report.note}”</p>}
+
+      {report.status === 'open' ? (
+        <>
+          <textarea
+            value={correctionFor(report)}
+            onChange={(e) => setCorrections(prev => ({ ...prev, [report.id]: e.target.value }))}
+            rows={4}
+            className={inputClass}
+          />
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-[10px] uppercase tracking-widest opacity-40">
+              {report.suggestion ? 'Reporter’s suggestion' : 'No suggestion; edit the current translation'}
+            </span>
+            <span className="flex gap-2">
+              <button onClick={() => handleDismiss(report)} disabled={busyId === report.id || !userId} className={buttonClass}>Dismiss</button>
+              <button
+                onClick={() => handleAccept(report)}
+                disabled={busyId === report.id || !userId || !correctionFor(report).trim()}
+                className={buttonClass}
+              >
+                Accept Correction
+              </button>
+            </span>
+          </div>
+        </>
+      ) : report.resolution && (
+        <div className={`p-3 rounded-md border ${borderColor} text-sm`}>
+          <div className="text-[10px] uppercase tracking-widest opacity-40 mb-1">Accepted correction</div>
+          <div dangerouslySetInnerHTML={{ __html: sanitizeHtml(report.resolution) }} />
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className={`fixed inset-0 z-[100] flex flex-col items-center justify-center animate-in fade-in duration-300 ${isDark ? 'bg-black/80 backdrop-blur-sm' : 'bg-white/80 backdrop-blur-sm'}`}>
+
+      {/* Close Button */}
+      <button
+          onClick={onClose}
+          className={`fixed top-6 right-6 p-2 rounded-full hover:bg-gray-100 dark:hover:bg-white/10 transition-all z-50 ${textColor}`}
+      >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+      </button>
+
+      <div className={`
+        w-full h-full md:max-w-3xl md:h-auto md:max-h-[85vh]
+        overflow-y-auto custom-scrollbar md:rounded-3xl md:border p-8 md:p-12
+        ${isDark ? 'md:border-gray-800 bg-black' : 'md:border-gray-100 bg-white'}
+      `}>
+        <h2 className={`text-2xl font-serif font-bold tracking-tight mb-2 ${headingColor}`}>Translation Reports</h2>
+        <p className="text-xs opacity-50 uppercase tracking-widest mb-8">Issues readers found in translations</p>
+
+        {!userId && (
+          <div className={`p-4 mb-8 rounded-md border ${isDark ? 'border-gray-700 bg-gray-900' : 'border-gray-200 bg-gray-50'} text-sm ${textColor}`}>
+            Log in to moderate reports.
+          </div>
+        )}
+
+        <div className="flex gap-4 mb-6">
+          {FILTERS.map(f => (
+            <button key={f} onClick={() => setFilter(f)} className={`${linkClass} ${filter === f ? '!opacity-100 font-bold' : ''}`}>
+              {f}
+            </button>
+          ))}
+        </div>
+
+        {error && <p className="text-red-500 text-xs mb-4">{error}</p>}
+
+        {isLoading ? (
+          <p className={`text-sm opacity-50 ${textColor}`}>Loading…</p>
+        ) : reports.length === 0 ? (
+          <p className={`text-sm opacity-50 ${textColor}`}>{filter === 'open' ? 'No open reports.' : 'No reports.'}</p>
+        ) : (
+          reports.map(renderReport)
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranslationReportsPage;
@@ -0,0 +1,8 @@
+import { supabase } from '../integrations/supabase/client';
+import { setFreeTierProxy } from '../../services/providers/proxyProvider';
+
+// Sends free tier requests to the ai-proxy edge function. The signed-in user's
+// session goes along, so they are counted against their own quota.
+export const registerFreeTierProxy = () => {
+  setFreeTierProxy((body, signal) => supabase.functions.invoke('ai-proxy', { body, signal }));
+};
@@ -0,0 +1,218 @@
+import { GlossaryEntry, LibrarySource } from '../../types';
+import { normalizeHebrewQuotes } from '../../services/glossaryService';
+import { expandAbbreviations } from '../../services/abbreviationService';
+import { getAllBooks, getAllChapters, getSegmentCount, getSegmentPage } from './libraryService';
+
+// Offline retrieval over every segment in the library. Segments are downloaded
+// once into IndexedDB and scored locally with BM25, so library-wide questions
+// need no hosted vector database and keep working without a connection.
+
+const DB_NAME = 'chassidus-ai-library';
+const STORE_NAME = 'segments';
+const STAMP_KEY = 'chassidus_ai_library_index_stamp'; // Segment count the local copy was built from
+const PAGE_SIZE = 1000;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+export interface IndexedSegment {
+  id: string;
+  hebrew: string;
+  bookId: string;
+  bookTitle: string;
+  chapterId: string;
+  chapterTitle: string;
+  sequence: number;
+}
+
+export interface LibraryHit {
+  segment: IndexedSegment;
+  score: number;
+}
+
+interface SearchIndex {
+  docs: IndexedSegment[];
+  lengths: number[];
+  avgLength: number;
+  postings: Map<string, Map<number, number>>; // term -> doc index -> term frequency
+}
+
+let index: SearchIndex | null = null;
+let loading: Promise<SearchIndex> | null = null;
+
+// --- Tokenizing ---
+
+const PREFIX = /^[ובלמהשכד]/;
+
+// Words keep an inner gershayim (ח"ע) but lose niqqud, geresh and punctuation
+const words = (text: string): string[] =>
+  normalizeHebrewQuotes(text)
+    .replace(/[\u0591-\u05C7]/g, '')
+    .split(/[^\u05D0-\u05EA"]+/)
+    .map(w => w.replace(/^"+|"+$/g, ''))
+    .filter(w => w.length > 1);
+
+// Each word also yields its forms without up to two one-letter prefixes (ובחכמה → בחכמה, חכמה)
+const terms = (text: string): string[] =>
+  words(text).flatMap(word => {
+    const forms = [word];
+    let rest = word;
+    for (let i = 0; i < 2 && PREFIX.test(rest) && rest.length > 3; i++) {
+      rest = rest.slice(1);
+      forms.push(rest);
+    }
+    return forms;
+  });
+
+// Abbreviated and expanded spellings both count, so ח"ע finds חכמה עילאה and vice versa
+const segmentTerms = (hebrew: string): string[] => {
+  const expanded = expandAbbreviations(hebrew);
+  return expanded === hebrew ? terms(hebrew) : [...terms(hebrew), ...terms(expanded)];
+};
+
+const buildIndex = (docs: IndexedSegment[]): SearchIndex => {
+  const postings = new Map<string, Map<number, number>>();
+  const lengths = docs.map((doc, i) => {
+    const docTerms = segmentTerms(doc.hebrew);
+    docTerms.forEach(term => {
+      let list = postings.get(term);
+      if (!list) postings.set(term, list = new Map());
+      list.set(i, (list.get(i) || 0) + 1);
+    });
+    return docTerms.length;
+  });
+  const avgLength = lengths.reduce((a, b) => a + b, 0) / Math.max(1, lengths.length);
+  return { docs, lengths, avgLength, postings };
+};
+
+// --- IndexedDB ---
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const readLocal = async (): Promise<IndexedSegment[]> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll();
+    request.onsuccess = () => resolve(request.result as IndexedSegment[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const writeLocal = async (docs: IndexedSegment[]) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  store.clear();
+  docs.forEach(doc => store.put(doc));
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+const download = async (onProgress?: (count: number) => void): Promise<IndexedSegment[]> => {
+  const [books, chapters] = await Promise.all([getAllBooks(), getAllChapters()]);
+  const bookTitles = new Map(books.map(b => [b.id, b.title]));
+  const chapterById = new Map(chapters.map(c => [c.id, c]));
+
+  const docs: IndexedSegment[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await getSegmentPage(offset, PAGE_SIZE);
+    page.forEach(s => {
+      const chapter = chapterById.get(s.chapter_id);
+      if (!chapter) return;
+      docs.push({
+        id: s.id,
+        hebrew: s.hebrew_text,
+        bookId: chapter.book_id,
+        bookTitle: bookTitles.get(chapter.book_id) || '',
+        chapterId: chapter.id,
+        chapterTitle: chapter.title,
+        sequence: s.sequence_number,
+      });
+    });
+    onProgress?.(docs.length);
+    if (page.length < PAGE_SIZE) break;
+  }
+  return docs;
+};
+
+// --- Public API ---
+
+// Loads the local copy, downloading the library the first time, when forced, or
+// when the library has grown or shrunk since the copy was made
+export const ensureLibraryIndex = (options: { rebuild?: boolean; onProgress?: (count: number) => void } = {}): Promise<SearchIndex> => {
+  if (index && !options.rebuild) return Promise.resolve(index);
+  if (loading) return loading;
+
+  loading = (async () => {
+    // Offline, the local copy is used as it is
+    const stamp = await getSegmentCount().then(String).catch(() => null);
+    const stale = options.rebuild || (stamp !== null && stamp !== localStorage.getItem(STAMP_KEY));
+    let docs = stale ? [] : await readLocal().catch(() => [] as IndexedSegment[]);
+    if (docs.length === 0) {
+      docs = await download(options.onProgress);
+      writeLocal(docs)
+        .then(() => { if (stamp !== null) localStorage.setItem(STAMP_KEY, stamp); })
+        .catch(e => console.error('Error saving library index:', e));
+    }
+    index = buildIndex(docs);
+    return index;
+  })().finally(() => { loading = null; });
+
+  return loading;
+};
+
+// English glossary terms in the question are searched by their Hebrew spellings
+const queryTerms = (query: string, glossary: GlossaryEntry[]): string[] => {
+  const english = query.toLowerCase().replace(/[‘’`]/g, "'");
+  const glossaryHebrew = glossary
+    .filter(entry => english.includes(entry.english.toLowerCase()))
+    .flatMap(entry => entry.hebrew);
+  return Array.from(new Set(segmentTerms([query, ...glossaryHebrew].join(' '))));
+};
+
+export const searchLibrary = async (query: string, glossary: GlossaryEntry[], limit = 8): Promise<LibraryHit[]> => {
+  const { docs, lengths, avgLength, postings } = await ensureLibraryIndex();
+  const scores = new Map<number, number>();
+
+  queryTerms(query, glossary).forEach(term => {
+    const list = postings.get(term);
+    if (!list) return;
+    const idf = Math.log(1 + (docs.length - list.size + 0.5) / (list.size + 0.5));
+    list.forEach((tf, i) => {
+      const norm = tf * (K1 + 1) / (tf + K1 * (1 - B + B * lengths[i] / avgLength));
+      scores.set(i, (scores.get(i) || 0) + idf * norm);
+    });
+  });
+
+  return Array.from(scores, ([i, score]) => ({ segment: docs[i], score }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+// Context for chatWithAI: hits become numbered sections, each labelled with its location
+export const buildLibraryContext = (hits: LibraryHit[]): { context: string; sources: LibrarySource[] } => {
+  const sources: LibrarySource[] = hits.map((hit, i) => ({
+    section: i + 1,
+    segmentId: hit.segment.id,
+    hebrew: hit.segment.hebrew,
+    bookId: hit.segment.bookId,
+    bookTitle: hit.segment.bookTitle,
+    chapterId: hit.segment.chapterId,
+    chapterTitle: hit.segment.chapterTitle,
+    sequence: hit.segment.sequence,
+  }));
+  const context = sources
+    .map(s => `[Section ${s.section}]: ${s.hebrew}\n(Source: ${s.bookTitle}, ${s.chapterTitle}, segment ${s.sequence})`)
+    .join('\n\n');
+  return { context, sources };
+};
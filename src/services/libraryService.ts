@@ -1,4 +1,5 @@
 import { supabase } from '../integrations/supabase/client';
+import { TargetLanguage } from '../../types';
 
 // Type Definitions
 export interface Author {
@@ -23,17 +24,41 @@ export interface Segment {
   id: string;
   chapter_id: string;
   hebrew_text: string;
-  english_translation: string | null;
   sequence_number: number;
 }
 
+// A segment with its stored translation in one language
+export interface TranslatedSegment extends Segment {
+  translation: string | null;
+}
+
 // Return type for chapter content
 export interface ChapterContent {
   hebrew: string;
-  english: string | null;
+  translation: string | null;
   seq: number;
 }
 
+interface SegmentRow extends Segment {
+  segment_translations: { translation: string }[] | null;
+}
+
+// Segments of a chapter with the translation (if any) in the given language
+const getTranslatedSegments = async (chapterId: string, language: TargetLanguage): Promise<TranslatedSegment[]> => {
+  const { data, error } = await supabase
+    .from('segments')
+    .select('id, chapter_id, hebrew_text, sequence_number, segment_translations(translation)')
+    .eq('chapter_id', chapterId)
+    .eq('segment_translations.language', language)
+    .order('sequence_number', { ascending: true });
+
+  if (error) throw error;
+  return ((data || []) as SegmentRow[]).map(({ segment_translations, ...segment }) => ({
+    ...segment,
+    translation: segment_translations?.[0]?.translation ?? null
+  }));
+};
+
 // Fetching Functions
 export async function getAuthors(): Promise<Author[]> {
   const { data, error } = await supabase
@@ -67,18 +92,72 @@ export async function getChapters(bookId: string): Promise<Chapter[]> {
   return data || [];
 }
 
-export async function getChapterContent(chapterId: string): Promise<ChapterContent[]> {
+export async function getChapterContent(chapterId: string, language: TargetLanguage = 'en'): Promise<ChapterContent[]> {
+  const segments = await getTranslatedSegments(chapterId, language);
+  return segments.map(segment => ({
+    hebrew: segment.hebrew_text,
+    translation: segment.translation,
+    seq: segment.sequence_number
+  }));
+}
+
+// Full segment rows (with ids) for batch processing
+export async function getChapterSegments(chapterId: string, language: TargetLanguage = 'en'): Promise<TranslatedSegment[]> {
+  return getTranslatedSegments(chapterId, language);
+}
+
+export async function updateSegmentTranslation(segmentId: string, language: TargetLanguage, translation: string, userId: string | null = null, promptVersion: string | null = null, model: string | null = null): Promise<void> {
+  const { error } = await supabase
+    .from('segment_translations')
+    .upsert({
+      segment_id: segmentId,
+      language,
+      translation,
+      prompt_version: promptVersion,
+      model,
+      updated_by: userId,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'segment_id,language' });
+
+  if (error) throw error;
+}
+
+// Whole-library listings (used to build the search index)
+export async function getAllBooks(): Promise<Book[]> {
   const { data, error } = await supabase
+    .from('books')
+    .select('id, author_id, title');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getAllChapters(): Promise<Chapter[]> {
+  const { data, error } = await supabase
+    .from('chapters')
+    .select('id, book_id, title, sequence_number');
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Changes whenever segments are added or removed (the search index's staleness check)
+export async function getSegmentCount(): Promise<number> {
+  const { count, error } = await supabase
     .from('segments')
-    .select('id, chapter_id, hebrew_text, english_translation, sequence_number')
-    .eq('chapter_id', chapterId)
-    .order('sequence_number', { ascending: true });
+    .select('id', { count: 'exact', head: true });
 
   if (error) throw error;
-  
-  return (data || []).map(segment => ({
-    hebrew: segment.hebrew_text,
-    english: segment.english_translation,
-    seq: segment.sequence_number
-  }));
-}
\ No newline at end of file
+  return count || 0;
+}
+
+export async function getSegmentPage(offset: number, limit: number): Promise<Segment[]> {
+  const { data, error } = await supabase
+    .from('segments')
+    .select('id, chapter_id, hebrew_text, sequence_number')
+    .order('id', { ascending: true })
+    .range(offset, offset + limit - 1);
+
+  if (error) throw error;
+  return data || [];
+}
@@ -0,0 +1,103 @@
+import { supabase } from '../integrations/supabase/client';
+import { OutlineNode, TargetLanguage } from '../../types';
+import { normalizeHebrew, sha256 } from '../../services/contentHash';
+
+// Chapter outlines are cached by content, like translations: the same chapter
+// text outlined with the same model, prompt and title language is generated once.
+
+const DB_NAME = 'chassidus-ai-outlines';
+const STORE_NAME = 'outlines';
+
+export interface CachedOutline {
+  hash: string;
+  outline: OutlineNode[];
+  language: TargetLanguage;
+  model: string;
+  prompt_version: string;
+}
+
+export interface OutlineCacheParams {
+  language: TargetLanguage;
+  model: string;
+  promptVersion: string;
+}
+
+export const buildOutlineKey = async (sections: string[], { language, model, promptVersion }: OutlineCacheParams) => {
+  const text = sections.map(normalizeHebrew).join('\n');
+  const hash = await sha256([text, language, model, promptVersion].join('\u0000'));
+  return { hash, language, model, prompt_version: promptVersion };
+};
+
+// --- IndexedDB (local, all users) ---
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME, { keyPath: 'hash' });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const getLocal = async (hash: string): Promise<CachedOutline | undefined> => {
+  const db = await openDb();
+  return new Promise((resolve) => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(hash);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(undefined);
+  });
+};
+
+const putLocal = async (entry: CachedOutline) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  tx.objectStore(STORE_NAME).put(entry);
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// --- Public API ---
+
+// Local first, then Supabase for logged-in users
+export const getCachedOutline = async (hash: string, userId: string | null): Promise<OutlineNode[] | null> => {
+  try {
+    const local = await getLocal(hash);
+    if (local) return local.outline;
+  } catch (error) {
+    console.error('Error reading local outline cache:', error);
+  }
+
+  if (!userId) return null;
+  const { data, error } = await supabase
+    .from('chapter_outlines')
+    .select('hash, outline, language, model, prompt_version')
+    .eq('hash', hash)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error reading outline cache:', error);
+    return null;
+  }
+  if (!data) return null;
+  putLocal(data).catch(e => console.error('Error writing local outline cache:', e));
+  return data.outline;
+};
+
+// sharedBy: the admin writing the shared row (null: this device only)
+export const putCachedOutline = async (entry: CachedOutline, sharedBy: string | null) => {
+  try {
+    await putLocal(entry);
+  } catch (error) {
+    console.error('Error writing local outline cache:', error);
+  }
+
+  // The first shared outline for a hash stays until an admin deletes it
+  if (sharedBy) {
+    const { error } = await supabase
+      .from('chapter_outlines')
+      .upsert({ ...entry, created_by: sharedBy }, { onConflict: 'hash', ignoreDuplicates: true });
+    if (error) console.error('Error writing outline cache:', error);
+  }
+};
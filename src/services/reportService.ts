@@ -0,0 +1,142 @@
+import { supabase } from '../integrations/supabase/client';
+import { ReportCategory, ReportStatus, TranslationReport } from '../../types';
+import { CachedTranslation, putCachedTranslations } from './translationCache';
+import { saveRevisions } from './revisionService';
+
+// Readers' translation issue reports and their moderation. An accepted
+// correction replaces the reported rendering in the translation cache and is
+// published as a revision, so everyone reading that section gets it.
+
+export interface ReportDraft {
+  category: ReportCategory;
+  note: string;
+  suggestion: string | null;
+}
+
+// Where the report comes from: the section and the cache entry it was rendered from
+export interface ReportTarget {
+  bookId: string | null;
+  bookTitle: string;
+  section: number;
+  hebrew: string;
+  translation: string;
+  entry: Omit<CachedTranslation, 'translation'>;
+}
+
+interface ReportRow {
+  id: string;
+  book_id: string | null;
+  book_title: string;
+  section: number;
+  hebrew: string;
+  translation: string;
+  language: TranslationReport['language'];
+  style: TranslationReport['style'];
+  segment_hash: string;
+  model: string;
+  prompt_version: string;
+  glossary_version: string;
+  category: ReportCategory;
+  note: string;
+  suggestion: string | null;
+  status: ReportStatus;
+  resolution: string | null;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+const fromRow = (row: ReportRow): TranslationReport => ({
+  id: row.id,
+  bookId: row.book_id,
+  bookTitle: row.book_title,
+  section: row.section,
+  hebrew: row.hebrew,
+  translation: row.translation,
+  language: row.language,
+  style: row.style,
+  segmentHash: row.segment_hash,
+  model: row.model,
+  promptVersion: row.prompt_version,
+  glossaryVersion: row.glossary_version,
+  category: row.category,
+  note: row.note,
+  suggestion: row.suggestion,
+  status: row.status,
+  resolution: row.resolution,
+  createdAt: row.created_at,
+  resolvedAt: row.resolved_at,
+});
+
+export const submitReport = async (target: ReportTarget, draft: ReportDraft, userId: string | null): Promise<void> => {
+  const { error } = await supabase
+    .from('translation_reports')
+    .insert({
+      reporter_id: userId,
+      book_id: target.bookId,
+      book_title: target.bookTitle,
+      section: target.section,
+      hebrew: target.hebrew,
+      translation: target.translation,
+      language: target.entry.language,
+      style: target.entry.style,
+      segment_hash: target.entry.hash,
+      model: target.entry.model,
+      prompt_version: target.entry.prompt_version,
+      glossary_version: target.entry.glossary_version,
+      category: draft.category,
+      note: draft.note.trim(),
+      suggestion: draft.suggestion?.trim() || null,
+    });
+
+  if (error) throw error;
+};
+
+// Newest first; all statuses when none is given
+export const listReports = async (status?: ReportStatus): Promise<TranslationReport[]> => {
+  let query = supabase
+    .from('translation_reports')
+    .select('id, book_id, book_title, section, hebrew, translation, language, style, segment_hash, model, prompt_version, glossary_version, category, note, suggestion, status, resolution, created_at, resolved_at')
+    .order('created_at', { ascending: false });
+  if (status) query = query.eq('status', status);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map(fromRow);
+};
+
+const resolve = async (report: TranslationReport, status: ReportStatus, resolution: string | null, userId: string) => {
+  const { error } = await supabase
+    .from('translation_reports')
+    .update({ status, resolution, resolved_by: userId, resolved_at: new Date().toISOString() })
+    .eq('id', report.id);
+
+  if (error) throw error;
+};
+
+export const acceptReport = async (report: TranslationReport, correction: string, userId: string, reviewer: string | null): Promise<void> => {
+  const entry: CachedTranslation = {
+    hash: report.segmentHash,
+    translation: correction,
+    language: report.language,
+    style: report.style,
+    model: report.model,
+    prompt_version: report.promptVersion,
+    glossary_version: report.glossaryVersion,
+  };
+  // This device at once; other readers get the correction as the section's
+  // published revision, which the Reader prefers to the cache
+  await putCachedTranslations([entry], null);
+  await saveRevisions([{
+    hebrew: report.hebrew,
+    language: report.language,
+    style: report.style,
+    text: correction,
+    source: 'human',
+    reviewStatus: 'approved',
+    reviewer,
+  }], userId, 'always');
+  await resolve(report, 'accepted', correction, userId);
+};
+
+export const dismissReport = (report: TranslationReport, userId: string): Promise<void> =>
+  resolve(report, 'dismissed', null, userId);
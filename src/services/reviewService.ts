@@ -0,0 +1,106 @@
+import { supabase } from '../integrations/supabase/client';
+import { ChapterReview, ReviewAttempt, ReviewGrade } from '../../types';
+import { QuizDraft } from '../../services/quizService';
+import { newSchedule, scheduleReview } from '../../services/spacedRepetition';
+
+// Chapter review questions and the reader's answers, kept in Supabase for
+// logged-in users and in local storage for guests. One review per chapter.
+
+const LOCAL_KEY = 'chassidus_ai_reviews';
+
+interface ReviewRow {
+  id: string;
+  book_id: string;
+  book_title: string;
+  questions: ChapterReview['questions'];
+  history: ReviewAttempt[];
+  created_at: string;
+  updated_at: string;
+}
+
+const fromRow = (row: ReviewRow): ChapterReview => ({
+  id: row.id,
+  bookId: row.book_id,
+  bookTitle: row.book_title,
+  questions: row.questions || [],
+  history: row.history || [],
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const readLocal = (): ChapterReview[] => JSON.parse(localStorage.getItem(LOCAL_KEY) || '[]');
+
+const writeLocal = (reviews: ChapterReview[]) => localStorage.setItem(LOCAL_KEY, JSON.stringify(reviews));
+
+// New questions are due at once
+export const createReview = (bookId: string, bookTitle: string, drafts: QuizDraft[]): ChapterReview => {
+  const now = new Date();
+  return {
+    id: crypto.randomUUID(),
+    bookId,
+    bookTitle,
+    questions: drafts.map(draft => ({ ...draft, id: crypto.randomUUID(), schedule: newSchedule(now) })),
+    history: [],
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+};
+
+// Records an answer; practice answers (nothing was due) leave the schedule alone
+export const recordAnswer = (review: ChapterReview, questionId: string, grade: ReviewGrade, response?: string, practice = false): ChapterReview => {
+  const now = new Date();
+  return {
+    ...review,
+    questions: practice ? review.questions : review.questions.map(q => q.id === questionId ? { ...q, schedule: scheduleReview(q.schedule, grade, now) } : q),
+    history: [...review.history, { questionId, grade, ...(response ? { response } : {}), at: now.toISOString() }],
+    updatedAt: now.toISOString(),
+  };
+};
+
+// --- Storage ---
+
+export const listReviews = async (userId: string | null): Promise<ChapterReview[]> => {
+  if (!userId) return readLocal();
+
+  const { data, error } = await supabase
+    .from('chapter_reviews')
+    .select('id, book_id, book_title, questions, history, created_at, updated_at')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return (data || []).map(fromRow);
+};
+
+export const saveReview = async (review: ChapterReview, userId: string | null): Promise<void> => {
+  if (!userId) {
+    writeLocal([review, ...readLocal().filter(r => r.id !== review.id)]);
+    return;
+  }
+
+  const { error } = await supabase
+    .from('chapter_reviews')
+    .upsert({
+      id: review.id,
+      user_id: userId,
+      book_id: review.bookId,
+      book_title: review.bookTitle,
+      questions: review.questions,
+      history: review.history,
+      created_at: review.createdAt,
+      updated_at: review.updatedAt,
+    });
+  if (error) throw error;
+};
+
+export const deleteReview = async (reviewId: string, userId: string | null): Promise<void> => {
+  if (!userId) {
+    writeLocal(readLocal().filter(r => r.id !== reviewId));
+    return;
+  }
+
+  const { error } = await supabase
+    .from('chapter_reviews')
+    .delete()
+    .eq('id', reviewId);
+  if (error) throw error;
+};
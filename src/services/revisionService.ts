@@ -0,0 +1,152 @@
+import { supabase } from '../integrations/supabase/client';
+import { RevisionSource, RevisionStatus, SegmentRevision, TargetLanguage, TranslationProvenance, TranslationStyle } from '../../types';
+import { normalizeHebrew, sha256 } from '../../services/contentHash';
+
+// Revision history of section translations. Nothing is overwritten: every
+// model translation and every human correction is a new revision, and the one
+// readers see is published explicitly. Like the translation cache, sections are
+// identified by their content, so a revision follows the Hebrew wherever it appears.
+
+export interface RevisionDraft {
+  hebrew: string;
+  language: TargetLanguage;
+  style: TranslationStyle;
+  text: string;
+  source: RevisionSource;
+  model?: string;
+  promptVersion?: string;
+  reviewStatus?: RevisionStatus;
+  reviewer?: string | null; // With a review status other than unreviewed
+}
+
+interface RevisionRow {
+  id: string;
+  segment_key: string;
+  language: TargetLanguage;
+  style: TranslationStyle;
+  text: string;
+  source: RevisionSource;
+  model: string | null;
+  prompt_version: string | null;
+  created_by: string | null;
+  review_status: RevisionStatus;
+  reviewer_name: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+const COLUMNS = 'id, segment_key, language, style, text, source, model, prompt_version, created_by, review_status, reviewer_name, reviewed_at, created_at';
+
+const fromRow = (row: RevisionRow): SegmentRevision => ({
+  id: row.id,
+  segmentKey: row.segment_key,
+  language: row.language,
+  style: row.style,
+  text: row.text,
+  source: row.source,
+  model: row.model,
+  promptVersion: row.prompt_version,
+  createdBy: row.created_by,
+  reviewStatus: row.review_status,
+  reviewer: row.reviewer_name,
+  reviewedAt: row.reviewed_at,
+  createdAt: row.created_at,
+});
+
+export const revisionProvenance = (revision: SegmentRevision): TranslationProvenance => ({
+  source: revision.source,
+  model: revision.model,
+  promptVersion: revision.promptVersion,
+  reviewStatus: revision.reviewStatus,
+  reviewer: revision.reviewer,
+  reviewedAt: revision.reviewedAt,
+  createdAt: revision.createdAt,
+});
+
+export const segmentKey = async (hebrew: string, language: TargetLanguage, style: TranslationStyle) =>
+  sha256([normalizeHebrew(hebrew), language, style].join('\u0000'));
+
+// Published revisions by segment key (sections without one are missing)
+export const getPublishedRevisions = async (keys: string[]): Promise<Map<string, SegmentRevision>> => {
+  const found = new Map<string, SegmentRevision>();
+  if (keys.length === 0) return found;
+
+  const { data, error } = await supabase
+    .from('segment_publications')
+    .select(`segment_key, revision:segment_revisions(${COLUMNS})`)
+    .in('segment_key', keys);
+
+  if (error) throw error;
+  ((data || []) as unknown as { segment_key: string; revision: RevisionRow | null }[])
+    .forEach(r => { if (r.revision) found.set(r.segment_key, fromRow(r.revision)); });
+  return found;
+};
+
+// Newest first, with the id of the published one
+export const listRevisions = async (key: string): Promise<{ revisions: SegmentRevision[]; publishedId: string | null }> => {
+  const [revisions, publication] = await Promise.all([
+    supabase.from('segment_revisions').select(COLUMNS).eq('segment_key', key).order('created_at', { ascending: false }),
+    supabase.from('segment_publications').select('revision_id').eq('segment_key', key).maybeSingle(),
+  ]);
+
+  if (revisions.error) throw revisions.error;
+  if (publication.error) throw publication.error;
+  return { revisions: (revisions.data || []).map(fromRow), publishedId: publication.data?.revision_id ?? null };
+};
+
+// publish: 'always' makes the new revisions the published ones; 'if-unset'
+// only where nothing is published yet (a new model translation never replaces
+// a chosen one)
+export const saveRevisions = async (drafts: RevisionDraft[], userId: string, publish: 'always' | 'if-unset' | 'never'): Promise<SegmentRevision[]> => {
+  if (drafts.length === 0) return [];
+  const keys = await Promise.all(drafts.map(d => segmentKey(d.hebrew, d.language, d.style)));
+
+  const { data, error } = await supabase
+    .from('segment_revisions')
+    .insert(drafts.map((d, i) => ({
+      segment_key: keys[i],
+      language: d.language,
+      style: d.style,
+      text: d.text,
+      source: d.source,
+      model: d.model ?? null,
+      prompt_version: d.promptVersion ?? null,
+      created_by: userId,
+      review_status: d.reviewStatus ?? 'unreviewed',
+      ...(d.reviewStatus && d.reviewStatus !== 'unreviewed' ? { reviewed_by: userId, reviewer_name: d.reviewer ?? null, reviewed_at: new Date().toISOString() } : {}),
+    })))
+    .select(COLUMNS);
+
+  if (error) throw error;
+  const saved = (data || []).map(fromRow);
+
+  if (publish !== 'never' && saved.length > 0) {
+    // One publication per section, even when the same Hebrew occurs twice
+    const latest = Array.from(new Map(saved.map(r => [r.segmentKey, r])).values());
+    const { error: publishError } = await supabase
+      .from('segment_publications')
+      .upsert(latest.map(r => ({ segment_key: r.segmentKey, revision_id: r.id, published_by: userId, published_at: new Date().toISOString() })),
+        { onConflict: 'segment_key', ignoreDuplicates: publish === 'if-unset' });
+    if (publishError) throw publishError;
+  }
+  return saved;
+};
+
+export const publishRevision = async (revision: SegmentRevision, userId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('segment_publications')
+    .upsert({ segment_key: revision.segmentKey, revision_id: revision.id, published_by: userId, published_at: new Date().toISOString() }, { onConflict: 'segment_key' });
+
+  if (error) throw error;
+};
+
+export const setRevisionStatus = async (revision: SegmentRevision, status: RevisionStatus, userId: string, reviewer: string | null): Promise<SegmentRevision> => {
+  const reviewedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from('segment_revisions')
+    .update({ review_status: status, reviewed_by: userId, reviewer_name: reviewer, reviewed_at: reviewedAt })
+    .eq('id', revision.id);
+
+  if (error) throw error;
+  return { ...revision, reviewStatus: status, reviewer, reviewedAt };
+};
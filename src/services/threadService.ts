@@ -0,0 +1,161 @@
+import { supabase } from '../integrations/supabase/client';
+import { ChatMessage, ChatThread } from '../../types';
+import { htmlToMarkdown, sanitizeHtml } from '../utils/html';
+
+// Orb conversations are kept in Supabase for logged-in users and in local
+// storage for guests, newest first.
+
+const LOCAL_KEY = 'chassidus_ai_threads';
+
+interface ThreadRow {
+  id: string;
+  title: string;
+  book_id: string | null;
+  book_title: string | null;
+  messages: ChatMessage[];
+  created_at: string;
+  updated_at: string;
+}
+
+const fromRow = (row: ThreadRow): ChatThread => ({
+  id: row.id,
+  title: row.title,
+  bookId: row.book_id,
+  bookTitle: row.book_title,
+  messages: row.messages || [],
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const readLocal = (): ChatThread[] => JSON.parse(localStorage.getItem(LOCAL_KEY) || '[]');
+
+const writeLocal = (threads: ChatThread[]) => localStorage.setItem(LOCAL_KEY, JSON.stringify(threads));
+
+const byNewest = (a: ChatThread, b: ChatThread) => b.updatedAt.localeCompare(a.updatedAt);
+
+// Title from the first question, trimmed to fit the thread list
+export const titleFromMessages = (messages: ChatMessage[]): string => {
+  const first = messages.find(m => m.role === 'user')?.content.trim() || 'New conversation';
+  return first.length > 60 ? `${first.slice(0, 57)}…` : first;
+};
+
+// --- Storage ---
+
+export const listThreads = async (userId: string | null): Promise<ChatThread[]> => {
+  if (!userId) return readLocal().sort(byNewest);
+
+  const { data, error } = await supabase
+    .from('chat_threads')
+    .select('id, title, book_id, book_title, messages, created_at, updated_at')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(fromRow);
+};
+
+export const saveThread = async (thread: ChatThread, userId: string | null): Promise<void> => {
+  if (!userId) {
+    writeLocal([thread, ...readLocal().filter(t => t.id !== thread.id)]);
+    return;
+  }
+
+  const { error } = await supabase
+    .from('chat_threads')
+    .upsert({
+      id: thread.id,
+      user_id: userId,
+      title: thread.title,
+      book_id: thread.bookId,
+      book_title: thread.bookTitle,
+      messages: thread.messages,
+      created_at: thread.createdAt,
+      updated_at: thread.updatedAt,
+    });
+  if (error) throw error;
+};
+
+export const deleteThread = async (threadId: string, userId: string | null): Promise<void> => {
+  if (!userId) {
+    writeLocal(readLocal().filter(t => t.id !== threadId));
+    return;
+  }
+
+  const { error } = await supabase
+    .from('chat_threads')
+    .delete()
+    .eq('id', threadId);
+  if (error) throw error;
+};
+
+// --- Export ---
+
+const sourceLabel = (message: ChatMessage, section: number) => {
+  const source = message.sources?.find(s => s.section === section);
+  return source ? `${source.bookTitle}, ${source.chapterTitle}, segment ${source.sequence}` : `Section ${section}`;
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const threadToMarkdown = (thread: ChatThread): string => {
+  const lines = [`# ${thread.title}`, ''];
+  if (thread.bookTitle) lines.push(`_${thread.bookTitle} · ${new Date(thread.createdAt).toLocaleDateString()}_`, '');
+
+  thread.messages.forEach(message => {
+    if (message.role === 'user') {
+      lines.push(`**Question:** ${message.content}`, '');
+      return;
+    }
+    lines.push(htmlToMarkdown(message.content), '');
+    const citations = message.response?.citations || [];
+    if (citations.length > 0) {
+      lines.push('Sources:');
+      citations.forEach((c, i) => {
+        const status = message.verification?.checks[i]?.status;
+        lines.push(`- [Section ${c.section}] ${sourceLabel(message, c.section)}${c.quote ? ` — "${c.quote}"` : ''}${status ? ` (${status})` : ''}`);
+      });
+      lines.push('');
+    }
+  });
+  return lines.join('\n').trim() + '\n';
+};
+
+export const threadToHtml = (thread: ChatThread): string => {
+  const body = thread.messages.map(message => {
+    if (message.role === 'user') return `<h3>${escapeHtml(message.content)}</h3>`;
+    const citations = message.response?.citations || [];
+    const sources = citations.length === 0 ? '' : `<ul class="sources">${citations.map((c, i) => {
+      const status = message.verification?.checks[i]?.status;
+      return `<li>[Section ${c.section}] ${escapeHtml(sourceLabel(message, c.section))}${c.quote ? ` — <span dir="rtl">${escapeHtml(c.quote)}</span>` : ''}${status ? ` <em>(${status})</em>` : ''}</li>`;
+    }).join('')}</ul>`;
+    return `<div class="answer">${sanitizeHtml(message.content)}</div>${sources}`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(thread.title)}</title>
+<style>body{font-family:Georgia,serif;max-width:720px;margin:3rem auto;line-height:1.7;color:#222}h3{font-family:sans-serif;font-size:1rem;margin-top:2.5rem}.sources{font-size:.85rem;color:#666}</style>
+</head>
+<body>
+<h1>${escapeHtml(thread.title)}</h1>
+${thread.bookTitle ? `<p><em>${escapeHtml(thread.bookTitle)} · ${new Date(thread.createdAt).toLocaleDateString()}</em></p>` : ''}
+${body}
+</body>
+</html>
+`;
+};
+
+export const downloadThread = (thread: ChatThread, format: 'md' | 'html') => {
+  const content = format === 'md' ? threadToMarkdown(thread) : threadToHtml(thread);
+  const blob = new Blob([content], { type: format === 'md' ? 'text/markdown' : 'text/html' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${thread.title.replace(/[^\w\u0590-\u05FF -]+/g, '').trim() || 'conversation'}.${format}`;
+  link.click();
+  // Some browsers start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,199 @@
+import { supabase } from '../integrations/supabase/client';
+import { AIConfig, GlossaryEntry, TargetLanguage, TranslationStyle, WordAlignment } from '../../types';
+import { findGlossaryTerms, glossaryVersion } from '../../services/glossaryService';
+import { normalizeHebrew, sha256 } from '../../services/contentHash';
+import { requiresApiKey } from '../../services/aiProvider';
+
+// Translations are cached by content, not by location: the same Hebrew segment
+// translated into the same language and style by the same endpoint and model,
+// with the same prompt and relevant glossary terms, is reused across chapters,
+// books, users and devices.
+
+const DB_NAME = 'chassidus-ai';
+const STORE_NAME = 'translations';
+
+export interface CachedTranslation {
+  hash: string;
+  translation: string;
+  language: TargetLanguage;
+  style: TranslationStyle;
+  model: string;
+  prompt_version: string;
+  glossary_version: string;
+  alignment?: WordAlignment[] | null; // Interlinear word pairs for this translation (this device only)
+  alignment_version?: string | null;
+}
+
+export interface TranslationCacheParams {
+  language: TargetLanguage;
+  style: TranslationStyle;
+  config: AIConfig; // Provider, endpoint and model
+  promptVersion: string;
+  glossary: GlossaryEntry[];
+}
+
+export const buildCacheEntry = async (hebrew: string, { language, style, config, promptVersion, glossary }: TranslationCacheParams) => {
+  // Only the glossary terms that occur in this segment affect its translation
+  const version = glossaryVersion(findGlossaryTerms(hebrew, glossary));
+  // Two endpoints may serve different models under the same name
+  const endpoint = [config.provider, (config.baseUrl || '').replace(/\/+$/, '')].join(' ');
+  const hash = await sha256([normalizeHebrew(hebrew), language, style, endpoint, config.model, promptVersion, version].join('\u0000'));
+  return { hash, language, style, model: config.model, prompt_version: promptVersion, glossary_version: version };
+};
+
+// Only hosted vendors' output goes to the shared table. The fake provider's
+// canned text and local or custom endpoints stay on this device.
+export const sharesCache = (config: AIConfig) => requiresApiKey(config);
+
+// --- IndexedDB (local, all users) ---
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME, { keyPath: 'hash' });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const getLocal = async (hashes: string[]): Promise<CachedTranslation[]> => {
+  const db = await openDb();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  const results = await Promise.all(hashes.map(hash => new Promise<CachedTranslation | undefined>((resolve) => {
+    const request = store.get(hash);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(undefined);
+  })));
+  return results.filter((r): r is CachedTranslation => !!r);
+};
+
+const putLocal = async (entries: CachedTranslation[]) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  entries.forEach(entry => tx.objectStore(STORE_NAME).put(entry));
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// --- Public API ---
+
+// Returns cached translations keyed by hash. Local first, then Supabase for logged-in users.
+export const getCachedTranslations = async (hashes: string[], userId: string | null): Promise<Map<string, string>> => {
+  const found = new Map<string, string>();
+  try {
+    (await getLocal(hashes)).forEach(r => found.set(r.hash, r.translation));
+  } catch (error) {
+    console.error('Error reading local translation cache:', error);
+  }
+
+  const missing = hashes.filter(h => !found.has(h));
+  if (userId && missing.length > 0) {
+    const { data, error } = await supabase
+      .from('translation_cache')
+      .select('hash, translation, language, style, model, prompt_version, glossary_version')
+      .in('hash', missing);
+
+    if (error) {
+      console.error('Error reading translation cache:', error);
+    } else if (data && data.length > 0) {
+      data.forEach(r => found.set(r.hash, r.translation));
+      // Warm the local cache so the next visit is offline-fast
+      putLocal(data).catch(e => console.error('Error writing local translation cache:', e));
+    }
+  }
+
+  return found;
+};
+
+// sharedBy: the admin writing the shared rows (null: this device only).
+// replace: a retranslation, which overwrites the shared row rather than leaving it be
+export const putCachedTranslations = async (entries: CachedTranslation[], sharedBy: string | null, replace = false) => {
+  if (entries.length === 0) return;
+  try {
+    // A new translation invalidates any alignment stored with the old one
+    await putLocal(entries.map(e => ({ ...e, alignment: null, alignment_version: null })));
+  } catch (error) {
+    console.error('Error writing local translation cache:', error);
+  }
+
+  if (sharedBy) {
+    const { error } = await supabase
+      .from('translation_cache')
+      .upsert(entries.map(({ alignment, alignment_version, ...e }) => ({ ...e, created_by: sharedBy })), { onConflict: 'hash', ignoreDuplicates: !replace });
+    if (error) console.error('Error writing translation cache:', error);
+  }
+};
+
+// --- Alignments ---
+// Locally they are stored on the translation they belong to; shared ones live
+// in their own table, written by admins and keyed by the text they align.
+
+export interface AlignmentTarget {
+  hash: string; // Cache entry of the section
+  translation: string; // The text that is (or was) aligned
+}
+
+export const getCachedAlignments = async (targets: AlignmentTarget[], version: string, userId: string | null): Promise<Map<string, WordAlignment[]>> => {
+  const found = new Map<string, WordAlignment[]>();
+  try {
+    const local = new Map((await getLocal(targets.map(t => t.hash))).map(r => [r.hash, r]));
+    targets.forEach(t => {
+      const r = local.get(t.hash);
+      if (r?.alignment && r.alignment_version === version && r.translation === t.translation) found.set(t.hash, r.alignment);
+    });
+  } catch (error) {
+    console.error('Error reading local translation cache:', error);
+  }
+
+  const missing = targets.filter(t => !found.has(t.hash));
+  if (userId && missing.length > 0) {
+    const keys = await Promise.all(missing.map(t => sha256(t.translation)));
+    const { data, error } = await supabase
+      .from('translation_alignments')
+      .select('hash, translation_hash, alignment')
+      .in('hash', missing.map(t => t.hash))
+      .in('translation_hash', keys)
+      .eq('alignment_version', version);
+
+    if (error) {
+      console.error('Error reading cached alignments:', error);
+    } else {
+      (data || [])
+        .filter(r => keys[missing.findIndex(t => t.hash === r.hash)] === r.translation_hash)
+        .forEach(r => found.set(r.hash, r.alignment));
+    }
+  }
+
+  return found;
+};
+
+// sharedBy: the admin writing the shared rows (null: this device only)
+export const putCachedAlignments = async (entries: (AlignmentTarget & { alignment: WordAlignment[] })[], version: string, sharedBy: string | null) => {
+  if (entries.length === 0) return;
+  try {
+    // Only where this device holds the same text
+    const existing = await getLocal(entries.map(e => e.hash));
+    await putLocal(existing.flatMap(r => {
+      const entry = entries.find(e => e.hash === r.hash && e.translation === r.translation);
+      return entry ? [{ ...r, alignment: entry.alignment, alignment_version: version }] : [];
+    }));
+  } catch (error) {
+    console.error('Error writing local translation cache:', error);
+  }
+
+  if (sharedBy) {
+    const rows = await Promise.all(entries.map(async e => ({
+      hash: e.hash,
+      translation_hash: await sha256(e.translation),
+      alignment_version: version,
+      alignment: e.alignment,
+      created_by: sharedBy
+    })));
+    const { error } = await supabase
+      .from('translation_alignments')
+      .upsert(rows, { onConflict: 'hash,translation_hash,alignment_version', ignoreDuplicates: true });
+    if (error) console.error('Error writing cached alignments:', error);
+  }
+};
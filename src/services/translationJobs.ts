@@ -0,0 +1,267 @@
+import { AIConfig, GlossaryEntry, TargetLanguage } from '../../types';
+import { translateParagraph, LIBRARY_TRANSLATION_STYLE } from '../../services/geminiService';
+import { promptVersion } from '../../services/promptRegistry';
+import { isConfigured } from '../../services/aiProvider';
+import { getChapters, getChapterSegments, updateSegmentTranslation, Segment } from './libraryService';
+import { buildCacheEntry, getCachedTranslations, putCachedTranslations, sharesCache } from './translationCache';
+
+// Batch translation of whole chapters/books into segment_translations, one job
+// per chapter and target language. Progress is checkpointed to local storage after every batch; segments that
+// already have a translation are skipped, so a closed tab simply picks up
+// where it stopped.
+
+export type JobStatus = 'queued' | 'running' | 'failed' | 'finished';
+
+export interface SegmentError {
+  segmentId: string;
+  sequence: number;
+  message: string;
+}
+
+export interface ChapterJob {
+  id: string; // chapterId:language
+  chapterId: string;
+  language: TargetLanguage;
+  chapterTitle: string;
+  bookId: string;
+  bookTitle: string;
+  status: JobStatus;
+  translated: number;
+  total: number;
+  errors: SegmentError[];
+  updatedAt: string;
+}
+
+export interface JobRunOptions {
+  config: AIConfig;
+  glossary: GlossaryEntry[];
+  userId: string | null;
+}
+
+const STORAGE_KEY = 'chassidus_ai_translation_jobs';
+const BATCH_SIZE = 5;             // Segments per model call (keeps paragraph flow)
+const MIN_INTERVAL_MS = 1500;     // Spacing between calls to stay under rate limits
+const MAX_ATTEMPTS = 5;
+const BASE_BACKOFF_MS = 2000;
+const ESTIMATED_CHAPTER_SEGMENTS = 40; // For chapters whose size is not known until they run
+
+let jobs: ChapterJob[] = [];
+let isRunning = false;
+let stopRequested = false;
+const listeners = new Set<(jobs: ChapterJob[]) => void>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const save = () => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+  listeners.forEach(listener => listener([...jobs]));
+};
+
+const jobId = (chapterId: string, language: TargetLanguage) => `${chapterId}:${language}`;
+
+const load = () => {
+  const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]') as ChapterJob[];
+  jobs = saved.map((j): ChapterJob => {
+    // Checkpoints from before per-language jobs were English
+    const language = j.language || 'en';
+    const job = { ...j, language, id: jobId(j.chapterId, language) };
+    // A job that was running when the tab closed goes back to the queue
+    return job.status === 'running' ? { ...job, status: 'queued' } : job;
+  });
+};
+
+const updateJob = (id: string, patch: Partial<ChapterJob>) => {
+  jobs = jobs.map(j => j.id === id ? { ...j, ...patch, updatedAt: new Date().toISOString() } : j);
+  save();
+};
+
+const isRateLimit = (error: unknown) =>
+  /429|rate|quota|exhausted/i.test(error instanceof Error ? error.message : String(error));
+
+// Retries with exponential backoff (longer when the provider reports a rate limit)
+const withBackoff = async <T>(task: () => Promise<T>): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS || stopRequested) throw error;
+      const delay = BASE_BACKOFF_MS * 2 ** (attempt - 1) * (isRateLimit(error) ? 3 : 1);
+      await sleep(delay);
+    }
+  }
+};
+
+const translateSegments = async (segments: Segment[], language: TargetLanguage, { config, glossary, userId }: JobRunOptions) => {
+  const cacheEntries = await Promise.all(segments.map(s => buildCacheEntry(s.hebrew_text, {
+    language,
+    style: LIBRARY_TRANSLATION_STYLE,
+    config,
+    promptVersion: promptVersion('translate', config.promptOverrides),
+    glossary
+  })));
+  const sharedUserId = sharesCache(config) ? userId : null;
+  const cached = await getCachedTranslations(cacheEntries.map(e => e.hash), sharedUserId);
+  const misses = segments.filter((_, i) => !cached.has(cacheEntries[i].hash));
+
+  let fresh: string[] = [];
+  if (misses.length > 0) {
+    fresh = await withBackoff(() => translateParagraph(misses.map(s => s.hebrew_text), config, glossary, language, LIBRARY_TRANSLATION_STYLE));
+    // Jobs are run by admins, who write the shared cache
+    await putCachedTranslations(misses
+      .map(s => ({ ...cacheEntries[segments.indexOf(s)], translation: fresh[misses.indexOf(s)] }))
+      .filter(e => !!e.translation), sharedUserId);
+  }
+
+  return segments.map((s, i) => cached.get(cacheEntries[i].hash) || fresh[misses.indexOf(s)] || null);
+};
+
+// Books the job's requests to its book in the usage ledger
+const withBook = (job: ChapterJob, options: JobRunOptions): JobRunOptions =>
+  ({ ...options, config: { ...options.config, book: { id: job.bookId, title: job.bookTitle } } });
+
+const runChapter = async (job: ChapterJob, options: JobRunOptions) => {
+  updateJob(job.id, { status: 'running', errors: [] });
+
+  const segments = await getChapterSegments(job.chapterId, job.language);
+  const pending = segments.filter(s => !s.translation);
+  let translated = segments.length - pending.length;
+  const errors: SegmentError[] = [];
+  updateJob(job.id, { total: segments.length, translated });
+
+  for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+    if (stopRequested) {
+      updateJob(job.id, { status: 'queued', errors });
+      return;
+    }
+
+    const batch = pending.slice(i, i + BATCH_SIZE);
+    try {
+      const translations = await translateSegments(batch, job.language, withBook(job, options));
+      for (let n = 0; n < batch.length; n++) {
+        const segment = batch[n];
+        if (!translations[n]) {
+          errors.push({ segmentId: segment.id, sequence: segment.sequence_number, message: 'Model returned no translation' });
+          continue;
+        }
+        await updateSegmentTranslation(segment.id, job.language, translations[n]!, options.userId, promptVersion('translate', options.config.promptOverrides), options.config.model);
+        translated++;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      batch.forEach(segment => errors.push({ segmentId: segment.id, sequence: segment.sequence_number, message }));
+    }
+
+    // Checkpoint after every batch
+    updateJob(job.id, { translated, errors });
+    await sleep(MIN_INTERVAL_MS);
+  }
+
+  updateJob(job.id, { status: errors.length > 0 ? 'failed' : 'finished', errors });
+};
+
+// --- Public API ---
+
+export const getJobs = (): ChapterJob[] => [...jobs];
+
+export const isJobRunnerActive = () => isRunning;
+
+// Segments the queued jobs still have to translate (for usage estimates)
+export const estimateQueuedSegments = (list: ChapterJob[]) => list
+  .filter(j => j.status === 'queued')
+  .reduce((sum, j) => sum + (j.total > 0 ? j.total - j.translated : ESTIMATED_CHAPTER_SEGMENTS), 0);
+
+export const subscribeToJobs = (listener: (jobs: ChapterJob[]) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const enqueueChapter = (chapter: { id: string; title: string }, book: { id: string; title: string }, language: TargetLanguage) => {
+  const id = jobId(chapter.id, language);
+  const existing = jobs.find(j => j.id === id);
+  if (existing && (existing.status === 'queued' || existing.status === 'running')) return;
+
+  const job: ChapterJob = {
+    id,
+    chapterId: chapter.id,
+    language,
+    chapterTitle: chapter.title,
+    bookId: book.id,
+    bookTitle: book.title,
+    status: 'queued',
+    translated: existing?.translated || 0,
+    total: existing?.total || 0,
+    errors: [],
+    updatedAt: new Date().toISOString()
+  };
+  jobs = existing ? jobs.map(j => j.id === id ? job : j) : [...jobs, job];
+  save();
+};
+
+export const enqueueBook = async (book: { id: string; title: string }, language: TargetLanguage) => {
+  const chapters = await getChapters(book.id);
+  chapters.forEach(chapter => enqueueChapter(chapter, book, language));
+};
+
+// Re-queues a failed or finished chapter; only untranslated segments are sent again
+export const retryChapter = (id: string) => {
+  const job = jobs.find(j => j.id === id);
+  if (job) enqueueChapter({ id: job.chapterId, title: job.chapterTitle }, { id: job.bookId, title: job.bookTitle }, job.language);
+};
+
+export const retrySegment = async (id: string, segmentId: string, options: JobRunOptions) => {
+  const job = jobs.find(j => j.id === id);
+  if (!job) return;
+  const segment = (await getChapterSegments(job.chapterId, job.language)).find(s => s.id === segmentId);
+  if (!segment) return;
+
+  try {
+    const [translation] = await translateSegments([segment], job.language, withBook(job, options));
+    if (!translation) throw new Error('Model returned no translation');
+    await updateSegmentTranslation(segment.id, job.language, translation, options.userId, promptVersion('translate', options.config.promptOverrides), options.config.model);
+    const errors = job.errors.filter(e => e.segmentId !== segmentId);
+    updateJob(id, {
+      translated: job.translated + 1,
+      errors,
+      status: errors.length === 0 && job.status === 'failed' ? 'finished' : job.status
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    updateJob(id, { errors: job.errors.map(e => e.segmentId === segmentId ? { ...e, message } : e) });
+  }
+};
+
+export const removeJob = (id: string) => {
+  jobs = jobs.filter(j => j.id !== id || j.status === 'running');
+  save();
+};
+
+// Processes queued chapters one at a time until the queue is empty or stopJobs() is called
+export const runJobs = async (options: JobRunOptions) => {
+  if (isRunning) return;
+  // Never write free tier mock text into the library
+  if (!isConfigured(options.config)) throw new Error('Configure an AI provider before running batch translations.');
+
+  isRunning = true;
+  stopRequested = false;
+  save();
+  try {
+    let next: ChapterJob | undefined;
+    while (!stopRequested && (next = jobs.find(j => j.status === 'queued'))) {
+      try {
+        await runChapter(next, options);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        updateJob(next.id, { status: 'failed', errors: [{ segmentId: '', sequence: 0, message }] });
+      }
+    }
+  } finally {
+    isRunning = false;
+    save();
+  }
+};
+
+export const stopJobs = () => {
+  stopRequested = true;
+};
+
+load();
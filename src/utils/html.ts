@@ -0,0 +1,55 @@
+// Tags and attributes the AI is allowed to emit; everything else is unwrapped
+const ALLOWED_TAGS = new Set(['B', 'I', 'EM', 'STRONG', 'BR', 'P', 'SPAN', 'A', 'UL', 'OL', 'LI']);
+const ALLOWED_ATTRS: Record<string, string[]> = {
+  A: ['href', 'target', 'class'],
+  SPAN: ['class'],
+};
+
+const cleanNode = (node: Element) => {
+  Array.from(node.children).forEach(child => {
+    cleanNode(child);
+    if (!ALLOWED_TAGS.has(child.tagName)) {
+      // Drop scripts entirely, keep the text of any other unknown tag
+      if (child.tagName === 'SCRIPT' || child.tagName === 'STYLE') child.remove();
+      else child.replaceWith(...Array.from(child.childNodes));
+      return;
+    }
+    const allowed = ALLOWED_ATTRS[child.tagName] || [];
+    Array.from(child.attributes).forEach(attr => {
+      if (!allowed.includes(attr.name)) child.removeAttribute(attr.name);
+    });
+    if (child.tagName === 'A') {
+      const href = child.getAttribute('href') || '';
+      if (!/^https?:\/\//i.test(href)) child.removeAttribute('href');
+      child.setAttribute('rel', 'noreferrer');
+    }
+  });
+};
+
+// Sanitizes model HTML for dangerouslySetInnerHTML. Also safe for partial
+// (streaming) output: a dangling "<b" is dropped and open tags are auto-closed.
+export const sanitizeHtml = (html: string): string => {
+  const doc = new DOMParser().parseFromString(`<body>${html.replace(/<[^>]*$/, '')}</body>`, 'text/html');
+  cleanNode(doc.body);
+  return doc.body.innerHTML;
+};
+
+// Plain Markdown from model HTML (for exports): bold/italic kept, links inlined, other tags dropped
+export const htmlToMarkdown = (html: string): string => {
+  const doc = new DOMParser().parseFromString(`<body>${sanitizeHtml(html)}</body>`, 'text/html');
+  const walk = (node: Node): string => Array.from(node.childNodes).map(child => {
+    if (child.nodeType === Node.TEXT_NODE) return child.textContent || '';
+    if (!(child instanceof Element)) return '';
+    const inner = walk(child);
+    switch (child.tagName) {
+      case 'B': case 'STRONG': return `**${inner}**`;
+      case 'I': case 'EM': return `_${inner}_`;
+      case 'BR': return '\n';
+      case 'P': return `${inner}\n\n`;
+      case 'LI': return `- ${inner}\n`;
+      case 'A': return child.getAttribute('href') ? `[${inner}](${child.getAttribute('href')})` : inner;
+      default: return inner;
+    }
+  }).join('');
+  return walk(doc.body).replace(/\n{3,}/g, '\n\n').trim();
+};
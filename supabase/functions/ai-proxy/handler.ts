@@ -0,0 +1,182 @@
+import { TARGET_LANGUAGES, TRANSLATION_STYLES } from "../../../constants.ts";
+import type { TargetLanguage, TranslationStyle } from "../../../types.ts";
+import { mergeGlossary } from "../../../services/glossaryService.ts";
+import { isOneOf, isRecord } from "../../../services/jsonShape.ts";
+import { buildChatPrompt, buildTranslatePrompt, CHAT_RESPONSE_SCHEMA, ChatTurn, ProxyInput } from "../../../services/taskPrompts.ts";
+
+// Request handling for the free tier AI proxy. The AI call, the quota store and
+// the user lookup are passed in, so the handler runs the same against the fake
+// provider (AI_PROXY_PROVIDER=fake) or with stubs in a test.
+//
+// Clients send a task's inputs (segments to translate, a question and its
+// context); the prompt is built here from the app's templates, so the project's
+// key only ever answers those prompts.
+
+export type ProxyTask = 'translate' | 'chat';
+
+// The prompt built for a request, as the AI backend receives it
+export interface ProxyRequest {
+  task: ProxyTask;
+  prompt: string;
+  json?: boolean;
+  schema?: Record<string, unknown>;
+}
+
+export interface ProxyResult {
+  text: string;
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+export interface Quota {
+  subject: string; // 'user:<id>' or 'ip:<address>'
+  limit: number;
+}
+
+export interface QuotaState {
+  allowed: boolean;
+  limit: number;     // Of the quota closest to running out
+  remaining: number;
+}
+
+export interface ProxyLimits {
+  user: number;      // Per signed-in user and day
+  anonymous: number; // Per address and day, without an account
+  ip: number;        // Per address and day, all accounts behind it together
+}
+
+export interface ProxyDeps {
+  generate: (request: ProxyRequest) => Promise<ProxyResult>;
+  consumeQuota: (quotas: Quota[]) => Promise<QuotaState>;
+  refundQuota: (quotas: Quota[]) => Promise<void>; // A failed AI call does not count
+  getUserId: (authorization: string | null) => Promise<string | null>;
+  limits: ProxyLimits;
+  model: string;
+}
+
+const LANGUAGES = Object.keys(TARGET_LANGUAGES) as TargetLanguage[];
+const STYLES = Object.keys(TRANSLATION_STYLES) as TranslationStyle[];
+const MAX_INPUT_CHARS = 60000; // All the text of a request together
+const MAX_SEGMENTS = 100;
+const MAX_TURNS = 50;
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers': 'x-quota-limit, x-quota-remaining, x-quota-reset',
+};
+
+// Quotas are counted per UTC day
+const nextReset = (now: Date) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)).toISOString();
+
+// Only addresses the platform sets: the client can send any X-Forwarded-For, but
+// the last hop is the one the platform's proxy appended
+export const clientIp = (req: Request) =>
+  req.headers.get('cf-connecting-ip') || req.headers.get('x-forwarded-for')?.split(',').pop()?.trim() || 'unknown';
+
+// An address is shared by everyone behind it: without an account it allows
+// only a little; signed-in users have their own quota and a larger share
+export const quotasFor = (userId: string | null, ip: string, limits: ProxyLimits): Quota[] => userId
+  ? [{ subject: `user:${userId}`, limit: limits.user }, { subject: `ip:${ip}`, limit: limits.ip }]
+  : [{ subject: `ip:${ip}`, limit: limits.anonymous }];
+
+const json = (body: unknown, status: number, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, ...headers, 'Content-Type': 'application/json' },
+    status,
+  });
+
+const isStrings = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const isTurn = (value: unknown): value is ChatTurn =>
+  isRecord(value) && (value.role === 'user' || value.role === 'model') && typeof value.content === 'string';
+
+// A task's inputs, or null when anything is missing, malformed or too long
+export const parseInput = (body: unknown): ProxyInput | null => {
+  if (!isRecord(body)) return null;
+
+  if (body.task === 'translate') {
+    const { segments, language, style } = body;
+    if (!isStrings(segments) || segments.length === 0 || segments.length > MAX_SEGMENTS) return null;
+    if (!isOneOf(LANGUAGES, language) || !isOneOf(STYLES, style)) return null;
+    if (segments.join('').length > MAX_INPUT_CHARS) return null;
+    return { task: 'translate', segments, language, style };
+  }
+
+  if (body.task === 'chat') {
+    const { query, context, history, focusText } = body;
+    if (typeof query !== 'string' || !query.trim() || typeof context !== 'string') return null;
+    if (!Array.isArray(history) || history.length > MAX_TURNS || !history.every(isTurn)) return null;
+    if (focusText !== undefined && typeof focusText !== 'string') return null;
+    const focus = typeof focusText === 'string' ? focusText : '';
+    const size = query.length + context.length + focus.length + history.reduce((n, turn) => n + turn.content.length, 0);
+    if (size > MAX_INPUT_CHARS) return null;
+    return {
+      task: 'chat',
+      query,
+      context,
+      history: history.map(({ role, content }) => ({ role, content })),
+      ...(focus ? { focusText: focus } : {}),
+    };
+  }
+
+  return null;
+};
+
+// The free tier translates with the built-in glossary and the default templates
+export const buildRequest = (input: ProxyInput): ProxyRequest => input.task === 'translate'
+  ? { task: 'translate', prompt: buildTranslatePrompt(input, mergeGlossary()).prompt, json: true }
+  : { task: 'chat', prompt: buildChatPrompt(input).prompt, schema: CHAT_RESPONSE_SCHEMA };
+
+const parseRequest = async (req: Request): Promise<ProxyRequest | null> => {
+  try {
+    const input = parseInput(await req.json());
+    return input && buildRequest(input);
+  } catch (_) {
+    return null;
+  }
+};
+
+export const createHandler = (deps: ProxyDeps) => async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const request = await parseRequest(req);
+  if (!request) {
+    return json({
+      error: `Expected {"task": "translate", "segments", "language", "style"} or {"task": "chat", "query", "context", "history"} (at most ${MAX_INPUT_CHARS} characters of text)`,
+    }, 400);
+  }
+
+  try {
+    const userId = await deps.getUserId(req.headers.get('Authorization'));
+    const quotas = quotasFor(userId, clientIp(req), deps.limits);
+    const quota = await deps.consumeQuota(quotas);
+    const quotaHeaders = {
+      'X-Quota-Limit': String(quota.limit),
+      'X-Quota-Remaining': String(Math.max(0, quota.remaining)),
+      'X-Quota-Reset': nextReset(new Date()),
+    };
+
+    if (!quota.allowed) {
+      return json({ error: 'Daily free quota used up' }, 429, quotaHeaders);
+    }
+
+    let result: ProxyResult;
+    try {
+      result = await deps.generate(request);
+    } catch (error) {
+      await deps.refundQuota(quotas).catch(e => console.error('Quota refund failed:', e));
+      throw error;
+    }
+    return json({ text: result.text, usage: result.usage, model: deps.model }, 200, quotaHeaders);
+  } catch (error) {
+    console.error('AI proxy error:', error);
+    return json({ error: error instanceof Error ? error.message : 'AI proxy error' }, 502);
+  }
+};
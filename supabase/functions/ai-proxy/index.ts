@@ -0,0 +1,56 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createHandler, QuotaState } from "./handler.ts";
+import { createFakeGenerate, createGeminiGenerate } from "./providers.ts";
+
+// Free tier AI: translate and chat requests from users without their own key,
+// answered with the project's key within daily quotas.
+//
+// Environment:
+//   GEMINI_API_KEY            The project's key
+//   AI_PROXY_PROVIDER         'gemini' (default) or 'fake' for deterministic replies
+//   AI_PROXY_MODEL            Default gemini-2.5-flash
+//   AI_PROXY_USER_LIMIT       Requests per signed-in user and day (default 100)
+//   AI_PROXY_ANONYMOUS_LIMIT  Requests per address and day without an account (default 20)
+//   AI_PROXY_IP_LIMIT         Requests per address and day, all accounts together (default 300)
+
+const env = (name: string, fallback: string) => Deno.env.get(name) || fallback;
+const limit = (name: string, fallback: number) => Number(Deno.env.get(name)) || fallback;
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+const model = env('AI_PROXY_MODEL', 'gemini-2.5-flash');
+
+serve(createHandler({
+  generate: env('AI_PROXY_PROVIDER', 'gemini') === 'fake'
+    ? createFakeGenerate(model)
+    : createGeminiGenerate(env('GEMINI_API_KEY', ''), model),
+
+  consumeQuota: async (quotas) => {
+    const { data, error } = await supabase.rpc('consume_ai_quota', {
+      p_subjects: quotas.map(q => q.subject),
+      p_limits: quotas.map(q => q.limit),
+    });
+    if (error) throw new Error(`Quota check failed: ${error.message}`);
+    return data as QuotaState;
+  },
+
+  refundQuota: async (quotas) => {
+    const { error } = await supabase.rpc('refund_ai_quota', { p_subjects: quotas.map(q => q.subject) });
+    if (error) throw new Error(`Quota refund failed: ${error.message}`);
+  },
+
+  // The anon key is a valid bearer token too; it just has no user
+  getUserId: async (authorization) => {
+    const token = authorization?.replace(/^Bearer\s+/i, '');
+    if (!token) return null;
+    const { data } = await supabase.auth.getUser(token);
+    return data.user?.id || null;
+  },
+
+  limits: {
+    user: limit('AI_PROXY_USER_LIMIT', 100),
+    anonymous: limit('AI_PROXY_ANONYMOUS_LIMIT', 20),
+    ip: limit('AI_PROXY_IP_LIMIT', 300),
+  },
+  model,
+}));
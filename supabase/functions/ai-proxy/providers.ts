@@ -0,0 +1,47 @@
+import type { ProxyRequest, ProxyResult } from "./handler.ts";
+import { createFakeProvider } from "../../../services/providers/fakeProvider.ts";
+
+// The proxy's AI backends: Gemini with the project's key, or a deterministic
+// fake (the app's fake provider) for local runs and tests.
+
+const GEMINI_ENDPOINT = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+export const createGeminiGenerate = (apiKey: string, model: string) => async ({ prompt, json, schema }: ProxyRequest): Promise<ProxyResult> => {
+  if (!apiKey) throw new Error('GEMINI_API_KEY is not set');
+
+  const response = await fetch(`${GEMINI_ENDPOINT}/${model}:generateContent`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+    body: JSON.stringify({
+      contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      generationConfig: {
+        ...(json || schema ? { responseMimeType: 'application/json' } : {}),
+        ...(schema ? { responseJsonSchema: schema } : {}),
+      },
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Gemini error: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  const text = (data.candidates?.[0]?.content?.parts || []).map((p: { text?: string }) => p.text || '').join('');
+  const usage = data.usageMetadata;
+  return {
+    text,
+    ...(usage?.promptTokenCount ? {
+      usage: {
+        inputTokens: usage.promptTokenCount,
+        outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+      }
+    } : {}),
+  };
+};
+
+// The app's fake provider, answering the prompts built by the handler
+export const createFakeGenerate = (model: string) => {
+  const provider = createFakeProvider();
+  return ({ task, prompt, json, schema }: ProxyRequest): Promise<ProxyResult> =>
+    provider.generate({ task, prompt, json, schema, model });
+};
@@ -0,0 +1,3 @@
+-- Per-user terminology overrides applied on top of the built-in glossary
+alter table public.profiles
+  add column if not exists glossary jsonb;
@@ -0,0 +1,38 @@
+-- Content-addressed translation cache shared across users and devices.
+-- hash = sha256(normalized Hebrew, provider and endpoint, model, prompt version, glossary version)
+-- Only hosted vendors' output is stored here, never the fake provider's or a local endpoint's.
+-- Only admins write it (the hashes are computed from public inputs, so an open
+-- table could be filled with anything); other users' translations stay on
+-- their devices. Admins can replace a row by retranslating, or delete it.
+create table if not exists public.translation_cache (
+  hash text primary key,
+  translation text not null,
+  model text not null,
+  prompt_version text not null,
+  glossary_version text not null,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.translation_cache enable row level security;
+
+create policy "Logged-in users can read cached translations"
+  on public.translation_cache for select
+  to authenticated
+  using (true);
+
+create policy "Admins can add cached translations"
+  on public.translation_cache for insert
+  to authenticated
+  with check (public.is_admin() and created_by = auth.uid());
+
+create policy "Admins can replace cached translations"
+  on public.translation_cache for update
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin() and created_by = auth.uid());
+
+create policy "Admins can delete cached translations"
+  on public.translation_cache for delete
+  to authenticated
+  using (public.is_admin());
@@ -0,0 +1,4 @@
+-- How the Reader shows Rashei Teivos expansions: 'off', 'hover' or 'inline'
+alter table public.profiles
+  add column if not exists abbreviation_mode text
+  check (abbreviation_mode in ('off', 'hover', 'inline'));
@@ -0,0 +1,22 @@
+-- Saved Orb conversations, one row per thread
+create table if not exists public.chat_threads (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null,
+  book_id text,
+  book_title text,
+  messages jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists chat_threads_user_updated_idx
+  on public.chat_threads (user_id, updated_at desc);
+
+alter table public.chat_threads enable row level security;
+
+create policy "Users can manage their own threads"
+  on public.chat_threads for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
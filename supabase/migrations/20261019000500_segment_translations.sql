@@ -0,0 +1,43 @@
+-- Translations per target language, replacing the single
+-- segments.english_translation column (kept for now, no longer written).
+create table if not exists public.segment_translations (
+  segment_id uuid not null references public.segments (id) on delete cascade,
+  language text not null check (language in ('en', 'ru', 'fr', 'es', 'yi')),
+  translation text not null,
+  updated_by uuid references auth.users (id) on delete set null,
+  updated_at timestamptz not null default now(),
+  primary key (segment_id, language)
+);
+
+insert into public.segment_translations (segment_id, language, translation)
+select id, 'en', english_translation
+from public.segments
+where english_translation is not null
+on conflict do nothing;
+
+alter table public.segment_translations enable row level security;
+
+create policy "Anyone can read segment translations"
+  on public.segment_translations for select
+  using (true);
+
+-- The published library text: only admins (and the service role) write it
+create policy "Admins can add segment translations"
+  on public.segment_translations for insert
+  to authenticated
+  with check (public.is_admin() and updated_by = auth.uid());
+
+create policy "Admins can update segment translations"
+  on public.segment_translations for update
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin() and updated_by = auth.uid());
+
+-- Cached translations are now keyed by language too (it is part of the hash)
+alter table public.translation_cache
+  add column if not exists language text not null default 'en';
+
+-- Language the Reader translates into
+alter table public.profiles
+  add column if not exists target_language text
+  check (target_language in ('en', 'ru', 'fr', 'es', 'yi'));
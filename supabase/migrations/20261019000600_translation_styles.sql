@@ -0,0 +1,9 @@
+-- Named translation styles: 'literal', 'flowing' or 'commentary'.
+-- Each style is cached separately (it is part of the hash).
+alter table public.translation_cache
+  add column if not exists style text not null default 'flowing';
+
+-- Default style for newly translated sections in the Reader
+alter table public.profiles
+  add column if not exists translation_style text
+  check (translation_style in ('literal', 'flowing', 'commentary'));
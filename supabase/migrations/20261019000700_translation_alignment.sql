@@ -0,0 +1,31 @@
+-- Interlinear word alignments, shared like the translation cache: only admins
+-- write them, and admins can delete a bad one. Keyed by the cache entry's hash, the aligned translation text
+-- (a section may show a retranslation or a published revision rather than
+-- the shared cache row) and the alignment prompt version.
+-- alignment: [{ "hebrew": [first, last], "translation": [start, end] }]
+create table if not exists public.translation_alignments (
+  hash text not null,
+  translation_hash text not null,
+  alignment_version text not null,
+  alignment jsonb not null,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  primary key (hash, translation_hash, alignment_version)
+);
+
+alter table public.translation_alignments enable row level security;
+
+create policy "Logged-in users can read cached alignments"
+  on public.translation_alignments for select
+  to authenticated
+  using (true);
+
+create policy "Admins can add cached alignments"
+  on public.translation_alignments for insert
+  to authenticated
+  with check (public.is_admin() and created_by = auth.uid());
+
+create policy "Admins can delete cached alignments"
+  on public.translation_alignments for delete
+  to authenticated
+  using (public.is_admin());
@@ -0,0 +1,29 @@
+-- Structural outlines of chapters (Minimap), cached by content.
+-- hash = sha256(normalized chapter text, title language, model, prompt version)
+-- Like the translation cache, only admins write it and admins can delete a bad row.
+create table if not exists public.chapter_outlines (
+  hash text primary key,
+  outline jsonb not null,
+  language text not null,
+  model text not null,
+  prompt_version text not null,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.chapter_outlines enable row level security;
+
+create policy "Logged-in users can read chapter outlines"
+  on public.chapter_outlines for select
+  to authenticated
+  using (true);
+
+create policy "Admins can add chapter outlines"
+  on public.chapter_outlines for insert
+  to authenticated
+  with check (public.is_admin() and created_by = auth.uid());
+
+create policy "Admins can delete chapter outlines"
+  on public.chapter_outlines for delete
+  to authenticated
+  using (public.is_admin());
@@ -0,0 +1,21 @@
+-- Review questions per user and chapter, with their spaced-repetition
+-- schedules (inside questions) and the answers given so far (history)
+create table if not exists public.chapter_reviews (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  book_id text not null,
+  book_title text not null,
+  questions jsonb not null default '[]'::jsonb,
+  history jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, book_id)
+);
+
+alter table public.chapter_reviews enable row level security;
+
+create policy "Users can manage their own reviews"
+  on public.chapter_reviews for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
@@ -0,0 +1,7 @@
+-- User overrides of the prompt templates, keyed by template id
+alter table public.profiles
+  add column if not exists prompt_overrides jsonb;
+
+-- Template version that produced each library translation
+alter table public.segment_translations
+  add column if not exists prompt_version text;
@@ -0,0 +1,3 @@
+-- Soft limits on AI usage ({"dailyTokens": number, "weeklyCost": number})
+alter table public.profiles
+  add column if not exists usage_limits jsonb;
@@ -0,0 +1,78 @@
+-- Free tier AI proxy requests per subject ('user:<id>' or 'ip:<address>') and
+-- UTC day. Only the ai-proxy edge function (service role) reads or writes it.
+create table if not exists public.ai_quota_usage (
+  subject text not null,
+  day date not null default (now() at time zone 'utc')::date,
+  requests integer not null default 0,
+  primary key (subject, day)
+);
+
+alter table public.ai_quota_usage enable row level security;
+
+-- Counts one request against every subject, but only if all of them are still
+-- under their limit. Returns the quota closest to running out:
+-- {"allowed": boolean, "limit": integer, "remaining": integer}
+create or replace function public.consume_ai_quota(p_subjects text[], p_limits integer[])
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_day date := (now() at time zone 'utc')::date;
+  v_allowed boolean := true;
+  v_limit integer;
+  v_remaining integer;
+  v_used integer;
+  i integer;
+begin
+  for i in 1 .. coalesce(array_length(p_subjects, 1), 0) loop
+    insert into public.ai_quota_usage (subject, day)
+      values (p_subjects[i], v_day)
+      on conflict (subject, day) do nothing;
+  end loop;
+
+  for i in 1 .. coalesce(array_length(p_subjects, 1), 0) loop
+    select requests into v_used
+      from public.ai_quota_usage
+      where subject = p_subjects[i] and day = v_day
+      for update;
+    if v_used >= p_limits[i] then
+      v_allowed := false;
+    end if;
+    if v_remaining is null or p_limits[i] - v_used < v_remaining then
+      v_limit := p_limits[i];
+      v_remaining := p_limits[i] - v_used;
+    end if;
+  end loop;
+
+  if v_allowed then
+    update public.ai_quota_usage
+      set requests = requests + 1
+      where subject = any (p_subjects) and day = v_day;
+    v_remaining := v_remaining - 1;
+  end if;
+
+  return jsonb_build_object(
+    'allowed', v_allowed,
+    'limit', coalesce(v_limit, 0),
+    'remaining', greatest(coalesce(v_remaining, 0), 0)
+  );
+end;
+$$;
+
+revoke execute on function public.consume_ai_quota(text[], integer[]) from public, anon, authenticated;
+
+-- Gives back the request counted by consume_ai_quota when the AI call failed
+create or replace function public.refund_ai_quota(p_subjects text[])
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.ai_quota_usage
+    set requests = greatest(requests - 1, 0)
+    where subject = any (p_subjects) and day = (now() at time zone 'utc')::date;
+$$;
+
+revoke execute on function public.refund_ai_quota(text[]) from public, anon, authenticated;
@@ -0,0 +1,53 @@
+-- Readers' reports of problems with a translated section, and their moderation.
+-- The section is referenced by its translation cache entry (segment_hash and
+-- the parameters that produced it); an accepted correction is published as
+-- the section's revision.
+create table if not exists public.translation_reports (
+  id uuid primary key default gen_random_uuid(),
+  reporter_id uuid references auth.users (id) on delete set null,
+  book_id text,
+  book_title text not null,
+  section integer not null,
+  hebrew text not null,
+  translation text not null,
+  language text not null check (language in ('en', 'ru', 'fr', 'es', 'yi')),
+  style text not null check (style in ('literal', 'flowing', 'commentary')),
+  segment_hash text not null,
+  model text not null,
+  prompt_version text not null,
+  glossary_version text not null,
+  category text not null check (category in ('meaning', 'terminology', 'formatting', 'missing')),
+  note text not null default '',
+  suggestion text,
+  status text not null default 'open' check (status in ('open', 'accepted', 'dismissed')),
+  resolution text,
+  resolved_by uuid references auth.users (id) on delete set null,
+  resolved_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists translation_reports_status_idx
+  on public.translation_reports (status, created_at desc);
+
+alter table public.translation_reports enable row level security;
+
+-- Guests can report too (without a reporter)
+create policy "Anyone can report translations"
+  on public.translation_reports for insert
+  to anon, authenticated
+  with check (
+    reporter_id is not distinct from auth.uid()
+    and status = 'open' and resolution is null and resolved_by is null and resolved_at is null
+  );
+
+-- The moderation queue, reporters' notes included, is for admins only
+create policy "Admins can read translation reports"
+  on public.translation_reports for select
+  to authenticated
+  using (public.is_admin());
+
+create policy "Admins can resolve translation reports"
+  on public.translation_reports for update
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin() and resolved_by = auth.uid());
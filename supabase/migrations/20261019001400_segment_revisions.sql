@@ -0,0 +1,77 @@
+-- Every rendering of a section is kept as a revision instead of overwriting
+-- the last one. Sections are identified by content:
+-- segment_key = sha256(normalized Hebrew, language, style)
+create table if not exists public.segment_revisions (
+  id uuid primary key default gen_random_uuid(),
+  segment_key text not null,
+  language text not null check (language in ('en', 'ru', 'fr', 'es', 'yi')),
+  style text not null check (style in ('literal', 'flowing', 'commentary')),
+  text text not null,
+  source text not null check (source in ('model', 'human')),
+  model text,
+  prompt_version text,
+  created_by uuid references auth.users (id) on delete set null,
+  review_status text not null default 'unreviewed' check (review_status in ('unreviewed', 'approved', 'rejected')),
+  reviewed_by uuid references auth.users (id) on delete set null,
+  reviewed_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists segment_revisions_key_idx
+  on public.segment_revisions (segment_key, created_at desc);
+
+-- The revision readers see, per section. Set explicitly (publish or restore);
+-- an admin's new model translation only fills it when nothing is published yet.
+create table if not exists public.segment_publications (
+  segment_key text primary key,
+  revision_id uuid not null references public.segment_revisions (id) on delete cascade,
+  published_by uuid references auth.users (id) on delete set null,
+  published_at timestamptz not null default now()
+);
+
+alter table public.segment_revisions enable row level security;
+alter table public.segment_publications enable row level security;
+
+create policy "Anyone can read segment revisions"
+  on public.segment_revisions for select
+  using (true);
+
+-- Anyone logged in adds unreviewed model revisions; only admins add human or
+-- reviewed ones
+create policy "Logged-in users can add segment revisions"
+  on public.segment_revisions for insert
+  to authenticated
+  with check (
+    created_by = auth.uid()
+    and (public.is_admin() or (source = 'model' and review_status = 'unreviewed' and reviewed_by is null))
+  );
+
+create policy "Admins can review segment revisions"
+  on public.segment_revisions for update
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin() and reviewed_by = auth.uid());
+
+create policy "Anyone can read published revisions"
+  on public.segment_publications for select
+  using (true);
+
+-- Only admins publish, and only a revision of the same section
+create policy "Admins can publish revisions"
+  on public.segment_publications for insert
+  to authenticated
+  with check (
+    public.is_admin()
+    and published_by = auth.uid()
+    and exists (
+      select 1 from public.segment_revisions r
+      where r.id = revision_id
+        and r.segment_key = segment_publications.segment_key
+    )
+  );
+
+create policy "Admins can change published revisions"
+  on public.segment_publications for update
+  to authenticated
+  using (public.is_admin())
+  with check (public.is_admin() and published_by = auth.uid());
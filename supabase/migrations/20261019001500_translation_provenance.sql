@@ -0,0 +1,13 @@
+-- Who reviewed a revision, by name, for the Reader's provenance badge
+alter table public.segment_revisions
+  add column if not exists reviewer_name text;
+
+-- Library translations record what produced them
+alter table public.segment_translations
+  add column if not exists source text not null default 'model'
+  check (source in ('model', 'human')),
+  add column if not exists model text;
+
+-- Reader setting: show only human or reviewed translations
+alter table public.profiles
+  add column if not exists hide_unreviewed_translations boolean;
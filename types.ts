@@ -1,6 +1,21 @@
 export type Theme = 'light' | 'sepia' | 'dark';
-export type TranslationMode = 'hebrew' | 'bilingual' | 'english';
+export type TranslationMode = 'hebrew' | 'bilingual' | 'english' | 'interlinear';
 export type TextAlign = 'center' | 'justify';
+export type AbbreviationMode = 'off' | 'hover' | 'inline';
+export type TargetLanguage = 'en' | 'ru' | 'fr' | 'es' | 'yi';
+export type TranslationStyle = 'literal' | 'flowing' | 'commentary';
+export type AIProviderId = 'gemini' | 'openai-compatible' | 'fake' | 'free-tier'; // free-tier: the project's proxy, not user-selectable
+export type PromptId = 'translate' | 'align' | 'outline' | 'quotes' | 'quiz' | 'chat' | 'selection.translate' | 'selection.summarize' | 'selection.explain' | 'selection.define';
+export type PromptOverrides = Partial<Record<PromptId, string>>; // User templates replacing the defaults
+
+export interface AIConfig {
+  provider: AIProviderId;
+  model: string;
+  apiKey: string;
+  baseUrl?: string; // Only used by OpenAI-compatible endpoints (incl. local servers)
+  promptOverrides?: PromptOverrides;
+  book?: { id: string; title: string }; // What the request is for (usage accounting)
+}
 
 export interface Book {
   id: string;
@@ -23,14 +38,243 @@ export interface TextSelection {
 export interface TextChunk {
   id: number;
   hebrew: string;
-  translation: string | null;
+  translation: string | null; // Rendering in the active style
   isLoading: boolean;
   context?: string;
+  style?: TranslationStyle; // Active style for this section (defaults to Settings.translationStyle)
+  translations?: Partial<Record<TranslationStyle, string>>; // Every style fetched so far
+  compareStyle?: TranslationStyle | null; // Second style shown side by side
+  loadingStyles?: TranslationStyle[];
+  pendingStyle?: TranslationStyle; // Style picked but not yet translated; the active one stays on screen meanwhile
+  alignment?: WordAlignment[] | null; // Word pairs for the active translation (null: could not be aligned)
+  quotes?: QuoteMatch[]; // Scripture and Chazal quotations in the Hebrew
+  quotesChecked?: boolean; // The AI fallback has looked for quotations the index missed
+  isFindingQuotes?: boolean;
+  glossaryIssues?: string[]; // Required term renderings the translation missed
+  fromCache?: boolean; // Filled from the translation cache rather than a fresh model call
+  provenances?: Partial<Record<TranslationStyle, TranslationProvenance>>; // Who or what wrote each style's rendering
+}
+
+// One Hebrew↔translation word pair of an interlinear alignment
+export interface WordAlignment {
+  hebrew: [number, number];      // First and last Hebrew token (whitespace-separated, inclusive)
+  translation: [number, number]; // Character span [start, end) in the translation's plain text
 }
 
+// A node of a chapter's structural outline (opening verse, question, hakdamah…)
+export interface OutlineNode {
+  title: string;
+  start: number; // First section, numbered as in [Section N]
+  end: number;   // Last section (inclusive)
+  children?: OutlineNode[];
+}
+
+export type SourceCorpus = 'tanakh' | 'mishnah' | 'talmud' | 'midrash' | 'zohar';
+
+// Canonical location of a quoted source
+export interface SourceReference {
+  corpus: SourceCorpus;
+  book: string;       // Canonical English name (e.g. 'Proverbs', 'Rosh Hashanah')
+  hebrewBook: string; // e.g. 'משלי'
+  chapter: string;    // Chapter, or daf for the Talmud (e.g. '32a')
+  verse?: string;     // Verse or paragraph, where there is one
+}
+
+// A quotation of Scripture or Chazal found in a Hebrew segment
+export interface QuoteMatch {
+  start: number; // Offsets into the original text
+  end: number;
+  text: string;
+  reference: SourceReference;
+  sourceText?: string;     // Wording of the source (local index only)
+  origin: 'index' | 'ai';  // AI-identified references are unverified
+  promptVersion?: string;  // Template that found it (AI only)
+}
+
+export interface GlossaryEntry {
+  hebrew: string[]; // Spellings, including abbreviations (e.g. ['ח"ע', 'חכמה עילאה'])
+  english: string;  // Required rendering in translations
+  note?: string;
+}
+
+export type AnswerConfidence = 'high' | 'medium' | 'low';
+
+export interface ChatCitation {
+  section: number;
+  quote: string; // Hebrew span the answer relies on
+}
+
+// Structured chat answer returned by the model in JSON mode
+export interface ChatResponse {
+  answer: string[]; // Paragraphs (inline <b>/<i> and [Section X] markers)
+  citations: ChatCitation[];
+  followUps: string[];
+  confidence: AnswerConfidence;
+}
+
+export type CitationStatus = 'verified' | 'weak' | 'invalid';
+
+export interface CitationCheck {
+  section: number;
+  quote: string;
+  status: CitationStatus;
+  score: number; // 0..1 share of the quote found in the cited section
+  note?: string; // Why a citation is weak or invalid
+}
+
+// Result of checking an answer's citations against the sections it was given
+export interface CitationReport {
+  checks: CitationCheck[];
+  sections: Record<number, CitationStatus>; // Worst status per cited section (inline markers)
+  missing: number[]; // Cited sections that do not exist in the text
+}
+
+// Where a [Section N] of a library-wide answer lives
+export interface LibrarySource {
+  section: number;
+  segmentId: string;
+  hebrew: string;
+  bookId: string;
+  bookTitle: string;
+  chapterId: string;
+  chapterTitle: string;
+  sequence: number;
+}
+
+// What the prompt budget left out of a chat request
+export interface ContextReport {
+  estimatedTokens: number;
+  summarizedTurns: number;   // Older messages folded into the digest
+  droppedSections: number[]; // Chapter sections left out of the context
+  keptSections: number;
+  contextTruncated: boolean; // Unsectioned context (e.g. a long selection) was cut
+  condensed: boolean;
+}
+
+export type ChatContextMode = 'selection' | 'full' | 'library';
+
 export interface ChatMessage {
   role: 'user' | 'model';
   content: string;
+  response?: ChatResponse; // Present on structured model answers
+  verification?: CitationReport;
+  sources?: LibrarySource[]; // Present on library-wide answers; sections map to these
+  contextReport?: ContextReport; // Present when the prompt had to be condensed
+  promptVersion?: string; // Template behind a selection action (user) or the answer (model)
+}
+
+// A saved Orb conversation, scoped to the book or chapter it was held on
+export interface ChatThread {
+  id: string;
+  title: string;
+  bookId: string | null;
+  bookTitle: string | null;
+  messages: ChatMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// --- Chapter reviews ---
+
+export type QuizQuestionType = 'multiple_choice' | 'short_answer' | 'locate';
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// Spaced-repetition state of one question (SM-2)
+export interface ReviewSchedule {
+  ease: number;        // Interval multiplier, at least 1.3
+  interval: number;    // Days until the next review
+  repetitions: number; // Successful reviews in a row
+  dueAt: string;       // ISO date
+}
+
+export interface QuizQuestion {
+  id: string;
+  type: QuizQuestionType;
+  prompt: string;
+  choices?: string[];    // Multiple choice options; section numbers for 'locate'
+  answer: string;        // The correct choice, the section number, or a model answer
+  explanation: string;
+  citations: ChatCitation[]; // Where the chapter says it
+  schedule: ReviewSchedule;
+  promptVersion?: string; // Template that wrote it; absent for offline questions
+}
+
+export interface ReviewAttempt {
+  questionId: string;
+  grade: ReviewGrade;
+  response?: string; // What the reader chose or wrote
+  at: string;
+}
+
+// Review questions for one chapter and the reader's answers to them
+export interface ChapterReview {
+  id: string;
+  bookId: string;
+  bookTitle: string;
+  questions: QuizQuestion[];
+  history: ReviewAttempt[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ReportCategory = 'meaning' | 'terminology' | 'formatting' | 'missing';
+export type ReportStatus = 'open' | 'accepted' | 'dismissed';
+
+// A reader's report of a problem with one translated section. The section is
+// referenced by its translation cache entry, which an accepted correction replaces.
+export interface TranslationReport {
+  id: string;
+  bookId: string | null;
+  bookTitle: string;
+  section: number;            // 1-based, as in [Section N]
+  hebrew: string;
+  translation: string;        // The rendering that was reported
+  language: TargetLanguage;
+  style: TranslationStyle;
+  segmentHash: string;
+  model: string;
+  promptVersion: string;
+  glossaryVersion: string;
+  category: ReportCategory;
+  note: string;
+  suggestion: string | null;  // The reporter's corrected translation
+  status: ReportStatus;
+  resolution: string | null;  // The correction accepted (may differ from the suggestion)
+  createdAt: string;
+  resolvedAt: string | null;
+}
+
+export type RevisionSource = 'model' | 'human';
+export type RevisionStatus = 'unreviewed' | 'approved' | 'rejected';
+
+// One saved rendering of a section. Revisions are kept per section content,
+// language and style (segmentKey); which one readers see is chosen explicitly.
+export interface SegmentRevision {
+  id: string;
+  segmentKey: string;
+  language: TargetLanguage;
+  style: TranslationStyle;
+  text: string;
+  source: RevisionSource;
+  model: string | null;         // Model revisions only
+  promptVersion: string | null; // Model revisions only
+  createdBy: string | null;     // The editor, or who ran the model
+  reviewStatus: RevisionStatus;
+  reviewer: string | null;      // Name of whoever approved or rejected it
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+// Where a displayed translation comes from, for the Reader's badge
+export interface TranslationProvenance {
+  source: RevisionSource;
+  model: string | null;
+  promptVersion: string | null;
+  reviewStatus: RevisionStatus;
+  reviewer: string | null;
+  reviewedAt: string | null;
+  createdAt: string | null; // Unknown for cached translations
 }
 
 export interface AIState {
@@ -39,6 +283,7 @@ export interface AIState {
   type: 'translation' | 'summary' | 'chat' | null;
   error: string | null;
   followUps?: string[];
+  streamingText?: string; // Partial answer while the model is still streaming
 }
 
 export interface BookProgress {
@@ -47,18 +292,32 @@ export interface BookProgress {
   lastReadDate: string;
 }
 
+// Soft limits: exceeding them only warns (before batch jobs), nothing is blocked
+export interface UsageLimits {
+  dailyTokens: number | null;
+  weeklyCost: number | null; // USD
+}
+
 export interface Settings {
   theme: Theme;
   fontSize: number; // in rem
   lineHeight: number;
   translationMode: TranslationMode;
+  targetLanguage: TargetLanguage; // Language translations are produced and shown in
+  translationStyle: TranslationStyle; // Default style for newly translated sections
   textAlign: TextAlign;
+  abbreviationMode: AbbreviationMode; // How Rashei Teivos expansions are shown in the Reader
   apiKey: string;
-  dailyUsageCount: number;
-  lastUsageDate: string; // YYYY-MM-DD
+  aiProvider: AIProviderId;
+  aiModel: string;
+  aiBaseUrl: string;
   progress: BookProgress[];
   localProgress: BookProgress[]; // Added for guest users
-  isAdmin: boolean; // New: Admin flag
+  isAdmin: boolean; // Mirrors public.is_admin(); only shows or hides the admin tools
+  hideUnreviewedTranslations: boolean; // Show only translations a reviewer approved
+  glossary: GlossaryEntry[]; // User overrides on top of the built-in glossary
+  promptOverrides: PromptOverrides;
+  usageLimits: UsageLimits;
 }
 
 export interface WebcamState {
@@ -84,6 +343,13 @@ export interface Profile {
   font_size: number | null;
   line_height: number | null;
   translation_mode: TranslationMode | null;
+  target_language: TargetLanguage | null;
+  translation_style: TranslationStyle | null;
   text_align: TextAlign | null;
+  abbreviation_mode: AbbreviationMode | null;
   progress: BookProgress[] | null;
+  glossary: GlossaryEntry[] | null;
+  prompt_overrides: PromptOverrides | null;
+  usage_limits: UsageLimits | null;
+  hide_unreviewed_translations: boolean | null;
 }
\ No newline at end of file